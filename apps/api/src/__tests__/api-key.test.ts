@@ -0,0 +1,178 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+
+// ---------------------------------------------------------------------------
+// Mock services before importing the middleware (ESM mock hoisting)
+// ---------------------------------------------------------------------------
+
+const mockAuthenticate = jest.fn<(key: string) => Promise<unknown>>();
+
+jest.unstable_mockModule('../services/api-key.service.js', () => ({
+  apiKeyService: {
+    authenticate: mockAuthenticate,
+  },
+}));
+
+const { apiKeyAuth, rejectApiKeys } = await import('../middleware/api-key.js');
+
+const app = express();
+app.use(express.json());
+app.use(apiKeyAuth);
+// Echo what the middleware attached to the request
+const echo = (req: AuthenticatedRequest, res: express.Response) => {
+  res.status(200).json({ user: req.user ?? null, apiKey: req.apiKey ?? null });
+};
+app.get('/palettes', echo);
+app.post('/palettes', echo);
+app.post('/generate/color', echo);
+app.get('/me/api-keys', echo);
+// Routers match paths case-insensitively and tolerate doubled slashes
+const me = express.Router();
+me.post('/api-keys', rejectApiKeys, echo);
+app.use('/me', me);
+
+const KEY = {
+  id: 'key-1',
+  scopes: ['read', 'generate'],
+  allowedOrigins: ['https://vizail.com'],
+  quotas: { general: 50 },
+  owner: { firebaseUid: 'owner-uid', email: 'owner@example.com' },
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockAuthenticate.mockResolvedValue(KEY);
+});
+
+describe('apiKeyAuth', () => {
+  it('passes requests without a key straight through', async () => {
+    const res = await request(app).get('/palettes');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ user: null, apiKey: null });
+    expect(mockAuthenticate).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown or revoked keys', async () => {
+    mockAuthenticate.mockResolvedValue(null);
+
+    const res = await request(app)
+      .get('/palettes')
+      .set('x-api-key', 'kulrs_nope');
+
+    expect(res.status).toBe(401);
+  });
+
+  it("acts as the key's owner when no Firebase token is sent", async () => {
+    const res = await request(app)
+      .get('/palettes')
+      .set('x-api-key', 'kulrs_valid');
+
+    expect(res.status).toBe(200);
+    expect(mockAuthenticate).toHaveBeenCalledWith('kulrs_valid');
+    expect(res.body.user).toEqual({
+      uid: 'owner-uid',
+      email: 'owner@example.com',
+    });
+    expect(res.body.apiKey).toEqual({ id: 'key-1', quotas: { general: 50 } });
+  });
+
+  it('leaves the user to Firebase auth when a token is also sent', async () => {
+    const res = await request(app)
+      .get('/palettes')
+      .set('x-api-key', 'kulrs_valid')
+      .set('Authorization', 'Bearer some-user-token');
+
+    expect(res.status).toBe(200);
+    expect(res.body.user).toBeNull();
+    expect(res.body.apiKey.id).toBe('key-1');
+  });
+
+  it('requires the generate scope for /generate routes', async () => {
+    mockAuthenticate.mockResolvedValue({ ...KEY, scopes: ['read'] });
+
+    const res = await request(app)
+      .post('/generate/color')
+      .set('x-api-key', 'kulrs_valid');
+
+    expect(res.status).toBe(403);
+    expect(res.body.message).toMatch(/"generate" scope/);
+  });
+
+  it('requires the write scope for other writes', async () => {
+    const res = await request(app)
+      .post('/palettes')
+      .set('x-api-key', 'kulrs_valid');
+
+    expect(res.status).toBe(403);
+    expect(res.body.message).toMatch(/"write" scope/);
+  });
+
+  it('refuses key management with an API key', async () => {
+    const res = await request(app)
+      .get('/me/api-keys')
+      .set('x-api-key', 'kulrs_valid');
+
+    expect(res.status).toBe(403);
+  });
+
+  it.each(['/ME/api-keys', '/me/API-KEYS', '/me//api-keys'])(
+    'refuses key management at %s',
+    async path => {
+      mockAuthenticate.mockResolvedValue({
+        ...KEY,
+        scopes: ['read', 'generate', 'write'],
+      });
+
+      const res = await request(app).post(path).set('x-api-key', 'kulrs_valid');
+
+      expect(res.status).toBe(403);
+      expect(res.body.message).toMatch(/not available with API keys/);
+    }
+  );
+  it("allows browser requests from the key's origins", async () => {
+    const res = await request(app)
+      .get('/palettes')
+      .set('x-api-key', 'kulrs_valid')
+      .set('Origin', 'https://vizail.com');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['access-control-allow-origin']).toBe(
+      'https://vizail.com'
+    );
+  });
+
+  it('rejects browser requests from other origins', async () => {
+    const res = await request(app)
+      .get('/palettes')
+      .set('x-api-key', 'kulrs_valid')
+      .set('Origin', 'https://evil.example');
+
+    expect(res.status).toBe(403);
+    expect(res.headers['access-control-allow-origin']).toBeUndefined();
+  });
+});
+
+describe('rejectApiKeys', () => {
+  const guarded = express();
+  guarded.use((req: AuthenticatedRequest, _res, next) => {
+    if (req.header('x-test-key')) req.apiKey = { id: 'key-1', quotas: {} };
+    next();
+  });
+  guarded.use(rejectApiKeys);
+  guarded.post('/api-keys', echo);
+
+  it('refuses requests authenticated by a key', async () => {
+    const res = await request(guarded).post('/api-keys').set('x-test-key', '1');
+
+    expect(res.status).toBe(403);
+  });
+
+  it('lets other requests through', async () => {
+    const res = await request(guarded).post('/api-keys');
+
+    expect(res.status).toBe(200);
+  });
+});
@@ -0,0 +1,267 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+
+// ---------------------------------------------------------------------------
+// Mock services before importing the router (ESM mock hoisting)
+// ---------------------------------------------------------------------------
+
+const mockGetOrCreateUser = jest.fn<() => Promise<unknown>>();
+const mockGetUserCollections = jest.fn<() => Promise<unknown>>();
+const mockCreateCollection = jest.fn<() => Promise<unknown>>();
+const mockUpdateCollection = jest.fn<() => Promise<unknown>>();
+const mockReorderCollections = jest.fn<() => Promise<unknown>>();
+const mockDeleteCollection = jest.fn<() => Promise<unknown>>();
+const mockAddPalette = jest.fn<() => Promise<unknown>>();
+const mockReorderPalettes = jest.fn<() => Promise<unknown>>();
+const mockRemovePalette = jest.fn<() => Promise<unknown>>();
+const mockGetCollection = jest.fn<() => Promise<unknown>>();
+
+jest.unstable_mockModule('../services/palette.service.js', () => ({
+  paletteService: {
+    getOrCreateUser: mockGetOrCreateUser,
+  },
+}));
+
+jest.unstable_mockModule('../services/collection.service.js', () => ({
+  collectionService: {
+    getUserCollections: mockGetUserCollections,
+    createCollection: mockCreateCollection,
+    updateCollection: mockUpdateCollection,
+    reorderCollections: mockReorderCollections,
+    deleteCollection: mockDeleteCollection,
+    addPalette: mockAddPalette,
+    reorderPalettes: mockReorderPalettes,
+    removePalette: mockRemovePalette,
+    getCollection: mockGetCollection,
+  },
+}));
+
+const { default: collectionsRouter } = await import('../routes/collections.js');
+const { errorHandler, ForbiddenError } = await import('../utils/errors.js');
+
+const app = express();
+app.use(express.json());
+// Stand-in for the Firebase auth middleware: tests opt in via `x-test-uid`
+app.use((req: AuthenticatedRequest, _res, next) => {
+  const uid = req.header('x-test-uid');
+  if (uid) req.user = { uid };
+  next();
+});
+app.use('/collections', collectionsRouter);
+app.use(errorHandler({ verbose: false }));
+
+const COL_ID_1 = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+const COL_ID_2 = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+const PAL_ID_1 = '11111111-1111-4111-8111-111111111111';
+const PAL_ID_2 = '22222222-2222-4222-8222-222222222222';
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetOrCreateUser.mockResolvedValue({ id: 'user-1' });
+});
+
+describe('GET /collections/my', () => {
+  it('requires authentication', async () => {
+    const res = await request(app).get('/collections/my');
+    expect(res.status).toBe(401);
+  });
+
+  it("lists the user's collections", async () => {
+    mockGetUserCollections.mockResolvedValue([
+      { id: COL_ID_1, name: 'Brand', palettesCount: 3 },
+    ]);
+
+    const res = await request(app)
+      .get('/collections/my')
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(1);
+    expect(mockGetUserCollections).toHaveBeenCalledWith('user-1');
+  });
+});
+
+describe('POST /collections', () => {
+  it('creates a collection with validated input', async () => {
+    mockCreateCollection.mockResolvedValue({ id: COL_ID_1, name: 'Brand' });
+
+    const res = await request(app)
+      .post('/collections')
+      .set('x-test-uid', 'firebase-1')
+      .send({ name: '  Brand  ', isPublic: true });
+
+    expect(res.status).toBe(201);
+    expect(mockCreateCollection).toHaveBeenCalledWith('user-1', {
+      name: 'Brand',
+      isPublic: true,
+    });
+  });
+
+  it('rejects an empty name', async () => {
+    const res = await request(app)
+      .post('/collections')
+      .set('x-test-uid', 'firebase-1')
+      .send({ name: '' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Validation failed');
+    expect(mockCreateCollection).not.toHaveBeenCalled();
+  });
+});
+
+describe('PATCH /collections/:id', () => {
+  it('renames a collection', async () => {
+    mockUpdateCollection.mockResolvedValue({ id: COL_ID_1, name: 'Renamed' });
+
+    const res = await request(app)
+      .patch(`/collections/${COL_ID_1}`)
+      .set('x-test-uid', 'firebase-1')
+      .send({ name: 'Renamed' });
+
+    expect(res.status).toBe(200);
+    expect(mockUpdateCollection).toHaveBeenCalledWith('user-1', COL_ID_1, {
+      name: 'Renamed',
+    });
+  });
+
+  it('rejects an empty update', async () => {
+    const res = await request(app)
+      .patch(`/collections/${COL_ID_1}`)
+      .set('x-test-uid', 'firebase-1')
+      .send({});
+
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects a malformed collection id', async () => {
+    const res = await request(app)
+      .patch('/collections/not-a-uuid')
+      .set('x-test-uid', 'firebase-1')
+      .send({ name: 'Renamed' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/invalid collection id/i);
+  });
+});
+
+describe('PUT /collections/order', () => {
+  it('forwards the requested order', async () => {
+    mockReorderCollections.mockResolvedValue({ reordered: true });
+
+    const res = await request(app)
+      .put('/collections/order')
+      .set('x-test-uid', 'firebase-1')
+      .send({ collectionIds: [COL_ID_2, COL_ID_1] });
+
+    expect(res.status).toBe(200);
+    expect(mockReorderCollections).toHaveBeenCalledWith('user-1', [
+      COL_ID_2,
+      COL_ID_1,
+    ]);
+  });
+});
+
+describe('DELETE /collections/:id', () => {
+  it('deletes an owned collection', async () => {
+    mockDeleteCollection.mockResolvedValue({ deleted: true });
+
+    const res = await request(app)
+      .delete(`/collections/${COL_ID_1}`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(mockDeleteCollection).toHaveBeenCalledWith('user-1', COL_ID_1);
+  });
+});
+
+describe('collection palettes', () => {
+  it('adds a palette to a collection', async () => {
+    mockAddPalette.mockResolvedValue({ added: true });
+
+    const res = await request(app)
+      .post(`/collections/${COL_ID_1}/palettes`)
+      .set('x-test-uid', 'firebase-1')
+      .send({ paletteId: PAL_ID_1 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ added: true });
+    expect(mockAddPalette).toHaveBeenCalledWith('user-1', COL_ID_1, PAL_ID_1);
+  });
+
+  it('forwards the requested palette order', async () => {
+    mockReorderPalettes.mockResolvedValue({ reordered: true });
+
+    const res = await request(app)
+      .put(`/collections/${COL_ID_1}/palettes/order`)
+      .set('x-test-uid', 'firebase-1')
+      .send({ paletteIds: [PAL_ID_2, PAL_ID_1] });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ reordered: true });
+    expect(mockReorderPalettes).toHaveBeenCalledWith('user-1', COL_ID_1, [
+      PAL_ID_2,
+      PAL_ID_1,
+    ]);
+  });
+
+  it('rejects a palette order that is not a list of ids', async () => {
+    const res = await request(app)
+      .put(`/collections/${COL_ID_1}/palettes/order`)
+      .set('x-test-uid', 'firebase-1')
+      .send({ paletteIds: ['not-a-uuid'] });
+
+    expect(res.status).toBe(400);
+    expect(mockReorderPalettes).not.toHaveBeenCalled();
+  });
+
+  it('removes a palette from a collection', async () => {
+    mockRemovePalette.mockResolvedValue({ removed: true });
+
+    const res = await request(app)
+      .delete(`/collections/${COL_ID_1}/palettes/${PAL_ID_1}`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(mockRemovePalette).toHaveBeenCalledWith(
+      'user-1',
+      COL_ID_1,
+      PAL_ID_1
+    );
+  });
+});
+
+describe('GET /collections/:id', () => {
+  it('is readable without authentication', async () => {
+    mockGetCollection.mockResolvedValue({
+      id: COL_ID_1,
+      isPublic: true,
+      palettes: [],
+    });
+
+    const res = await request(app).get(`/collections/${COL_ID_1}`);
+
+    expect(res.status).toBe(200);
+    expect(mockGetCollection).toHaveBeenCalledWith(COL_ID_1, null);
+    expect(mockGetOrCreateUser).not.toHaveBeenCalled();
+  });
+
+  it('is read anonymously by a suspended viewer', async () => {
+    mockGetOrCreateUser.mockRejectedValue(
+      new ForbiddenError('Account suspended')
+    );
+    mockGetCollection.mockResolvedValue({
+      id: COL_ID_1,
+      isPublic: true,
+      palettes: [],
+    });
+
+    const res = await request(app)
+      .get(`/collections/${COL_ID_1}`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(mockGetCollection).toHaveBeenCalledWith(COL_ID_1, null);
+  });
+});
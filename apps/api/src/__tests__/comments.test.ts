@@ -0,0 +1,86 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+
+// ---------------------------------------------------------------------------
+// Mock services before importing the router (ESM mock hoisting)
+// ---------------------------------------------------------------------------
+
+const mockGetOrCreateUser = jest.fn<() => Promise<unknown>>();
+const mockDeleteComment = jest.fn<() => Promise<unknown>>();
+
+jest.unstable_mockModule('../services/palette.service.js', () => ({
+  paletteService: {
+    getOrCreateUser: mockGetOrCreateUser,
+  },
+}));
+
+jest.unstable_mockModule('../services/comment.service.js', () => ({
+  commentService: {
+    deleteComment: mockDeleteComment,
+  },
+}));
+
+const { default: commentsRouter } = await import('../routes/comments.js');
+const { errorHandler, NotFoundError } = await import('../utils/errors.js');
+
+const app = express();
+app.use(express.json());
+// Stand-in for the Firebase auth middleware: tests opt in via `x-test-uid`
+app.use((req: AuthenticatedRequest, _res, next) => {
+  const uid = req.header('x-test-uid');
+  if (uid) req.user = { uid };
+  next();
+});
+app.use('/comments', commentsRouter);
+app.use(errorHandler({ verbose: false }));
+
+const COMMENT_ID = 'cccccccc-cccc-4ccc-8ccc-cccccccccccc';
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetOrCreateUser.mockResolvedValue({ id: 'user-1' });
+});
+
+describe('DELETE /comments/:id', () => {
+  it('requires authentication', async () => {
+    const res = await request(app).delete(`/comments/${COMMENT_ID}`);
+
+    expect(res.status).toBe(401);
+    expect(mockDeleteComment).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed ids', async () => {
+    const res = await request(app)
+      .delete('/comments/not-a-uuid')
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(400);
+    expect(mockDeleteComment).not.toHaveBeenCalled();
+  });
+
+  it('deletes the comment with its replies', async () => {
+    mockDeleteComment.mockResolvedValue({ deleted: 3, commentsCount: 4 });
+
+    const res = await request(app)
+      .delete(`/comments/${COMMENT_ID}`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ deleted: 3, commentsCount: 4 });
+    expect(mockDeleteComment).toHaveBeenCalledWith('user-1', COMMENT_ID);
+  });
+
+  it('returns 404 when the user may not delete the comment', async () => {
+    mockDeleteComment.mockRejectedValue(
+      new NotFoundError('Comment not found or not deletable by user')
+    );
+
+    const res = await request(app)
+      .delete(`/comments/${COMMENT_ID}`)
+      .set('x-test-uid', 'firebase-2');
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { idempotent, setIdempotencyStore } from '../middleware/idempotency.js';
+import {
+  MemoryIdempotencyStore,
+  type IdempotencyStore,
+} from '../utils/idempotency-store.js';
+import { errorHandler } from '../utils/errors.js';
+
+let created = 0;
+/** Resolve to let requests to `/slow` finish */
+let finishSlow = () => {};
+
+const app = express();
+app.use(express.json());
+// Stand-in for the Firebase auth middleware: tests opt in via `x-test-uid`
+app.use((req: AuthenticatedRequest, _res, next) => {
+  const uid = req.header('x-test-uid');
+  if (uid) req.user = { uid };
+  next();
+});
+app.post('/palettes', idempotent(), (req, res) => {
+  if (req.body.fail) {
+    res.status(500).json({ error: 'Internal server error' });
+    return;
+  }
+  created += 1;
+  res.status(201).json({ success: true, data: { id: `palette-${created}` } });
+});
+app.post('/slow', idempotent(), async (_req, res) => {
+  await new Promise<void>(resolve => (finishSlow = resolve));
+  res.status(201).json({ success: true });
+});
+app.use(errorHandler({ verbose: false }));
+
+function create(key: string, body: object = { name: 'Dusk' }, uid = 'user-a') {
+  return request(app)
+    .post('/palettes')
+    .set('x-test-uid', uid)
+    .set('Idempotency-Key', key)
+    .send(body);
+}
+
+beforeEach(() => {
+  created = 0;
+  setIdempotencyStore(new MemoryIdempotencyStore());
+});
+
+describe('idempotent', () => {
+  it('replays the first response to a retry', async () => {
+    const first = await create('key-1');
+    const retry = await create('key-1');
+
+    expect(created).toBe(1);
+    expect(retry.status).toBe(201);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+  });
+
+  it('answers 409 when the key is reused for a different body', async () => {
+    await create('key-1');
+
+    const res = await create('key-1', { name: 'Dawn' });
+
+    expect(res.status).toBe(409);
+    expect(created).toBe(1);
+  });
+
+  it('answers 409 while the first request is still running', async () => {
+    const slow = () =>
+      request(app)
+        .post('/slow')
+        .set('x-test-uid', 'user-a')
+        .set('Idempotency-Key', 'key-1');
+    const first = slow().then(res => res);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const res = await slow();
+    finishSlow();
+
+    expect(res.status).toBe(409);
+    expect(res.body.error).toMatch(/in progress/);
+    expect((await first).status).toBe(201);
+  });
+
+  it('keeps the key when the client disconnects mid-request', async () => {
+    const slow = () =>
+      request(app)
+        .post('/slow')
+        .set('x-test-uid', 'user-a')
+        .set('Idempotency-Key', 'key-1');
+    await expect(slow().timeout(50)).rejects.toThrow(/Timeout/);
+
+    const retry = await slow();
+    finishSlow();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const later = await slow();
+
+    expect(retry.status).toBe(409);
+    expect(later.status).toBe(201);
+    expect(later.headers['idempotent-replayed']).toBe('true');
+  });
+
+  it('keeps keys per user', async () => {
+    await create('key-1', { name: 'Dusk' }, 'user-a');
+    const other = await create('key-1', { name: 'Dusk' }, 'user-b');
+
+    expect(other.status).toBe(201);
+    expect(created).toBe(2);
+  });
+
+  it('keys anonymous requests by deviceId', async () => {
+    const body = { name: 'Dusk', deviceId: 'device-a' };
+    const send = () =>
+      request(app).post('/palettes').set('Idempotency-Key', 'k').send(body);
+
+    await send();
+    const retry = await send();
+
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(created).toBe(1);
+  });
+
+  it('lets a retry run again after a server error', async () => {
+    await create('key-1', { fail: true });
+
+    const res = await create('key-1', { fail: true });
+
+    expect(res.status).toBe(500);
+    expect(res.headers['idempotent-replayed']).toBeUndefined();
+  });
+
+  it('runs every request without the header', async () => {
+    await request(app).post('/palettes').set('x-test-uid', 'user-a').send({});
+    await request(app).post('/palettes').set('x-test-uid', 'user-a').send({});
+
+    expect(created).toBe(2);
+  });
+
+  it('rejects malformed keys', async () => {
+    const res = await create('x'.repeat(256));
+
+    expect(res.status).toBe(400);
+    expect(created).toBe(0);
+  });
+
+  it('runs the request when the store fails', async () => {
+    const failing: IdempotencyStore = {
+      claim: () => Promise.reject(new Error('connection refused')),
+      complete: () => Promise.resolve(),
+      release: () => Promise.resolve(),
+    };
+    setIdempotencyStore(failing);
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+
+    const res = await create('key-1');
+
+    expect(res.status).toBe(201);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('MemoryIdempotencyStore', () => {
+  const TTL = 60_000;
+
+  it('lets a retry take over a key whose lease ran out', async () => {
+    const store = new MemoryIdempotencyStore();
+    await store.claim('key-1', 'f', TTL, -1);
+
+    expect(await store.claim('key-1', 'f', TTL, TTL)).toBeNull();
+    expect(await store.claim('key-1', 'f', TTL, TTL)).toEqual({
+      fingerprint: 'f',
+      status: null,
+      body: null,
+    });
+  });
+
+  it('keeps a stored response past the lease', async () => {
+    const store = new MemoryIdempotencyStore();
+    await store.claim('key-1', 'f', TTL, -1);
+    await store.complete('key-1', 201, { id: 'p1' });
+
+    expect(await store.claim('key-1', 'f', TTL, TTL)).toEqual({
+      fingerprint: 'f',
+      status: 201,
+      body: { id: 'p1' },
+    });
+  });
+
+  it('never overwrites a stored response', async () => {
+    const store = new MemoryIdempotencyStore();
+    await store.claim('key-1', 'f', TTL, TTL);
+    await store.complete('key-1', 201, { id: 'p1' });
+    await store.complete('key-1', 201, { id: 'p2' });
+
+    expect((await store.claim('key-1', 'f', TTL, TTL))?.body).toEqual({
+      id: 'p1',
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+
+// ---------------------------------------------------------------------------
+// Mock services before importing the router (ESM mock hoisting)
+// ---------------------------------------------------------------------------
+
+const mockRefreshTrendingScores = jest.fn<() => Promise<unknown>>();
+const mockReconcileCounters = jest.fn<() => Promise<unknown>>();
+const mockDeliverDue = jest.fn<() => Promise<unknown>>();
+
+jest.unstable_mockModule('../services/palette.service.js', () => ({
+  paletteService: {
+    refreshTrendingScores: mockRefreshTrendingScores,
+    reconcileCounters: mockReconcileCounters,
+  },
+}));
+
+jest.unstable_mockModule('../services/webhook.service.js', () => ({
+  webhookService: {
+    deliverDue: mockDeliverDue,
+  },
+}));
+
+const { default: jobsRouter } = await import('../routes/jobs.js');
+const { verifyJobSecret } = await import('../middleware/jobs.js');
+const { errorHandler } = await import('../utils/errors.js');
+
+const app = express();
+app.use('/jobs', verifyJobSecret, jobsRouter);
+app.use(errorHandler({ verbose: false }));
+
+const SECRET = 'test-job-secret';
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  process.env.JOB_SECRET = SECRET;
+});
+
+describe('POST /jobs/:name', () => {
+  it('rejects requests without the job secret', async () => {
+    const res = await request(app).post('/jobs/refresh-trending');
+
+    expect(res.status).toBe(401);
+    expect(mockRefreshTrendingScores).not.toHaveBeenCalled();
+  });
+
+  it('rejects a wrong job secret', async () => {
+    const res = await request(app)
+      .post('/jobs/refresh-trending')
+      .set('x-job-secret', 'nope');
+
+    expect(res.status).toBe(401);
+    expect(mockRefreshTrendingScores).not.toHaveBeenCalled();
+  });
+
+  it('is disabled when JOB_SECRET is unset', async () => {
+    delete process.env.JOB_SECRET;
+
+    const res = await request(app)
+      .post('/jobs/refresh-trending')
+      .set('x-job-secret', SECRET);
+
+    expect(res.status).toBe(404);
+    expect(mockRefreshTrendingScores).not.toHaveBeenCalled();
+  });
+
+  it('refreshes trending scores', async () => {
+    mockRefreshTrendingScores.mockResolvedValue({ refreshed: 42 });
+
+    const res = await request(app)
+      .post('/jobs/refresh-trending')
+      .set('x-job-secret', SECRET);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({
+      job: 'refresh-trending',
+      result: { refreshed: 42 },
+    });
+  });
+
+  it('reports counter drift', async () => {
+    const drift = {
+      corrected: 1,
+      palettes: [
+        {
+          id: 'palette-1',
+          likesCount: { stored: 5, actual: 4 },
+          savesCount: { stored: 2, actual: 2 },
+          commentsCount: { stored: 0, actual: 3 },
+        },
+      ],
+    };
+    mockReconcileCounters.mockResolvedValue(drift);
+
+    const res = await request(app)
+      .post('/jobs/reconcile-counters')
+      .set('x-job-secret', SECRET);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.result).toEqual(drift);
+  });
+
+  it('sends due webhook deliveries', async () => {
+    mockDeliverDue.mockResolvedValue({ attempted: 3, delivered: 2, failed: 1 });
+
+    const res = await request(app)
+      .post('/jobs/deliver-webhooks')
+      .set('x-job-secret', SECRET);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.result).toEqual({
+      attempted: 3,
+      delivered: 2,
+      failed: 1,
+    });
+  });
+
+  it('returns 404 for unknown jobs', async () => {
+    const res = await request(app)
+      .post('/jobs/toString')
+      .set('x-job-secret', SECRET);
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,387 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+
+// ---------------------------------------------------------------------------
+// Mock services before importing the router (ESM mock hoisting)
+// ---------------------------------------------------------------------------
+
+const mockGetOrCreateUser = jest.fn<() => Promise<unknown>>();
+const mockClaimDevice = jest.fn<() => Promise<unknown>>();
+const mockUpdateUserProfile = jest.fn<() => Promise<unknown>>();
+const mockCreateApiKey = jest.fn<() => Promise<unknown>>();
+const mockListApiKeys = jest.fn<() => Promise<unknown>>();
+const mockRevokeApiKey = jest.fn<() => Promise<unknown>>();
+const mockCreateWebhook = jest.fn<() => Promise<unknown>>();
+const mockListWebhooks = jest.fn<() => Promise<unknown>>();
+const mockDeleteWebhook = jest.fn<() => Promise<unknown>>();
+const mockGetDeliveries = jest.fn<() => Promise<unknown>>();
+const mockTestWebhook = jest.fn<() => Promise<unknown>>();
+
+jest.unstable_mockModule('../services/palette.service.js', () => ({
+  paletteService: {
+    getOrCreateUser: mockGetOrCreateUser,
+    claimDevice: mockClaimDevice,
+    updateUserProfile: mockUpdateUserProfile,
+  },
+}));
+
+jest.unstable_mockModule('../services/api-key.service.js', () => ({
+  apiKeyService: {
+    createApiKey: mockCreateApiKey,
+    listApiKeys: mockListApiKeys,
+    revokeApiKey: mockRevokeApiKey,
+  },
+}));
+
+jest.unstable_mockModule('../services/webhook.service.js', () => ({
+  webhookService: {
+    createWebhook: mockCreateWebhook,
+    listWebhooks: mockListWebhooks,
+    deleteWebhook: mockDeleteWebhook,
+    getDeliveries: mockGetDeliveries,
+    testWebhook: mockTestWebhook,
+  },
+}));
+
+const { default: meRouter } = await import('../routes/me.js');
+const { errorHandler } = await import('../utils/errors.js');
+
+const app = express();
+app.use(express.json());
+// Stand-in for the Firebase auth middleware: tests opt in via `x-test-uid`
+app.use((req: AuthenticatedRequest, _res, next) => {
+  const uid = req.header('x-test-uid');
+  if (uid) req.user = { uid };
+  next();
+});
+app.use('/me', meRouter);
+app.use(errorHandler({ verbose: false }));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetOrCreateUser.mockResolvedValue({ id: 'user-1' });
+});
+
+describe('POST /me/claim-device', () => {
+  it('requires authentication', async () => {
+    const res = await request(app)
+      .post('/me/claim-device')
+      .send({ deviceId: 'device-1' });
+
+    expect(res.status).toBe(401);
+    expect(mockClaimDevice).not.toHaveBeenCalled();
+  });
+
+  it('rejects a malformed deviceId', async () => {
+    const res = await request(app)
+      .post('/me/claim-device')
+      .set('x-test-uid', 'firebase-1')
+      .send({ deviceId: 'not a device/id' });
+
+    expect(res.status).toBe(400);
+    expect(mockClaimDevice).not.toHaveBeenCalled();
+  });
+
+  it('claims the device for the signed-in user', async () => {
+    mockClaimDevice.mockResolvedValue({ palettes: 2, likes: 5, saves: 1 });
+
+    const res = await request(app)
+      .post('/me/claim-device')
+      .set('x-test-uid', 'firebase-1')
+      .send({ deviceId: 'device-1' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ palettes: 2, likes: 5, saves: 1 });
+    expect(mockClaimDevice).toHaveBeenCalledWith('user-1', 'device-1');
+  });
+});
+
+describe('PATCH /me', () => {
+  it('requires authentication', async () => {
+    const res = await request(app).patch('/me').send({ displayName: 'Ada' });
+    expect(res.status).toBe(401);
+  });
+
+  it('updates the display name and avatar', async () => {
+    mockUpdateUserProfile.mockResolvedValue({
+      id: 'user-1',
+      displayName: 'Ada',
+      photoUrl: 'https://example.com/ada.png',
+    });
+
+    const res = await request(app)
+      .patch('/me')
+      .set('x-test-uid', 'firebase-1')
+      .send({ displayName: ' Ada ', photoUrl: 'https://example.com/ada.png' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.displayName).toBe('Ada');
+    expect(mockUpdateUserProfile).toHaveBeenCalledWith('user-1', {
+      displayName: 'Ada',
+      photoUrl: 'https://example.com/ada.png',
+    });
+  });
+
+  it('rejects non-http avatar URLs', async () => {
+    const res = await request(app)
+      .patch('/me')
+      .set('x-test-uid', 'firebase-1')
+      .send({ photoUrl: 'javascript:alert(1)' });
+
+    expect(res.status).toBe(400);
+    expect(mockUpdateUserProfile).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /me/api-keys', () => {
+  const KEY_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+
+  it('requires authentication', async () => {
+    const res = await request(app)
+      .post('/me/api-keys')
+      .send({ name: 'Vizail', scopes: ['read'] });
+
+    expect(res.status).toBe(401);
+    expect(mockCreateApiKey).not.toHaveBeenCalled();
+  });
+
+  it('issues a key and returns it once', async () => {
+    mockCreateApiKey.mockResolvedValue({
+      id: KEY_ID,
+      name: 'Vizail',
+      prefix: 'kulrs_abc123',
+      key: 'kulrs_abc123secret',
+    });
+
+    const res = await request(app)
+      .post('/me/api-keys')
+      .set('x-test-uid', 'firebase-1')
+      .send({
+        name: 'Vizail',
+        scopes: ['read', 'generate', 'read'],
+        allowedOrigins: ['https://vizail.com'],
+        quotas: { general: 50 },
+      });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.key).toBe('kulrs_abc123secret');
+    expect(mockCreateApiKey).toHaveBeenCalledWith('user-1', {
+      name: 'Vizail',
+      scopes: ['read', 'generate'],
+      allowedOrigins: ['https://vizail.com'],
+      quotas: { general: 50 },
+    });
+  });
+
+  it('rejects unknown scopes', async () => {
+    const res = await request(app)
+      .post('/me/api-keys')
+      .set('x-test-uid', 'firebase-1')
+      .send({ name: 'Vizail', scopes: ['admin'] });
+
+    expect(res.status).toBe(400);
+    expect(mockCreateApiKey).not.toHaveBeenCalled();
+  });
+
+  it('rejects allowed origins with a path', async () => {
+    const res = await request(app)
+      .post('/me/api-keys')
+      .set('x-test-uid', 'firebase-1')
+      .send({
+        name: 'Vizail',
+        scopes: ['read'],
+        allowedOrigins: ['https://vizail.com/app'],
+      });
+
+    expect(res.status).toBe(400);
+    expect(mockCreateApiKey).not.toHaveBeenCalled();
+  });
+
+  it('rejects quotas above the defaults', async () => {
+    const res = await request(app)
+      .post('/me/api-keys')
+      .set('x-test-uid', 'firebase-1')
+      .send({ name: 'Vizail', scopes: ['read'], quotas: { general: 5000 } });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/cannot exceed/);
+    expect(mockCreateApiKey).not.toHaveBeenCalled();
+  });
+
+  it('rejects quotas for unknown route groups', async () => {
+    const res = await request(app)
+      .post('/me/api-keys')
+      .set('x-test-uid', 'firebase-1')
+      .send({ name: 'Vizail', scopes: ['read'], quotas: { everything: 1 } });
+
+    expect(res.status).toBe(400);
+    expect(mockCreateApiKey).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /me/api-keys', () => {
+  it("lists the user's keys", async () => {
+    mockListApiKeys.mockResolvedValue([{ id: 'key-1', prefix: 'kulrs_abc' }]);
+
+    const res = await request(app)
+      .get('/me/api-keys')
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(1);
+    expect(mockListApiKeys).toHaveBeenCalledWith('user-1');
+  });
+});
+
+describe('DELETE /me/api-keys/:id', () => {
+  it('rejects malformed ids', async () => {
+    const res = await request(app)
+      .delete('/me/api-keys/not-a-uuid')
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(400);
+    expect(mockRevokeApiKey).not.toHaveBeenCalled();
+  });
+
+  it('revokes the key', async () => {
+    const keyId = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+    mockRevokeApiKey.mockResolvedValue({ id: keyId, revokedAt: new Date() });
+
+    const res = await request(app)
+      .delete(`/me/api-keys/${keyId}`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(mockRevokeApiKey).toHaveBeenCalledWith('user-1', keyId);
+  });
+});
+
+describe('POST /me/webhooks', () => {
+  it('requires authentication', async () => {
+    const res = await request(app)
+      .post('/me/webhooks')
+      .send({ url: 'https://vizail.com/hooks', events: ['palette.created'] });
+
+    expect(res.status).toBe(401);
+    expect(mockCreateWebhook).not.toHaveBeenCalled();
+  });
+
+  it('registers the webhook and returns its secret', async () => {
+    mockCreateWebhook.mockResolvedValue({
+      id: 'hook-1',
+      url: 'https://vizail.com/hooks',
+      secret: 'whsec_abc',
+    });
+
+    const res = await request(app)
+      .post('/me/webhooks')
+      .set('x-test-uid', 'firebase-1')
+      .send({
+        url: 'https://vizail.com/hooks',
+        events: ['palette.created', 'palette.liked', 'palette.created'],
+      });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.secret).toBe('whsec_abc');
+    expect(mockCreateWebhook).toHaveBeenCalledWith('user-1', {
+      url: 'https://vizail.com/hooks',
+      events: ['palette.created', 'palette.liked'],
+    });
+  });
+
+  it('rejects plain http URLs', async () => {
+    const res = await request(app)
+      .post('/me/webhooks')
+      .set('x-test-uid', 'firebase-1')
+      .send({ url: 'http://vizail.com/hooks', events: ['palette.created'] });
+
+    expect(res.status).toBe(400);
+    expect(mockCreateWebhook).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown events', async () => {
+    const res = await request(app)
+      .post('/me/webhooks')
+      .set('x-test-uid', 'firebase-1')
+      .send({ url: 'https://vizail.com/hooks', events: ['user.created'] });
+
+    expect(res.status).toBe(400);
+    expect(mockCreateWebhook).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /me/webhooks', () => {
+  it("lists the user's webhooks", async () => {
+    mockListWebhooks.mockResolvedValue([{ id: 'hook-1' }]);
+
+    const res = await request(app)
+      .get('/me/webhooks')
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(1);
+    expect(mockListWebhooks).toHaveBeenCalledWith('user-1');
+  });
+});
+
+describe('DELETE /me/webhooks/:id', () => {
+  it('rejects malformed ids', async () => {
+    const res = await request(app)
+      .delete('/me/webhooks/not-a-uuid')
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(400);
+    expect(mockDeleteWebhook).not.toHaveBeenCalled();
+  });
+
+  it('deletes the webhook', async () => {
+    const hookId = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+    mockDeleteWebhook.mockResolvedValue({ deleted: true });
+
+    const res = await request(app)
+      .delete(`/me/webhooks/${hookId}`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(mockDeleteWebhook).toHaveBeenCalledWith('user-1', hookId);
+  });
+});
+
+describe('GET /me/webhooks/:id/deliveries', () => {
+  it('returns the delivery log with a clamped limit', async () => {
+    const hookId = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+    mockGetDeliveries.mockResolvedValue([
+      { id: 'delivery-1', status: 'pending', attempts: 2 },
+    ]);
+
+    const res = await request(app)
+      .get(`/me/webhooks/${hookId}/deliveries?limit=500`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].attempts).toBe(2);
+    expect(mockGetDeliveries).toHaveBeenCalledWith('user-1', hookId, 100);
+  });
+});
+
+describe('POST /me/webhooks/:id/test', () => {
+  it('fires a test delivery and returns its outcome', async () => {
+    const hookId = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+    mockTestWebhook.mockResolvedValue({
+      id: 'delivery-1',
+      event: 'webhook.test',
+      status: 'failed',
+      responseStatus: 500,
+    });
+
+    const res = await request(app)
+      .post(`/me/webhooks/${hookId}/test`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.responseStatus).toBe(500);
+    expect(mockTestWebhook).toHaveBeenCalledWith('user-1', hookId);
+  });
+});
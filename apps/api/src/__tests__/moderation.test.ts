@@ -0,0 +1,160 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+
+// ---------------------------------------------------------------------------
+// Mock services before importing the router (ESM mock hoisting)
+// ---------------------------------------------------------------------------
+
+const mockGetOrCreateUser = jest.fn<() => Promise<unknown>>();
+const mockSetUserSuspended = jest.fn<() => Promise<unknown>>();
+const mockGetReports = jest.fn<() => Promise<unknown>>();
+const mockSetPaletteHidden = jest.fn<() => Promise<unknown>>();
+const mockDismissReport = jest.fn<() => Promise<unknown>>();
+
+jest.unstable_mockModule('../services/palette.service.js', () => ({
+  paletteService: {
+    getOrCreateUser: mockGetOrCreateUser,
+    setUserSuspended: mockSetUserSuspended,
+  },
+}));
+
+jest.unstable_mockModule('../services/moderation.service.js', () => ({
+  moderationService: {
+    getReports: mockGetReports,
+    setPaletteHidden: mockSetPaletteHidden,
+    dismissReport: mockDismissReport,
+  },
+}));
+
+const { default: moderationRouter } = await import('../routes/moderation.js');
+const { requireModerator } = await import('../middleware/auth.js');
+const { errorHandler } = await import('../utils/errors.js');
+
+const app = express();
+app.use(express.json());
+// Stand-in for the Firebase auth middleware: tests opt in via `x-test-uid`,
+// and `x-test-moderator` stands in for the `moderator` custom claim
+app.use((req: AuthenticatedRequest, _res, next) => {
+  const uid = req.header('x-test-uid');
+  if (uid) {
+    req.user = { uid, isModerator: req.header('x-test-moderator') === '1' };
+  }
+  next();
+});
+app.use('/moderation', requireModerator, moderationRouter);
+app.use(errorHandler({ verbose: false }));
+
+const MOD_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+const USER_ID = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+const PAL_ID = '11111111-1111-4111-8111-111111111111';
+
+/** A request from a signed-in moderator */
+function asModerator(req: request.Test) {
+  return req.set('x-test-uid', 'firebase-mod').set('x-test-moderator', '1');
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetOrCreateUser.mockResolvedValue({ id: MOD_ID });
+});
+
+describe('requireModerator', () => {
+  it('rejects signed-in users without the moderator claim', async () => {
+    const res = await request(app)
+      .get('/moderation/reports')
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(403);
+    expect(mockGetReports).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /moderation/reports', () => {
+  it('lists open reports by default', async () => {
+    mockGetReports.mockResolvedValue({
+      reports: [{ id: 'r1', reason: 'spam' }],
+      nextCursor: null,
+    });
+
+    const res = await asModerator(request(app).get('/moderation/reports'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(1);
+    expect(mockGetReports).toHaveBeenCalledWith({
+      status: 'open',
+      limit: 20,
+      cursor: undefined,
+    });
+  });
+
+  it('rejects unknown statuses', async () => {
+    const res = await asModerator(
+      request(app).get('/moderation/reports?status=pending')
+    );
+
+    expect(res.status).toBe(400);
+    expect(mockGetReports).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /moderation/palettes/:id/hide', () => {
+  it('hides the palette as the moderator', async () => {
+    mockSetPaletteHidden.mockResolvedValue({
+      id: PAL_ID,
+      hiddenAt: new Date(),
+      resolvedReports: 2,
+    });
+
+    const res = await asModerator(
+      request(app).post(`/moderation/palettes/${PAL_ID}/hide`)
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.resolvedReports).toBe(2);
+    expect(mockSetPaletteHidden).toHaveBeenCalledWith(MOD_ID, PAL_ID, true);
+  });
+});
+
+describe('POST /moderation/palettes/:id/restore', () => {
+  it('restores the palette', async () => {
+    mockSetPaletteHidden.mockResolvedValue({
+      id: PAL_ID,
+      hiddenAt: null,
+      resolvedReports: 0,
+    });
+
+    const res = await asModerator(
+      request(app).post(`/moderation/palettes/${PAL_ID}/restore`)
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockSetPaletteHidden).toHaveBeenCalledWith(MOD_ID, PAL_ID, false);
+  });
+});
+
+describe('POST /moderation/users/:id/suspend', () => {
+  it('suspends the user', async () => {
+    mockSetUserSuspended.mockResolvedValue({
+      id: USER_ID,
+      suspendedAt: new Date(),
+    });
+
+    const res = await asModerator(
+      request(app).post(`/moderation/users/${USER_ID}/suspend`)
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockSetUserSuspended).toHaveBeenCalledWith(USER_ID, true);
+  });
+
+  it('refuses to suspend the moderator themselves', async () => {
+    const res = await asModerator(
+      request(app).post(`/moderation/users/${MOD_ID}/suspend`)
+    );
+
+    expect(res.status).toBe(400);
+    expect(mockSetUserSuspended).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import { z } from 'zod';
+
+jest.unstable_mockModule('../config/firebase.js', () => ({
+  initializeFirebase: () => ({}),
+  getAuth: () => ({}),
+}));
+
+const { handler } = await import('../index.js');
+const { default: openapiRouter } = await import('../routes/openapi.js');
+const { buildOpenApiDocument, toOpenApiPath } =
+  await import('../utils/openapi.js');
+const { zodToJsonSchema } = await import('../utils/json-schema.js');
+const { createPaletteSchema } = await import('../utils/validation.js');
+const { paletteService, paletteColumns } =
+  await import('../services/palette.service.js');
+
+interface Layer {
+  regexp: RegExp;
+  route?: { path: string; methods: Record<string, boolean> };
+  handle: { stack?: Layer[] };
+}
+
+interface ObjectSchema {
+  properties: Record<string, unknown>;
+  required?: string[];
+}
+
+type PaletteDetailRow = NonNullable<
+  Awaited<ReturnType<typeof paletteService.getPaletteById>>
+>;
+
+/** `/^\/palettes\/?(?=\/|$)/i` → `/palettes` */
+function mountPath(layer: Layer) {
+  return layer.regexp.source
+    .replace(/^\^/, '')
+    .replace('\\/?(?=\\/|$)', '')
+    .replace(/\\(.)/g, '$1');
+}
+
+/** Every `METHOD /path` registered on the app, through mounted routers. */
+function expressRoutes(stack: Layer[], prefix = ''): string[] {
+  return stack.flatMap(layer => {
+    if (layer.route) {
+      const path = (prefix + layer.route.path).replace(/(.)\/$/, '$1');
+      return Object.keys(layer.route.methods).map(
+        method => `${method.toUpperCase()} ${path}`
+      );
+    }
+    if (layer.handle.stack) {
+      return expressRoutes(layer.handle.stack, prefix + mountPath(layer));
+    }
+    return [];
+  });
+}
+
+const app = handler as unknown as { _router: { stack: Layer[] } };
+const routes = expressRoutes(app._router.stack);
+const document = buildOpenApiDocument();
+const paths = document.paths as Record<string, Record<string, unknown>>;
+const schemas = document.components.schemas as unknown as Record<
+  string,
+  ObjectSchema
+>;
+
+describe('OpenAPI document', () => {
+  it('finds the routes of every mounted router', () => {
+    expect(routes).toContain('GET /palettes');
+    expect(routes).toContain('DELETE /collections/:id/palettes/:paletteId');
+    expect(routes).toContain('POST /jobs/:name');
+    expect(routes).toContain('GET /openapi.json');
+  });
+
+  it.each(routes)('documents %s', route => {
+    const [method, path] = route.split(' ');
+
+    expect(paths[toOpenApiPath(path!)]?.[method!.toLowerCase()]).toBeDefined();
+  });
+
+  it('documents no routes that do not exist', () => {
+    const documented = Object.entries(paths).flatMap(([path, methods]) =>
+      Object.keys(methods).map(method => `${method.toUpperCase()} ${path}`)
+    );
+    const registered = routes.map(route => toOpenApiPath(route));
+
+    expect(documented.filter(route => !registered.includes(route))).toEqual([]);
+  });
+
+  it('takes request bodies from the validation schemas', () => {
+    const create = paths['/palettes']!.post as {
+      requestBody: { content: Record<string, { schema: ObjectSchema }> };
+    };
+    const schema = create.requestBody.content['application/json']!.schema;
+
+    expect(Object.keys(schema.properties)).toEqual(
+      Object.keys(createPaletteSchema.shape)
+    );
+    expect(schema.required).toEqual(['palette']);
+    expect(schema.properties.onDuplicate).toEqual(
+      zodToJsonSchema(createPaletteSchema.shape.onDuplicate)
+    );
+  });
+
+  it('references shared response shapes by name', () => {
+    const get = paths['/palettes/{id}']!.get as {
+      responses: Record<
+        string,
+        { content: Record<string, { schema: ObjectSchema }> }
+      >;
+    };
+    const schema = get.responses['200']!.content['application/json']!.schema;
+
+    expect(schema.properties.data).toEqual({
+      $ref: '#/components/schemas/PaletteDetail',
+    });
+    expect(document.components.schemas.PaletteDetail).toBeDefined();
+  });
+
+  it('describes every column palette writes return', () => {
+    expect(Object.keys(schemas.Palette!.properties)).toEqual(
+      Object.keys(paletteColumns)
+    );
+  });
+
+  it('describes what GET /palettes/:id returns', async () => {
+    const row: PaletteDetailRow = {
+      id: '11111111-1111-4111-8111-111111111111',
+      name: 'Ocean Breeze',
+      description: null,
+      userId: '22222222-2222-4222-8222-222222222222',
+      isPublic: true,
+      hiddenAt: null,
+      likesCount: 5,
+      savesCount: 2,
+      commentsCount: 1,
+      parentPaletteId: null,
+      remixDepth: 0,
+      metadata: null,
+      createdAt: new Date('2025-01-01'),
+      author: {
+        id: '22222222-2222-4222-8222-222222222222',
+        displayName: 'Ada',
+        photoUrl: null,
+      },
+      colors: [
+        {
+          id: '33333333-3333-4333-8333-333333333333',
+          hexValue: '#0077BE',
+          position: 0,
+          name: 'primary',
+          role: 'primary',
+          oklch: { l: 0.5, c: 0.14, h: 245 },
+        },
+      ],
+      tags: [
+        {
+          id: '44444444-4444-4444-8444-444444444444',
+          name: 'Ocean',
+          slug: 'ocean',
+        },
+      ],
+    };
+    const spy = jest
+      .spyOn(paletteService, 'getPaletteById')
+      .mockResolvedValue(row);
+
+    const res = await request(handler as unknown as express.Express).get(
+      `/palettes/${row.id}`
+    );
+    spy.mockRestore();
+
+    const expectShape = (value: object, schema: ObjectSchema) => {
+      expect(Object.keys(value).sort()).toEqual(
+        Object.keys(schema.properties).sort()
+      );
+      expect(schema.required ?? []).toEqual(
+        expect.arrayContaining(Object.keys(value))
+      );
+    };
+    expect(res.status).toBe(200);
+    expectShape(res.body.data, schemas.PaletteDetail!);
+    expectShape(res.body.data.colors[0], schemas.StoredPaletteColor!);
+  });
+});
+
+describe('zodToJsonSchema', () => {
+  it('converts checks, defaults, optional and nullable fields', () => {
+    const schema = z.object({
+      name: z.string().trim().min(1).max(10),
+      id: z.string().uuid(),
+      count: z.number().int().min(0).default(5),
+      note: z.string().nullable().optional(),
+      kind: z.enum(['a', 'b']),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 10 },
+        id: { type: 'string', format: 'uuid' },
+        count: { type: 'integer', minimum: 0, default: 5 },
+        note: { type: ['string', 'null'] },
+        kind: { type: 'string', enum: ['a', 'b'] },
+      },
+      required: ['name', 'id', 'kind'],
+    });
+  });
+
+  it('documents refinements and transforms as their input type', () => {
+    const schema = z
+      .array(z.string())
+      .min(1)
+      .transform(values => new Set(values));
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'array',
+      items: { type: 'string' },
+      minItems: 1,
+    });
+  });
+
+  it('rejects zod types it cannot describe', () => {
+    expect(() => zodToJsonSchema(z.bigint())).toThrow(/ZodBigInt/);
+  });
+});
+
+describe('GET /openapi.json', () => {
+  it('serves the document', async () => {
+    const server = express();
+    server.use('/openapi.json', openapiRouter);
+
+    const res = await request(server).get('/openapi.json');
+
+    expect(res.status).toBe(200);
+    expect(res.body.openapi).toBe('3.1.0');
+    expect(res.body.paths['/palettes/{id}'].get).toBeDefined();
+  });
+});
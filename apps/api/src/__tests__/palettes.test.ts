@@ -1,6 +1,7 @@
 import { describe, it, expect, jest, beforeEach } from '@jest/globals';
 import request from 'supertest';
 import express from 'express';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
 
 // ---------------------------------------------------------------------------
 // Mock paletteService before importing the router (ESM mock hoisting)
@@ -17,10 +18,27 @@ const mockLikePalette = jest.fn<() => Promise<unknown>>();
 const mockUnlikePalette = jest.fn<() => Promise<unknown>>();
 const mockGetLikeInfo = jest.fn<() => Promise<unknown>>();
 const mockSavePalette = jest.fn<() => Promise<unknown>>();
+const mockUnsavePalette = jest.fn<() => Promise<unknown>>();
+const mockGetSavedPalettes = jest.fn<() => Promise<unknown>>();
 const mockCreatePalette = jest.fn<() => Promise<unknown>>();
 const mockDeletePalette = jest.fn<() => Promise<unknown>>();
+const mockGetTrashedPalettes = jest.fn<() => Promise<unknown>>();
+const mockRestorePalette = jest.fn<() => Promise<unknown>>();
+const mockCreateShareToken = jest.fn<() => Promise<unknown>>();
+const mockListShareTokens = jest.fn<() => Promise<unknown>>();
+const mockRevokeShareToken = jest.fn<() => Promise<unknown>>();
+const mockIsValidShareToken = jest.fn<() => Promise<unknown>>();
 const mockRemixPalette = jest.fn<() => Promise<unknown>>();
 const mockUpdatePaletteColors = jest.fn<() => Promise<unknown>>();
+const mockUpdatePalette = jest.fn<() => Promise<unknown>>();
+const mockGetPaletteRevisions = jest.fn<() => Promise<unknown>>();
+const mockGetPaletteRevision = jest.fn<() => Promise<unknown>>();
+const mockRestorePaletteRevision = jest.fn<() => Promise<unknown>>();
+const mockGetPaletteLineage = jest.fn<() => Promise<unknown>>();
+const mockGetPaletteRemixes = jest.fn<() => Promise<unknown>>();
+const mockGetComments = jest.fn<() => Promise<unknown>>();
+const mockCreateComment = jest.fn<() => Promise<unknown>>();
+const mockReportPalette = jest.fn<() => Promise<unknown>>();
 
 jest.unstable_mockModule('../services/palette.service.js', () => ({
   paletteService: {
@@ -35,21 +53,60 @@ jest.unstable_mockModule('../services/palette.service.js', () => ({
     unlikePalette: mockUnlikePalette,
     getLikeInfo: mockGetLikeInfo,
     savePalette: mockSavePalette,
+    unsavePalette: mockUnsavePalette,
+    getSavedPalettes: mockGetSavedPalettes,
     createPalette: mockCreatePalette,
     deletePalette: mockDeletePalette,
+    getTrashedPalettes: mockGetTrashedPalettes,
+    restorePalette: mockRestorePalette,
+    createShareToken: mockCreateShareToken,
+    listShareTokens: mockListShareTokens,
+    revokeShareToken: mockRevokeShareToken,
+    isValidShareToken: mockIsValidShareToken,
     remixPalette: mockRemixPalette,
     updatePaletteColors: mockUpdatePaletteColors,
+    updatePalette: mockUpdatePalette,
+    getPaletteRevisions: mockGetPaletteRevisions,
+    getPaletteRevision: mockGetPaletteRevision,
+    restorePaletteRevision: mockRestorePaletteRevision,
+    getPaletteLineage: mockGetPaletteLineage,
+    getPaletteRemixes: mockGetPaletteRemixes,
+  },
+}));
+
+jest.unstable_mockModule('../services/comment.service.js', () => ({
+  commentService: {
+    getComments: mockGetComments,
+    createComment: mockCreateComment,
+  },
+}));
+
+jest.unstable_mockModule('../services/moderation.service.js', () => ({
+  moderationService: {
+    reportPalette: mockReportPalette,
   },
 }));
 
 const { default: palettesRouter } = await import('../routes/palettes.js');
-const { errorHandler } = await import('../utils/errors.js');
+const { setRateLimitStore } = await import('../middleware/rate-limit.js');
+const { MemoryRateLimitStore } = await import('../utils/rate-limit-store.js');
+const { errorHandler, ConflictError, ForbiddenError, NotFoundError } =
+  await import('../utils/errors.js');
 
 const app = express();
 app.use(express.json());
+// Stand-in for the Firebase auth middleware: tests opt in via `x-test-uid`
+app.use((req: AuthenticatedRequest, _res, next) => {
+  const uid = req.header('x-test-uid');
+  if (uid) req.user = { uid };
+  next();
+});
 app.use('/palettes', palettesRouter);
 app.use(errorHandler({ verbose: false }));
 
+// Fresh rate-limit buckets per test, so write-heavy suites don't hit 429s
+beforeEach(() => setRateLimitStore(new MemoryRateLimitStore()));
+
 // ---------------------------------------------------------------------------
 // Sample data
 // ---------------------------------------------------------------------------
@@ -126,7 +183,10 @@ describe('GET /palettes (tag filter)', () => {
   });
 
   it('passes tags to browsePalettes when ?tags= is provided', async () => {
-    mockBrowsePalettes.mockResolvedValue([SAMPLE_PALETTE]);
+    mockBrowsePalettes.mockResolvedValue({
+      palettes: [SAMPLE_PALETTE],
+      nextCursor: null,
+    });
 
     const res = await request(app).get('/palettes?tags=cool,nature');
 
@@ -138,7 +198,10 @@ describe('GET /palettes (tag filter)', () => {
   });
 
   it('passes q to browsePalettes when ?q= is provided', async () => {
-    mockBrowsePalettes.mockResolvedValue([SAMPLE_PALETTE]);
+    mockBrowsePalettes.mockResolvedValue({
+      palettes: [SAMPLE_PALETTE],
+      nextCursor: null,
+    });
 
     const res = await request(app).get('/palettes?q=ocean');
 
@@ -149,7 +212,7 @@ describe('GET /palettes (tag filter)', () => {
   });
 
   it('truncates q to 100 characters', async () => {
-    mockBrowsePalettes.mockResolvedValue([]);
+    mockBrowsePalettes.mockResolvedValue({ palettes: [], nextCursor: null });
 
     const longQuery = 'a'.repeat(200);
     const res = await request(app).get(`/palettes?q=${longQuery}`);
@@ -162,7 +225,10 @@ describe('GET /palettes (tag filter)', () => {
   });
 
   it('passes undefined tags when no ?tags= is provided', async () => {
-    mockBrowsePalettes.mockResolvedValue([SAMPLE_PALETTE]);
+    mockBrowsePalettes.mockResolvedValue({
+      palettes: [SAMPLE_PALETTE],
+      nextCursor: null,
+    });
 
     const res = await request(app).get('/palettes');
 
@@ -173,7 +239,7 @@ describe('GET /palettes (tag filter)', () => {
   });
 
   it('returns an empty array when browsePalettes returns nothing', async () => {
-    mockBrowsePalettes.mockResolvedValue([]);
+    mockBrowsePalettes.mockResolvedValue({ palettes: [], nextCursor: null });
 
     const res = await request(app).get('/palettes?tags=nonexistent');
 
@@ -182,6 +248,139 @@ describe('GET /palettes (tag filter)', () => {
   });
 });
 
+describe('GET /palettes (color search)', () => {
+  beforeEach(() => {
+    mockBrowsePalettes.mockReset();
+  });
+
+  it('normalises ?color= values to uppercase #RRGGBB', async () => {
+    mockBrowsePalettes.mockResolvedValue({
+      palettes: [SAMPLE_PALETTE],
+      nextCursor: null,
+    });
+
+    const res = await request(app).get(
+      '/palettes?color=2a9d8f&color=%23E76F51'
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockBrowsePalettes).toHaveBeenCalledWith(
+      expect.objectContaining({ colors: ['#2A9D8F', '#E76F51'] })
+    );
+  });
+
+  it('accepts comma-separated colors', async () => {
+    mockBrowsePalettes.mockResolvedValue({ palettes: [], nextCursor: null });
+
+    const res = await request(app).get('/palettes?color=2A9D8F,264653');
+
+    expect(res.status).toBe(200);
+    expect(mockBrowsePalettes).toHaveBeenCalledWith(
+      expect.objectContaining({ colors: ['#2A9D8F', '#264653'] })
+    );
+  });
+
+  it('passes undefined colors when no ?color= is provided', async () => {
+    mockBrowsePalettes.mockResolvedValue({ palettes: [], nextCursor: null });
+
+    await request(app).get('/palettes');
+
+    expect(mockBrowsePalettes).toHaveBeenCalledWith(
+      expect.objectContaining({ colors: undefined })
+    );
+  });
+
+  it('returns 400 for a malformed color', async () => {
+    const res = await request(app).get('/palettes?color=teal');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/invalid color/i);
+    expect(mockBrowsePalettes).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for more than 5 colors', async () => {
+    const res = await request(app).get(
+      '/palettes?color=111111,222222,333333,444444,555555,666666'
+    );
+
+    expect(res.status).toBe(400);
+    expect(mockBrowsePalettes).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /palettes (cursor pagination)', () => {
+  const encode = (payload: object) =>
+    Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  beforeEach(() => {
+    mockBrowsePalettes.mockReset();
+  });
+
+  it('returns nextCursor alongside the page', async () => {
+    mockBrowsePalettes.mockResolvedValue({
+      palettes: [SAMPLE_PALETTE],
+      nextCursor: 'abc',
+    });
+
+    const res = await request(app).get('/palettes');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(1);
+    expect(res.body.nextCursor).toBe('abc');
+  });
+
+  it('passes the decoded cursor to browsePalettes', async () => {
+    mockBrowsePalettes.mockResolvedValue({ palettes: [], nextCursor: null });
+    const cursor = {
+      sort: 'popular',
+      likesCount: 3,
+      createdAt: '2025-01-01 10:00:00.123456',
+      id: PAL_ID_2,
+    };
+
+    const res = await request(app).get(
+      `/palettes?sort=popular&cursor=${encode(cursor)}`
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockBrowsePalettes).toHaveBeenCalledWith(
+      expect.objectContaining({ sort: 'popular', cursor })
+    );
+  });
+
+  it('rejects a cursor that is not valid base64 JSON', async () => {
+    const res = await request(app).get('/palettes?cursor=%%%');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/invalid cursor/i);
+    expect(mockBrowsePalettes).not.toHaveBeenCalled();
+  });
+
+  it('rejects a cursor with a malformed payload', async () => {
+    const cursor = encode({ sort: 'recent', createdAt: 'yesterday' });
+
+    const res = await request(app).get(`/palettes?cursor=${cursor}`);
+
+    expect(res.status).toBe(400);
+    expect(mockBrowsePalettes).not.toHaveBeenCalled();
+  });
+
+  it('rejects a cursor from a different sort', async () => {
+    const cursor = encode({
+      sort: 'recent',
+      createdAt: '2025-01-01 10:00:00',
+      id: PAL_ID_2,
+    });
+
+    const res = await request(app).get(
+      `/palettes?sort=trending&cursor=${cursor}`
+    );
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/does not match/i);
+  });
+});
+
 describe('GET /palettes/:id/related', () => {
   beforeEach(() => {
     mockGetRelatedPalettes.mockReset();
@@ -259,7 +458,10 @@ describe('GET /palettes (sort=trending)', () => {
   });
 
   it('passes sort=trending to browsePalettes', async () => {
-    mockBrowsePalettes.mockResolvedValue([SAMPLE_PALETTE]);
+    mockBrowsePalettes.mockResolvedValue({
+      palettes: [SAMPLE_PALETTE],
+      nextCursor: null,
+    });
 
     const res = await request(app).get('/palettes?sort=trending');
 
@@ -270,6 +472,66 @@ describe('GET /palettes (sort=trending)', () => {
   });
 });
 
+describe('GET /palettes (sort=relevance)', () => {
+  beforeEach(() => {
+    mockBrowsePalettes.mockReset();
+  });
+
+  it('ranks full-text matches for q', async () => {
+    mockBrowsePalettes.mockResolvedValue({
+      palettes: [SAMPLE_PALETTE],
+      nextCursor: null,
+    });
+
+    const res = await request(app).get('/palettes?sort=relevance&q=ocean');
+
+    expect(res.status).toBe(200);
+    expect(mockBrowsePalettes).toHaveBeenCalledWith(
+      expect.objectContaining({ sort: 'relevance', q: 'ocean' })
+    );
+  });
+
+  it('requires a search query', async () => {
+    const res = await request(app).get('/palettes?sort=relevance');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/requires a search query/i);
+    expect(mockBrowsePalettes).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /palettes (sort=following)', () => {
+  beforeEach(() => {
+    mockBrowsePalettes.mockReset();
+    mockGetOrCreateUser.mockReset();
+  });
+
+  it('requires authentication', async () => {
+    const res = await request(app).get('/palettes?sort=following');
+
+    expect(res.status).toBe(401);
+    expect(mockBrowsePalettes).not.toHaveBeenCalled();
+  });
+
+  it("lists the viewer's following feed without public caching", async () => {
+    mockGetOrCreateUser.mockResolvedValue({ id: 'viewer-1' });
+    mockBrowsePalettes.mockResolvedValue({
+      palettes: [SAMPLE_PALETTE],
+      nextCursor: null,
+    });
+
+    const res = await request(app)
+      .get('/palettes?sort=following')
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(mockBrowsePalettes).toHaveBeenCalledWith(
+      expect.objectContaining({ sort: 'following', viewerUserId: 'viewer-1' })
+    );
+    expect(res.headers['cache-control']).toBe('private, no-store');
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Issue #114 – UUID validation
 // ---------------------------------------------------------------------------
@@ -360,7 +622,10 @@ describe('GET /palettes (theme filter)', () => {
   });
 
   it('expands ?theme=warm to the warm tagSlugs', async () => {
-    mockBrowsePalettes.mockResolvedValue([SAMPLE_PALETTE]);
+    mockBrowsePalettes.mockResolvedValue({
+      palettes: [SAMPLE_PALETTE],
+      nextCursor: null,
+    });
 
     const res = await request(app).get('/palettes?theme=warm');
 
@@ -374,7 +639,7 @@ describe('GET /palettes (theme filter)', () => {
   });
 
   it('expands ?theme=vibrant to the vibrant tagSlugs', async () => {
-    mockBrowsePalettes.mockResolvedValue([]);
+    mockBrowsePalettes.mockResolvedValue({ palettes: [], nextCursor: null });
 
     await request(app).get('/palettes?theme=vibrant');
 
@@ -385,7 +650,7 @@ describe('GET /palettes (theme filter)', () => {
   });
 
   it('merges ?theme= tags with explicit ?tags= slugs', async () => {
-    mockBrowsePalettes.mockResolvedValue([]);
+    mockBrowsePalettes.mockResolvedValue({ palettes: [], nextCursor: null });
 
     await request(app).get('/palettes?theme=warm&tags=nature');
 
@@ -403,3 +668,986 @@ describe('GET /palettes (theme filter)', () => {
     expect(res.body.error).toMatch(/unknown theme/i);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Duplicate detection on create
+// ---------------------------------------------------------------------------
+
+describe('POST /palettes (duplicates)', () => {
+  const body = {
+    palette: {
+      colors: [{ role: 'primary', color: { l: 0.6, c: 0.1, h: 200 } }],
+      metadata: {
+        generator: 'mood',
+        explanation: 'Calm',
+        timestamp: '2025-01-01T00:00:00.000Z',
+      },
+    },
+  };
+
+  beforeEach(() => {
+    mockCreatePalette.mockReset();
+    mockGetOrCreateUser.mockReset();
+    mockGetOrCreateUser.mockResolvedValue({ id: 'user-1' });
+  });
+
+  it('responds 201 for a newly created palette', async () => {
+    mockCreatePalette.mockResolvedValue({
+      palette: { id: PAL_ID_1 },
+      duplicate: false,
+    });
+
+    const res = await request(app)
+      .post('/palettes')
+      .set('x-test-uid', 'firebase-1')
+      .send(body);
+
+    expect(res.status).toBe(201);
+    expect(res.body.duplicate).toBe(false);
+    expect(mockCreatePalette).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ onDuplicate: 'existing' })
+    );
+  });
+
+  it('responds 200 with the existing palette for a duplicate', async () => {
+    mockCreatePalette.mockResolvedValue({
+      palette: { id: PAL_ID_2 },
+      duplicate: true,
+    });
+
+    const res = await request(app)
+      .post('/palettes')
+      .set('x-test-uid', 'firebase-1')
+      .send(body);
+
+    expect(res.status).toBe(200);
+    expect(res.body.duplicate).toBe(true);
+    expect(res.body.data.id).toBe(PAL_ID_2);
+  });
+
+  it('responds 409 with a link when onDuplicate is reject', async () => {
+    mockCreatePalette.mockRejectedValue(
+      new ConflictError('An identical public palette already exists', {
+        paletteId: PAL_ID_2,
+        url: `/palettes/${PAL_ID_2}`,
+      })
+    );
+
+    const res = await request(app)
+      .post('/palettes')
+      .set('x-test-uid', 'firebase-1')
+      .send({ ...body, onDuplicate: 'reject' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.details).toEqual({
+      paletteId: PAL_ID_2,
+      url: `/palettes/${PAL_ID_2}`,
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Palette revision history
+// ---------------------------------------------------------------------------
+
+describe('GET /palettes/:id/revisions', () => {
+  beforeEach(() => {
+    mockGetPaletteRevisions.mockReset();
+    mockGetOrCreateUser.mockReset();
+  });
+
+  it('returns the revision list for an anonymous viewer', async () => {
+    const revisions = [
+      { id: 'rev-2', revision: 2, colors: SAMPLE_PALETTE.colors },
+      { id: 'rev-1', revision: 1, colors: SAMPLE_PALETTE.colors },
+    ];
+    mockGetPaletteRevisions.mockResolvedValue(revisions);
+
+    const res = await request(app).get(`/palettes/${PAL_ID_1}/revisions`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(2);
+    expect(mockGetPaletteRevisions).toHaveBeenCalledWith(PAL_ID_1, null);
+  });
+
+  it('passes the viewer id so owners can see private history', async () => {
+    mockGetOrCreateUser.mockResolvedValue({ id: 'user-1' });
+    mockGetPaletteRevisions.mockResolvedValue([]);
+
+    const res = await request(app)
+      .get(`/palettes/${PAL_ID_1}/revisions`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(mockGetPaletteRevisions).toHaveBeenCalledWith(PAL_ID_1, 'user-1');
+  });
+});
+
+describe('GET /palettes/:id/revisions/:rev', () => {
+  beforeEach(() => {
+    mockGetPaletteRevision.mockReset();
+  });
+
+  it('forwards the numeric revision to the service', async () => {
+    mockGetPaletteRevision.mockResolvedValue({ id: 'rev-3', revision: 3 });
+
+    const res = await request(app).get(`/palettes/${PAL_ID_1}/revisions/3`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.revision).toBe(3);
+    expect(mockGetPaletteRevision).toHaveBeenCalledWith(PAL_ID_1, 3, null);
+  });
+
+  it.each(['0', '-1', '1.5', 'latest'])(
+    'rejects revision %s with 400',
+    async rev => {
+      const res = await request(app).get(
+        `/palettes/${PAL_ID_1}/revisions/${rev}`
+      );
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toMatch(/invalid revision/i);
+      expect(mockGetPaletteRevision).not.toHaveBeenCalled();
+    }
+  );
+});
+
+describe('POST /palettes/:id/revisions/:rev/restore', () => {
+  beforeEach(() => {
+    mockRestorePaletteRevision.mockReset();
+    mockGetOrCreateUser.mockReset();
+  });
+
+  it('requires authentication', async () => {
+    const res = await request(app).post(
+      `/palettes/${PAL_ID_1}/revisions/1/restore`
+    );
+
+    expect(res.status).toBe(401);
+    expect(mockRestorePaletteRevision).not.toHaveBeenCalled();
+  });
+
+  it('restores the revision for the authenticated owner', async () => {
+    mockGetOrCreateUser.mockResolvedValue({ id: 'user-1' });
+    mockRestorePaletteRevision.mockResolvedValue({
+      restoredFrom: 1,
+      revision: 4,
+    });
+
+    const res = await request(app)
+      .post(`/palettes/${PAL_ID_1}/revisions/1/restore`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ restoredFrom: 1, revision: 4 });
+    expect(mockRestorePaletteRevision).toHaveBeenCalledWith(
+      'user-1',
+      PAL_ID_1,
+      1
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Saved palettes
+// ---------------------------------------------------------------------------
+
+describe('GET /palettes/saved', () => {
+  beforeEach(() => {
+    mockGetSavedPalettes.mockReset();
+    mockGetOrCreateUser.mockReset();
+    mockGetOrCreateUser.mockResolvedValue({ id: 'user-1' });
+  });
+
+  it('requires authentication', async () => {
+    const res = await request(app).get('/palettes/saved');
+    expect(res.status).toBe(401);
+  });
+
+  it('returns a page of saved palettes with the next cursor', async () => {
+    mockGetSavedPalettes.mockResolvedValue({
+      palettes: [{ ...SAMPLE_PALETTE, userLiked: true }],
+      nextCursor: 'next-page',
+    });
+
+    const res = await request(app)
+      .get('/palettes/saved?limit=10')
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].userLiked).toBe(true);
+    expect(res.body.nextCursor).toBe('next-page');
+    expect(mockGetSavedPalettes).toHaveBeenCalledWith('user-1', {
+      limit: 10,
+      cursor: undefined,
+    });
+  });
+
+  it('decodes the cursor', async () => {
+    mockGetSavedPalettes.mockResolvedValue({ palettes: [], nextCursor: null });
+    const cursor = Buffer.from(
+      JSON.stringify({ savedAt: '2025-01-01 10:00:00.123456', id: PAL_ID_2 })
+    ).toString('base64url');
+
+    const res = await request(app)
+      .get(`/palettes/saved?cursor=${cursor}`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(mockGetSavedPalettes).toHaveBeenCalledWith('user-1', {
+      limit: 20,
+      cursor: { savedAt: '2025-01-01 10:00:00.123456', id: PAL_ID_2 },
+    });
+  });
+
+  it('rejects a malformed cursor', async () => {
+    const res = await request(app)
+      .get('/palettes/saved?cursor=not-a-cursor')
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(400);
+    expect(mockGetSavedPalettes).not.toHaveBeenCalled();
+  });
+});
+
+describe('DELETE /palettes/:id/save', () => {
+  beforeEach(() => {
+    mockUnsavePalette.mockReset();
+    mockGetOrCreateUser.mockReset();
+    mockGetOrCreateUser.mockResolvedValue({ id: 'user-1' });
+  });
+
+  it('requires authentication', async () => {
+    const res = await request(app).delete(`/palettes/${PAL_ID_1}/save`);
+    expect(res.status).toBe(401);
+  });
+
+  it('unsaves the palette for the user', async () => {
+    mockUnsavePalette.mockResolvedValue({ wasSaved: true, savesCount: 1 });
+
+    const res = await request(app)
+      .delete(`/palettes/${PAL_ID_1}/save`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ wasSaved: true, savesCount: 1 });
+    expect(mockUnsavePalette).toHaveBeenCalledWith('user-1', PAL_ID_1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Exact OKLCH round-trip
+// ---------------------------------------------------------------------------
+
+describe('OKLCH colors and generator metadata', () => {
+  const OKLCH = { l: 0.5321, c: 0.1456, h: 243.17 };
+
+  beforeEach(() => {
+    mockGetPaletteById.mockReset();
+    mockUpdatePaletteColors.mockReset();
+    mockGetOrCreateUser.mockReset();
+    mockGetOrCreateUser.mockResolvedValue({ id: 'user-1' });
+  });
+
+  it('GET /palettes/:id returns stored OKLCH, roles and metadata', async () => {
+    const metadata = {
+      generator: 'color',
+      explanation: 'Analogous blues',
+      timestamp: '2025-01-01T00:00:00.000Z',
+      confidence: 0.82,
+      tags: ['analogous', 'cool'],
+      roleHints: { primary: 'Deep Blue' },
+    };
+    mockGetPaletteById.mockResolvedValue({
+      ...SAMPLE_PALETTE,
+      metadata,
+      colors: [
+        {
+          id: 'col-1',
+          hexValue: '#0077BE',
+          position: 0,
+          name: 'primary',
+          role: 'primary',
+          oklch: OKLCH,
+        },
+      ],
+    });
+
+    const res = await request(app).get(`/palettes/${PAL_ID_1}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.metadata).toEqual(metadata);
+    expect(res.body.data.colors[0].oklch).toEqual(OKLCH);
+    expect(res.body.data.colors[0].role).toBe('primary');
+  });
+
+  it('PUT /palettes/:id passes exact OKLCH values through', async () => {
+    mockUpdatePaletteColors.mockResolvedValue({ updated: true, revision: 2 });
+    const newColors = [
+      {
+        hexValue: '#0077BE',
+        position: 0,
+        name: 'primary',
+        role: 'primary',
+        oklch: OKLCH,
+      },
+    ];
+
+    const res = await request(app)
+      .put(`/palettes/${PAL_ID_1}`)
+      .set('x-test-uid', 'firebase-1')
+      .send({ colors: newColors });
+
+    expect(res.status).toBe(200);
+    expect(mockUpdatePaletteColors).toHaveBeenCalledWith(
+      'user-1',
+      PAL_ID_1,
+      newColors
+    );
+  });
+
+  it('PUT /palettes/:id rejects out-of-range OKLCH values', async () => {
+    const res = await request(app)
+      .put(`/palettes/${PAL_ID_1}`)
+      .set('x-test-uid', 'firebase-1')
+      .send({
+        colors: [
+          {
+            hexValue: '#0077BE',
+            position: 0,
+            name: 'primary',
+            oklch: { l: 2, c: 0.1, h: 10 },
+          },
+        ],
+      });
+
+    expect(res.status).toBe(400);
+    expect(mockUpdatePaletteColors).not.toHaveBeenCalled();
+  });
+
+  it.each(['#0077BEFF', '#07B', 'blue', '#GG77BE'])(
+    'PUT /palettes/:id rejects the hex value %s',
+    async hexValue => {
+      const res = await request(app)
+        .put(`/palettes/${PAL_ID_1}`)
+        .set('x-test-uid', 'firebase-1')
+        .send({ colors: [{ hexValue, position: 0, name: 'primary' }] });
+
+      expect(res.status).toBe(400);
+      expect(mockUpdatePaletteColors).not.toHaveBeenCalled();
+    }
+  );
+
+  it('PUT /palettes/:id rejects more than 12 colors', async () => {
+    const res = await request(app)
+      .put(`/palettes/${PAL_ID_1}`)
+      .set('x-test-uid', 'firebase-1')
+      .send({
+        colors: Array.from({ length: 13 }, (_, position) => ({
+          hexValue: '#0077BE',
+          position,
+          name: 'primary',
+        })),
+      });
+
+    expect(res.status).toBe(400);
+    expect(mockUpdatePaletteColors).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Palette metadata edits
+// ---------------------------------------------------------------------------
+
+describe('PATCH /palettes/:id', () => {
+  beforeEach(() => {
+    mockUpdatePalette.mockReset();
+    mockGetOrCreateUser.mockReset();
+    mockGetOrCreateUser.mockResolvedValue({ id: 'user-1' });
+  });
+
+  it('requires authentication', async () => {
+    const res = await request(app)
+      .patch(`/palettes/${PAL_ID_1}`)
+      .send({ name: 'Renamed' });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('updates the given fields for the owner', async () => {
+    mockUpdatePalette.mockResolvedValue({
+      id: PAL_ID_1,
+      name: 'Renamed',
+      isPublic: false,
+      tags: [{ id: 'tag-1', name: 'Warm', slug: 'warm' }],
+    });
+
+    const res = await request(app)
+      .patch(`/palettes/${PAL_ID_1}`)
+      .set('x-test-uid', 'firebase-1')
+      .send({ name: '  Renamed ', isPublic: false, tags: ['Warm'] });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.tags).toHaveLength(1);
+    expect(mockUpdatePalette).toHaveBeenCalledWith('user-1', PAL_ID_1, {
+      name: 'Renamed',
+      isPublic: false,
+      tags: ['Warm'],
+    });
+  });
+
+  it('rejects an empty body', async () => {
+    const res = await request(app)
+      .patch(`/palettes/${PAL_ID_1}`)
+      .set('x-test-uid', 'firebase-1')
+      .send({});
+
+    expect(res.status).toBe(400);
+    expect(mockUpdatePalette).not.toHaveBeenCalled();
+  });
+
+  it('rejects tags without letters or digits', async () => {
+    const res = await request(app)
+      .patch(`/palettes/${PAL_ID_1}`)
+      .set('x-test-uid', 'firebase-1')
+      .send({ tags: ['---'] });
+
+    expect(res.status).toBe(400);
+    expect(mockUpdatePalette).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Palette export
+// ---------------------------------------------------------------------------
+
+describe('GET /palettes/:id/export', () => {
+  beforeEach(() => {
+    mockGetPaletteById.mockReset();
+    mockGetOrCreateUser.mockReset();
+  });
+
+  it('returns CSS custom properties as an attachment', async () => {
+    mockGetPaletteById.mockResolvedValue(SAMPLE_PALETTE);
+
+    const res = await request(app).get(
+      `/palettes/${PAL_ID_1}/export?format=css`
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toContain('text/css');
+    expect(res.headers['content-disposition']).toBe(
+      'attachment; filename="ocean-breeze.css"'
+    );
+    expect(res.text).toContain('--deep-blue: #0077BE;');
+  });
+
+  it('matches the shared formatter byte for byte for binary formats', async () => {
+    const { getPaletteExportFormat } = await import('@kulrs/shared');
+    mockGetPaletteById.mockResolvedValue(SAMPLE_PALETTE);
+
+    const res = await request(app)
+      .get(`/palettes/${PAL_ID_1}/export?format=ase`)
+      .buffer(true)
+      .parse((response, callback) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+
+    const expected = getPaletteExportFormat('ase')!.format({
+      name: SAMPLE_PALETTE.name,
+      colors: SAMPLE_PALETTE.colors.map(c => ({
+        hex: c.hexValue,
+        name: c.name,
+      })),
+    });
+    expect(res.status).toBe(200);
+    expect(Buffer.compare(res.body, Buffer.from(expected))).toBe(0);
+  });
+
+  it('rejects unknown formats with 400', async () => {
+    const res = await request(app).get(
+      `/palettes/${PAL_ID_1}/export?format=pdf`
+    );
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/unknown export format/i);
+    expect(mockGetPaletteById).not.toHaveBeenCalled();
+  });
+
+  it('hides private palettes from non-owners', async () => {
+    mockGetPaletteById.mockResolvedValue({
+      ...SAMPLE_PALETTE,
+      isPublic: false,
+    });
+
+    const res = await request(app).get(
+      `/palettes/${PAL_ID_1}/export?format=gpl`
+    );
+
+    expect(res.status).toBe(404);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Remix lineage
+// ---------------------------------------------------------------------------
+
+describe('GET /palettes/:id/lineage', () => {
+  beforeEach(() => {
+    mockGetPaletteLineage.mockReset();
+  });
+
+  it('returns ancestors nearest-first', async () => {
+    mockGetPaletteLineage.mockResolvedValue([
+      { ...SAMPLE_PALETTE, id: PAL_ID_2, distance: 1 },
+      { ...SAMPLE_PALETTE, id: PAL_ID_3, distance: 2 },
+    ]);
+
+    const res = await request(app).get(`/palettes/${PAL_ID_1}/lineage`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.map((p: { id: string }) => p.id)).toEqual([
+      PAL_ID_2,
+      PAL_ID_3,
+    ]);
+    expect(mockGetPaletteLineage).toHaveBeenCalledWith(PAL_ID_1, null);
+  });
+
+  it('returns 400 for an invalid id', async () => {
+    const res = await request(app).get('/palettes/not-a-uuid/lineage');
+
+    expect(res.status).toBe(400);
+    expect(mockGetPaletteLineage).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /palettes/:id/remixes', () => {
+  beforeEach(() => {
+    mockGetPaletteRemixes.mockReset();
+  });
+
+  it('defaults to a depth of 3', async () => {
+    mockGetPaletteRemixes.mockResolvedValue([]);
+
+    const res = await request(app).get(`/palettes/${PAL_ID_1}/remixes`);
+
+    expect(res.status).toBe(200);
+    expect(mockGetPaletteRemixes).toHaveBeenCalledWith(PAL_ID_1, null, 3);
+  });
+
+  it('clamps ?depth= to 5', async () => {
+    mockGetPaletteRemixes.mockResolvedValue([
+      { ...SAMPLE_PALETTE, id: PAL_ID_2, parentPaletteId: PAL_ID_1, depth: 1 },
+    ]);
+
+    const res = await request(app).get(
+      `/palettes/${PAL_ID_1}/remixes?depth=99`
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].parentPaletteId).toBe(PAL_ID_1);
+    expect(mockGetPaletteRemixes).toHaveBeenCalledWith(PAL_ID_1, null, 5);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Comments
+// ---------------------------------------------------------------------------
+
+describe('GET /palettes/:id/comments', () => {
+  beforeEach(() => {
+    mockGetComments.mockReset();
+    mockGetOrCreateUser.mockReset();
+  });
+
+  it('lists comments with the next cursor', async () => {
+    mockGetComments.mockResolvedValue({
+      comments: [{ id: 'c1', body: 'Love the blues', replies: [] }],
+      nextCursor: 'next',
+    });
+
+    const res = await request(app).get(`/palettes/${PAL_ID_1}/comments`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(1);
+    expect(res.body.nextCursor).toBe('next');
+    expect(mockGetComments).toHaveBeenCalledWith(PAL_ID_1, null, {
+      limit: 20,
+      cursor: undefined,
+    });
+  });
+
+  it('rejects a malformed cursor', async () => {
+    const res = await request(app).get(
+      `/palettes/${PAL_ID_1}/comments?cursor=garbage`
+    );
+
+    expect(res.status).toBe(400);
+    expect(mockGetComments).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /palettes/:id/comments', () => {
+  beforeEach(() => {
+    mockCreateComment.mockReset();
+    mockGetOrCreateUser.mockReset();
+  });
+
+  it('requires authentication', async () => {
+    const res = await request(app)
+      .post(`/palettes/${PAL_ID_1}/comments`)
+      .send({ body: 'Nice' });
+
+    expect(res.status).toBe(401);
+    expect(mockCreateComment).not.toHaveBeenCalled();
+  });
+
+  it('rejects an empty body', async () => {
+    const res = await request(app)
+      .post(`/palettes/${PAL_ID_1}/comments`)
+      .set('x-test-uid', 'firebase-1')
+      .send({ body: '   ' });
+
+    expect(res.status).toBe(400);
+    expect(mockCreateComment).not.toHaveBeenCalled();
+  });
+
+  it('creates a reply for the signed-in user', async () => {
+    mockGetOrCreateUser.mockResolvedValue({ id: 'user-1' });
+    mockCreateComment.mockResolvedValue({
+      comment: { id: 'c2', body: 'Agreed', replies: [] },
+      commentsCount: 2,
+    });
+
+    const res = await request(app)
+      .post(`/palettes/${PAL_ID_1}/comments`)
+      .set('x-test-uid', 'firebase-1')
+      .send({ body: ' Agreed ', parentId: PAL_ID_2 });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.commentsCount).toBe(2);
+    expect(mockCreateComment).toHaveBeenCalledWith('user-1', PAL_ID_1, {
+      body: 'Agreed',
+      parentId: PAL_ID_2,
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Moderation
+// ---------------------------------------------------------------------------
+
+describe('POST /palettes/:id/report', () => {
+  beforeEach(() => {
+    mockReportPalette.mockReset();
+    mockGetOrCreateUser.mockReset();
+  });
+
+  it('requires authentication', async () => {
+    const res = await request(app)
+      .post(`/palettes/${PAL_ID_1}/report`)
+      .send({ reason: 'spam' });
+
+    expect(res.status).toBe(401);
+    expect(mockReportPalette).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown reasons', async () => {
+    const res = await request(app)
+      .post(`/palettes/${PAL_ID_1}/report`)
+      .set('x-test-uid', 'firebase-1')
+      .send({ reason: 'ugly' });
+
+    expect(res.status).toBe(400);
+    expect(mockReportPalette).not.toHaveBeenCalled();
+  });
+
+  it('files a report for the signed-in user', async () => {
+    mockGetOrCreateUser.mockResolvedValue({ id: 'user-2' });
+    mockReportPalette.mockResolvedValue({ alreadyReported: false });
+
+    const res = await request(app)
+      .post(`/palettes/${PAL_ID_1}/report`)
+      .set('x-test-uid', 'firebase-2')
+      .send({ reason: 'offensive', details: 'Slur in the name' });
+
+    expect(res.status).toBe(201);
+    expect(mockReportPalette).toHaveBeenCalledWith('user-2', PAL_ID_1, {
+      reason: 'offensive',
+      details: 'Slur in the name',
+    });
+  });
+});
+
+describe('GET /palettes/:id (hidden palettes)', () => {
+  const HIDDEN_PALETTE = {
+    ...SAMPLE_PALETTE,
+    hiddenAt: new Date('2025-02-01'),
+  };
+
+  beforeEach(() => {
+    mockGetPaletteById.mockReset();
+    mockGetOrCreateUser.mockReset();
+  });
+
+  it('returns 404 to other viewers', async () => {
+    mockGetPaletteById.mockResolvedValue(HIDDEN_PALETTE);
+    mockGetOrCreateUser.mockResolvedValue({ id: 'user-2' });
+
+    const res = await request(app)
+      .get(`/palettes/${PAL_ID_1}`)
+      .set('x-test-uid', 'firebase-2');
+
+    expect(res.status).toBe(404);
+  });
+
+  it('is still visible to its owner', async () => {
+    mockGetPaletteById.mockResolvedValue(HIDDEN_PALETTE);
+    mockGetOrCreateUser.mockResolvedValue({ id: 'user-1' });
+
+    const res = await request(app)
+      .get(`/palettes/${PAL_ID_1}`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.isOwner).toBe(true);
+    expect(res.body.data.hiddenAt).toBeTruthy();
+  });
+});
+
+describe('Suspended viewers', () => {
+  beforeEach(() => {
+    mockGetPaletteById.mockReset();
+    mockBrowsePalettes.mockReset();
+    mockCreateComment.mockReset();
+    mockGetOrCreateUser.mockReset();
+    mockGetOrCreateUser.mockRejectedValue(
+      new ForbiddenError('Account suspended')
+    );
+  });
+
+  it('can still read a public palette, as an anonymous viewer', async () => {
+    mockGetPaletteById.mockResolvedValue(SAMPLE_PALETTE);
+
+    const res = await request(app)
+      .get(`/palettes/${PAL_ID_1}`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.isOwner).toBe(false);
+  });
+
+  it('can still browse, as an anonymous viewer', async () => {
+    mockBrowsePalettes.mockResolvedValue({ palettes: [], nextCursor: null });
+
+    const res = await request(app)
+      .get('/palettes')
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(mockBrowsePalettes).toHaveBeenCalledWith(
+      expect.objectContaining({ viewerUserId: null })
+    );
+  });
+
+  it('cannot comment', async () => {
+    const res = await request(app)
+      .post(`/palettes/${PAL_ID_1}/comments`)
+      .set('x-test-uid', 'firebase-1')
+      .send({ body: 'Nice' });
+
+    expect(res.status).toBe(403);
+    expect(mockCreateComment).not.toHaveBeenCalled();
+  });
+});
+
+describe('Trash', () => {
+  beforeEach(() => {
+    mockDeletePalette.mockReset();
+    mockGetTrashedPalettes.mockReset();
+    mockRestorePalette.mockReset();
+    mockGetPaletteById.mockReset();
+    mockGetOrCreateUser.mockReset();
+    mockGetOrCreateUser.mockResolvedValue({ id: 'user-1' });
+  });
+
+  it('moves a deleted palette to the trash', async () => {
+    const purgeAt = '2025-03-03T00:00:00.000Z';
+    mockDeletePalette.mockResolvedValue({ deleted: true, purgeAt });
+
+    const res = await request(app)
+      .delete(`/palettes/${PAL_ID_1}`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ deleted: true, purgeAt });
+    expect(mockDeletePalette).toHaveBeenCalledWith('user-1', PAL_ID_1);
+  });
+
+  it('lists the trash instead of looking up a palette called "trash"', async () => {
+    mockGetTrashedPalettes.mockResolvedValue([
+      { ...SAMPLE_PALETTE, deletedAt: '2025-02-01T00:00:00.000Z' },
+    ]);
+
+    const res = await request(app)
+      .get('/palettes/trash?limit=5')
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].deletedAt).toBe('2025-02-01T00:00:00.000Z');
+    expect(mockGetTrashedPalettes).toHaveBeenCalledWith('user-1', {
+      limit: 5,
+      offset: 0,
+    });
+    expect(mockGetPaletteById).not.toHaveBeenCalled();
+  });
+
+  it('requires authentication to see the trash', async () => {
+    const res = await request(app).get('/palettes/trash');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('restores a trashed palette', async () => {
+    mockRestorePalette.mockResolvedValue({ restored: true });
+
+    const res = await request(app)
+      .post(`/palettes/${PAL_ID_1}/restore`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ restored: true });
+    expect(mockRestorePalette).toHaveBeenCalledWith('user-1', PAL_ID_1);
+  });
+
+  it('returns 404 when the palette is not in the trash', async () => {
+    mockRestorePalette.mockRejectedValue(
+      new NotFoundError('Palette not found in trash')
+    );
+
+    const res = await request(app)
+      .post(`/palettes/${PAL_ID_1}/restore`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('Share links', () => {
+  const PRIVATE_PALETTE = { ...SAMPLE_PALETTE, isPublic: false };
+  const TOKEN_ID = 'c3d4e5f6-a7b8-4c9d-8e0f-1a2b3c4d5e6f';
+  const TOKEN = 'x8Yq2Lw0vJm4Tn6Rb1Kc9Pz3Hs5Fd7Ga';
+  const SHARE_TOKEN = {
+    id: TOKEN_ID,
+    prefix: 'x8Yq2L',
+    createdAt: '2025-02-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    mockGetPaletteById.mockReset();
+    mockIsValidShareToken.mockReset();
+    mockCreateShareToken.mockReset();
+    mockListShareTokens.mockReset();
+    mockRevokeShareToken.mockReset();
+    mockGetOrCreateUser.mockReset();
+    mockGetOrCreateUser.mockResolvedValue({ id: 'user-1' });
+  });
+
+  it('hides a private palette from viewers without a token', async () => {
+    mockGetPaletteById.mockResolvedValue(PRIVATE_PALETTE);
+
+    const res = await request(app).get(`/palettes/${PAL_ID_1}`);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('shows a private palette to anyone with a live token', async () => {
+    mockGetPaletteById.mockResolvedValue(PRIVATE_PALETTE);
+    mockIsValidShareToken.mockResolvedValue(true);
+
+    const res = await request(app).get(`/palettes/${PAL_ID_1}?share=${TOKEN}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.isOwner).toBe(false);
+    expect(mockIsValidShareToken).toHaveBeenCalledWith(PAL_ID_1, TOKEN);
+  });
+
+  it('returns 404 for a revoked token', async () => {
+    mockGetPaletteById.mockResolvedValue(PRIVATE_PALETTE);
+    mockIsValidShareToken.mockResolvedValue(false);
+
+    const res = await request(app).get(`/palettes/${PAL_ID_1}?share=revoked`);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('does not open hidden palettes', async () => {
+    mockGetPaletteById.mockResolvedValue({
+      ...PRIVATE_PALETTE,
+      hiddenAt: new Date('2025-02-01'),
+    });
+    mockIsValidShareToken.mockResolvedValue(true);
+
+    const res = await request(app).get(`/palettes/${PAL_ID_1}?share=${TOKEN}`);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('mints a token for the owner', async () => {
+    mockCreateShareToken.mockResolvedValue({ ...SHARE_TOKEN, token: TOKEN });
+
+    const res = await request(app)
+      .post(`/palettes/${PAL_ID_1}/share-tokens`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(201);
+    expect(res.body.data).toEqual({ ...SHARE_TOKEN, token: TOKEN });
+    expect(mockCreateShareToken).toHaveBeenCalledWith('user-1', PAL_ID_1);
+  });
+
+  it('lists tokens for the owner', async () => {
+    mockListShareTokens.mockResolvedValue([SHARE_TOKEN]);
+
+    const res = await request(app)
+      .get(`/palettes/${PAL_ID_1}/share-tokens`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual([SHARE_TOKEN]);
+  });
+
+  it('requires authentication to mint a token', async () => {
+    const res = await request(app).post(`/palettes/${PAL_ID_1}/share-tokens`);
+
+    expect(res.status).toBe(401);
+    expect(mockCreateShareToken).not.toHaveBeenCalled();
+  });
+
+  it('revokes a token', async () => {
+    mockRevokeShareToken.mockResolvedValue({ revoked: true });
+
+    const res = await request(app)
+      .delete(`/palettes/${PAL_ID_1}/share-tokens/${TOKEN_ID}`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ revoked: true });
+    expect(mockRevokeShareToken).toHaveBeenCalledWith(
+      'user-1',
+      PAL_ID_1,
+      TOKEN_ID
+    );
+  });
+
+  it('rejects a malformed token id', async () => {
+    const res = await request(app)
+      .delete(`/palettes/${PAL_ID_1}/share-tokens/not-a-uuid`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(400);
+    expect(mockRevokeShareToken).not.toHaveBeenCalled();
+  });
+});
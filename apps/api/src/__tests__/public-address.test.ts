@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  assertPublicUrl,
+  isReservedAddress,
+  publicFetch,
+} from '../utils/public-address.js';
+
+describe('isReservedAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.20.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '64:ff9b::a00:1',
+  ])('refuses %s', address => {
+    expect(isReservedAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700::1111'])(
+    'allows %s',
+    address => {
+      expect(isReservedAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe('assertPublicUrl', () => {
+  it.each([
+    'https://127.0.0.1/hook',
+    'https://[::1]/hook',
+    'https://[::ffff:169.254.169.254]/latest',
+    'https://2130706433/hook',
+    'https://localhost/hook',
+  ])('refuses %s', async url => {
+    await expect(assertPublicUrl(url)).rejects.toThrow(/private or reserved/);
+  });
+
+  it('allows public address literals', async () => {
+    await expect(
+      assertPublicUrl('https://93.184.216.34/hook')
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('publicFetch', () => {
+  let server: Server;
+  let port: number;
+  let hits = 0;
+
+  beforeAll(async () => {
+    server = createServer((_req, res) => {
+      hits += 1;
+      res.end('ok');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it.each(['localhost', '127.0.0.1'])(
+    'never connects to a loopback server via %s',
+    async host => {
+      const error = await publicFetch(`http://${host}:${port}/hook`).catch(
+        (err: Error) => err
+      );
+
+      expect(String((error as Error).cause ?? error)).toMatch(
+        /private or reserved/
+      );
+      expect(hits).toBe(0);
+    }
+  );
+});
@@ -0,0 +1,163 @@
+import {
+  describe,
+  it,
+  expect,
+  jest,
+  beforeEach,
+  afterEach,
+} from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { rateLimiter, setRateLimitStore } from '../middleware/rate-limit.js';
+import {
+  MemoryRateLimitStore,
+  type RateLimitStore,
+} from '../utils/rate-limit-store.js';
+
+// `follow` allows 30 requests per minute
+const app = express();
+app.use(express.json());
+// Stand-in for the Firebase auth middleware: tests opt in via `x-test-uid`
+app.use((req: AuthenticatedRequest, _res, next) => {
+  const uid = req.header('x-test-uid');
+  if (uid) req.user = { uid };
+  const keyId = req.header('x-test-key');
+  if (keyId) req.apiKey = { id: keyId, quotas: { follow: 3 } };
+  next();
+});
+app.post('/limited', rateLimiter('follow'), (_req, res) => {
+  res.status(200).json({ success: true });
+});
+
+const LIMIT = 30;
+
+async function exhaust(headers: Record<string, string> = {}, body = {}) {
+  for (let i = 0; i < LIMIT; i++) {
+    const res = await request(app).post('/limited').set(headers).send(body);
+    expect(res.status).toBe(200);
+  }
+}
+
+beforeEach(() => {
+  setRateLimitStore(new MemoryRateLimitStore());
+});
+
+afterEach(() => {
+  delete process.env.RATE_LIMIT_FOLLOW;
+});
+
+describe('rateLimiter', () => {
+  it('sends RateLimit headers', async () => {
+    const res = await request(app).post('/limited');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['ratelimit-limit']).toBe(String(LIMIT));
+    expect(res.headers['ratelimit-remaining']).toBe(String(LIMIT - 1));
+    expect(res.headers['ratelimit-policy']).toBe(`${LIMIT};w=60`);
+  });
+
+  it('answers 429 with Retry-After once the quota is used up', async () => {
+    await exhaust();
+
+    const res = await request(app).post('/limited');
+
+    expect(res.status).toBe(429);
+    expect(res.body.error).toBe('Too many requests');
+    expect(Number(res.headers['retry-after'])).toBeGreaterThan(0);
+    expect(res.headers['ratelimit-remaining']).toBe('0');
+  });
+
+  it('gives each signed-in user their own bucket', async () => {
+    await exhaust({ 'x-test-uid': 'user-a' });
+
+    const blocked = await request(app)
+      .post('/limited')
+      .set('x-test-uid', 'user-a');
+    const other = await request(app)
+      .post('/limited')
+      .set('x-test-uid', 'user-b');
+
+    expect(blocked.status).toBe(429);
+    expect(other.status).toBe(200);
+  });
+
+  it("applies an API key's own quota", async () => {
+    for (let i = 0; i < 3; i++) {
+      await request(app).post('/limited').set('x-test-key', 'key-1');
+    }
+
+    const res = await request(app).post('/limited').set('x-test-key', 'key-1');
+
+    expect(res.status).toBe(429);
+    expect(res.headers['ratelimit-limit']).toBe('3');
+  });
+
+  it('buckets anonymous requests by deviceId', async () => {
+    await exhaust({}, { deviceId: 'device-a' });
+
+    const blocked = await request(app)
+      .post('/limited')
+      .send({ deviceId: 'device-a' });
+    const other = await request(app)
+      .post('/limited')
+      .send({ deviceId: 'device-b' });
+
+    expect(blocked.status).toBe(429);
+    expect(other.status).toBe(200);
+  });
+
+  it('caps rotating deviceIds with a larger shared IP bucket', async () => {
+    for (let i = 0; i < LIMIT * 5; i++) {
+      await request(app)
+        .post('/limited')
+        .send({ deviceId: `device-${i}` });
+    }
+
+    const res = await request(app)
+      .post('/limited')
+      .send({ deviceId: 'device-new' });
+
+    expect(res.status).toBe(429);
+    expect(res.headers['ratelimit-limit']).toBe(String(LIMIT * 5));
+  });
+
+  it('reads quota overrides from the environment', async () => {
+    process.env.RATE_LIMIT_FOLLOW = '2';
+
+    await request(app).post('/limited');
+    await request(app).post('/limited');
+    const res = await request(app).post('/limited');
+
+    expect(res.status).toBe(429);
+    expect(res.headers['ratelimit-limit']).toBe('2');
+  });
+
+  it('lets requests through when the store fails', async () => {
+    const failing: RateLimitStore = {
+      increment: () => Promise.reject(new Error('connection refused')),
+    };
+    setRateLimitStore(failing);
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+
+    const res = await request(app).post('/limited');
+
+    expect(res.status).toBe(200);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('starts a new window once the previous one ends', async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.increment('k', 1);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const hit = await store.increment('k', 60_000);
+
+    expect(hit.count).toBe(1);
+  });
+});
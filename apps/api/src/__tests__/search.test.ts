@@ -0,0 +1,59 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+
+// ---------------------------------------------------------------------------
+// Mock services before importing the router (ESM mock hoisting)
+// ---------------------------------------------------------------------------
+
+const mockGetSearchSuggestions = jest.fn<() => Promise<unknown>>();
+
+jest.unstable_mockModule('../services/palette.service.js', () => ({
+  paletteService: {
+    getSearchSuggestions: mockGetSearchSuggestions,
+  },
+}));
+
+const { default: searchRouter } = await import('../routes/search.js');
+const { errorHandler } = await import('../utils/errors.js');
+
+const app = express();
+app.use('/search', searchRouter);
+app.use(errorHandler({ verbose: false }));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('GET /search/suggest', () => {
+  it('returns matching tags and palettes', async () => {
+    const suggestions = {
+      tags: [{ id: 'tag-1', name: 'Ocean', slug: 'ocean' }],
+      palettes: [{ id: 'palette-1', name: 'Ocean breeze' }],
+    };
+    mockGetSearchSuggestions.mockResolvedValue(suggestions);
+
+    const res = await request(app).get('/search/suggest?q=%20oce%20');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual(suggestions);
+    expect(mockGetSearchSuggestions).toHaveBeenCalledWith('oce');
+    expect(res.headers['cache-control']).toBe('public, max-age=60');
+  });
+
+  it('returns empty suggestions without a query', async () => {
+    const res = await request(app).get('/search/suggest?q=');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ tags: [], palettes: [] });
+    expect(mockGetSearchSuggestions).not.toHaveBeenCalled();
+  });
+
+  it('caps the query at 100 characters', async () => {
+    mockGetSearchSuggestions.mockResolvedValue({ tags: [], palettes: [] });
+
+    await request(app).get(`/search/suggest?q=${'a'.repeat(150)}`);
+
+    expect(mockGetSearchSuggestions).toHaveBeenCalledWith('a'.repeat(100));
+  });
+});
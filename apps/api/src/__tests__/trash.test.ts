@@ -0,0 +1,86 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { SQL } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+
+// ---------------------------------------------------------------------------
+// A database whose queries find nothing — as for a palette in the trash —
+// recording each WHERE clause and refusing writes
+// ---------------------------------------------------------------------------
+
+const whereClauses: SQL[] = [];
+const mockWrite = jest.fn(() => {
+  throw new Error('unexpected write');
+});
+
+function noRows(): unknown {
+  const query: unknown = new Proxy(() => {}, {
+    get: (_target, prop) => {
+      if (prop === 'then') {
+        return (resolve: (rows: unknown[]) => void) => resolve([]);
+      }
+      if (prop === 'where') {
+        return (clause: SQL) => {
+          whereClauses.push(clause);
+          return query;
+        };
+      }
+      return () => query;
+    },
+  });
+  return query;
+}
+
+jest.unstable_mockModule('../config/database.js', () => ({
+  db: {
+    select: () => noRows(),
+    insert: mockWrite,
+    update: mockWrite,
+    delete: mockWrite,
+    batch: mockWrite,
+  },
+}));
+
+const { paletteService } = await import('../services/palette.service.js');
+const { commentService } = await import('../services/comment.service.js');
+const { moderationService } = await import('../services/moderation.service.js');
+const { NotFoundError } = await import('../utils/errors.js');
+
+const PAL_ID = '11111111-1111-4111-8111-111111111111';
+
+/** Whether any recorded WHERE clause leaves out trashed palettes */
+function filteredTrash() {
+  const dialect = new PgDialect();
+  return whereClauses.some(clause =>
+    dialect.sqlToQuery(clause).sql.includes('"palettes"."deleted_at" is null')
+  );
+}
+
+beforeEach(() => {
+  whereClauses.length = 0;
+  mockWrite.mockClear();
+});
+
+describe('writes to a trashed palette', () => {
+  it.each([
+    ['liking', () => paletteService.likePalette('user-1', PAL_ID)],
+    ['unliking', () => paletteService.unlikePalette('user-1', PAL_ID)],
+    ['saving', () => paletteService.savePalette('user-1', PAL_ID)],
+    ['unsaving', () => paletteService.unsavePalette('user-1', PAL_ID)],
+    [
+      'commenting',
+      () => commentService.createComment('user-1', PAL_ID, { body: 'Nice' }),
+    ],
+    [
+      'reporting',
+      () =>
+        moderationService.reportPalette('user-1', PAL_ID, {
+          reason: 'spam',
+        }),
+    ],
+  ])('%s answers 404 and writes nothing', async (_action, write) => {
+    await expect(write()).rejects.toBeInstanceOf(NotFoundError);
+
+    expect(filteredTrash()).toBe(true);
+    expect(mockWrite).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+
+// ---------------------------------------------------------------------------
+// Mock services before importing the router (ESM mock hoisting)
+// ---------------------------------------------------------------------------
+
+const mockGetUserProfile = jest.fn<() => Promise<unknown>>();
+const mockGetOrCreateUser = jest.fn<() => Promise<unknown>>();
+const mockIsFollowing = jest.fn<() => Promise<unknown>>();
+const mockFollowUser = jest.fn<() => Promise<unknown>>();
+const mockUnfollowUser = jest.fn<() => Promise<unknown>>();
+
+jest.unstable_mockModule('../services/palette.service.js', () => ({
+  paletteService: {
+    getUserProfile: mockGetUserProfile,
+    getOrCreateUser: mockGetOrCreateUser,
+    isFollowing: mockIsFollowing,
+    followUser: mockFollowUser,
+    unfollowUser: mockUnfollowUser,
+  },
+}));
+
+const { default: usersRouter } = await import('../routes/users.js');
+const { errorHandler, BadRequestError } = await import('../utils/errors.js');
+
+const app = express();
+app.use(express.json());
+// Stand-in for the Firebase auth middleware: tests opt in via `x-test-uid`
+app.use((req: AuthenticatedRequest, _res, next) => {
+  const uid = req.header('x-test-uid');
+  if (uid) req.user = { uid };
+  next();
+});
+app.use('/users', usersRouter);
+app.use(errorHandler({ verbose: false }));
+
+const USER_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+const VIEWER_ID = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('GET /users/:id', () => {
+  it('returns the public profile with totals', async () => {
+    mockGetUserProfile.mockResolvedValue({
+      id: USER_ID,
+      displayName: 'Ada',
+      photoUrl: null,
+      createdAt: new Date('2025-01-01'),
+      paletteCount: 4,
+      totalLikes: 17,
+    });
+
+    const res = await request(app).get(`/users/${USER_ID}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({
+      displayName: 'Ada',
+      paletteCount: 4,
+      totalLikes: 17,
+      isSelf: false,
+    });
+    expect(mockGetUserProfile).toHaveBeenCalledWith(USER_ID);
+  });
+
+  it("flags the viewer's own profile", async () => {
+    mockGetUserProfile.mockResolvedValue({ id: USER_ID, displayName: 'Ada' });
+    mockGetOrCreateUser.mockResolvedValue({ id: USER_ID });
+
+    const res = await request(app)
+      .get(`/users/${USER_ID}`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.isSelf).toBe(true);
+    expect(mockIsFollowing).not.toHaveBeenCalled();
+  });
+
+  it('reports whether the viewer follows the user', async () => {
+    mockGetUserProfile.mockResolvedValue({ id: USER_ID, followersCount: 3 });
+    mockGetOrCreateUser.mockResolvedValue({ id: VIEWER_ID });
+    mockIsFollowing.mockResolvedValue(true);
+
+    const res = await request(app)
+      .get(`/users/${USER_ID}`)
+      .set('x-test-uid', 'firebase-2');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({
+      followersCount: 3,
+      isSelf: false,
+      isFollowing: true,
+    });
+    expect(mockIsFollowing).toHaveBeenCalledWith(VIEWER_ID, USER_ID);
+  });
+
+  it('returns 404 for unknown users', async () => {
+    mockGetUserProfile.mockResolvedValue(null);
+
+    const res = await request(app).get(`/users/${USER_ID}`);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('rejects malformed ids', async () => {
+    const res = await request(app).get('/users/not-a-uuid');
+
+    expect(res.status).toBe(400);
+    expect(mockGetUserProfile).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /users/:id/follow', () => {
+  it('requires authentication', async () => {
+    const res = await request(app).post(`/users/${USER_ID}/follow`);
+
+    expect(res.status).toBe(401);
+    expect(mockFollowUser).not.toHaveBeenCalled();
+  });
+
+  it('follows the user and returns the follower count', async () => {
+    mockGetOrCreateUser.mockResolvedValue({ id: VIEWER_ID });
+    mockFollowUser.mockResolvedValue({
+      alreadyFollowing: false,
+      followersCount: 8,
+    });
+
+    const res = await request(app)
+      .post(`/users/${USER_ID}/follow`)
+      .set('x-test-uid', 'firebase-2');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ following: true, followersCount: 8 });
+    expect(mockFollowUser).toHaveBeenCalledWith(VIEWER_ID, USER_ID);
+  });
+
+  it('surfaces service errors such as self-follows', async () => {
+    mockGetOrCreateUser.mockResolvedValue({ id: USER_ID });
+    mockFollowUser.mockRejectedValue(
+      new BadRequestError('You cannot follow yourself')
+    );
+
+    const res = await request(app)
+      .post(`/users/${USER_ID}/follow`)
+      .set('x-test-uid', 'firebase-1');
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('DELETE /users/:id/follow', () => {
+  it('unfollows the user', async () => {
+    mockGetOrCreateUser.mockResolvedValue({ id: VIEWER_ID });
+    mockUnfollowUser.mockResolvedValue({
+      wasFollowing: true,
+      followersCount: 7,
+    });
+
+    const res = await request(app)
+      .delete(`/users/${USER_ID}/follow`)
+      .set('x-test-uid', 'firebase-2');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ following: false, followersCount: 7 });
+    expect(mockUnfollowUser).toHaveBeenCalledWith(VIEWER_ID, USER_ID);
+  });
+});
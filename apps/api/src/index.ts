@@ -1,15 +1,26 @@
 import express from 'express';
 import helmet from 'helmet';
-import rateLimit from 'express-rate-limit';
 import { HttpFunction } from '@google-cloud/functions-framework';
 import { initializeFirebase } from './config/firebase.js';
 import {
   verifyFirebaseToken,
   optionalFirebaseToken,
+  requireModerator,
 } from './middleware/auth.js';
+import { verifyJobSecret } from './middleware/jobs.js';
+import { rateLimiter } from './middleware/rate-limit.js';
+import { apiKeyAuth } from './middleware/api-key.js';
 import healthRouter from './routes/health.js';
 import palettesRouter from './routes/palettes.js';
 import generateRouter from './routes/generate.js';
+import collectionsRouter from './routes/collections.js';
+import meRouter from './routes/me.js';
+import usersRouter from './routes/users.js';
+import commentsRouter from './routes/comments.js';
+import moderationRouter from './routes/moderation.js';
+import searchRouter from './routes/search.js';
+import jobsRouter from './routes/jobs.js';
+import openapiRouter from './routes/openapi.js';
 import { errorHandler } from './utils/errors.js';
 
 // Initialize Firebase Admin SDK
@@ -50,13 +61,24 @@ app.use((req, res, next) => {
   const origin = req.headers.origin;
   if (origin && allowedOrigins.includes(origin)) {
     res.setHeader('Access-Control-Allow-Origin', origin);
+  } else if (
+    origin &&
+    req.method === 'OPTIONS' &&
+    /\bx-api-key\b/i.test(req.headers['access-control-request-headers'] ?? '')
+  ) {
+    // Preflights can't carry the key; apiKeyAuth checks the origin against
+    // the key's allowed origins on the actual request
+    res.setHeader('Access-Control-Allow-Origin', origin);
   }
 
   res.setHeader(
     'Access-Control-Allow-Methods',
-    'GET, POST, PUT, DELETE, OPTIONS'
+    'GET, POST, PUT, PATCH, DELETE, OPTIONS'
+  );
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    'Content-Type, Authorization, X-Api-Key'
   );
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
   res.setHeader('Access-Control-Max-Age', '86400');
 
   if (req.method === 'OPTIONS') {
@@ -70,48 +92,82 @@ app.use((req, res, next) => {
 // Body parsing middleware with size limit
 app.use(express.json({ limit: '100kb' }));
 
+// Server-issued API keys (X-Api-Key), ahead of the per-router Firebase auth
+app.use(apiKeyAuth);
+
 // ---------------------------------------------------------------------------
 // Rate limiters
 // ---------------------------------------------------------------------------
 
-/** General limiter — 100 requests / minute / IP */
-const generalLimiter = rateLimit({
-  windowMs: 60_000,
-  max: 100,
-  standardHeaders: true,
-  legacyHeaders: false,
-  message: { error: 'Too many requests', message: 'Please try again later' },
-});
+/** General limiter for every route group (see RATE_LIMIT_GROUPS) */
+const generalLimiter = rateLimiter('general');
 
-/** Stricter limiter for write endpoints — 20 requests / minute / IP */
-const writeLimiter = rateLimit({
-  windowMs: 60_000,
-  max: 20,
-  standardHeaders: true,
-  legacyHeaders: false,
-  message: { error: 'Too many requests', message: 'Please try again later' },
-});
+/** Stricter limiter for write endpoints */
+const writeLimiter = rateLimiter('write');
 
-app.use(generalLimiter);
+// Limiters run after the auth middleware so signed-in users are bucketed
+// by account rather than by IP.
 
 // Health check endpoint (no auth required)
-app.use('/health', healthRouter);
+app.use('/health', generalLimiter, healthRouter);
 
 // Hello endpoint for testing (no auth required)
-app.get('/hello', (_req, res) => {
+app.get('/hello', generalLimiter, (_req, res) => {
   res.status(200).json({
     message: 'Hello from Kulrs API!',
   });
 });
 
+// OpenAPI document (no auth required)
+app.use('/openapi.json', generalLimiter, openapiRouter);
+
 // Palette routes - uses optional auth for public endpoints (browse, view)
-app.use('/palettes', optionalFirebaseToken, palettesRouter);
+app.use('/palettes', optionalFirebaseToken, generalLimiter, palettesRouter);
+
+// Collection routes - public collections are readable without auth
+app.use(
+  '/collections',
+  optionalFirebaseToken,
+  generalLimiter,
+  collectionsRouter
+);
+
+// Search-box suggestions (public, cacheable)
+app.use('/search', generalLimiter, searchRouter);
+
+// Comment deletion - listing and posting live under /palettes/:id/comments
+app.use('/comments', verifyFirebaseToken, generalLimiter, commentsRouter);
 
 // Protected routes - require authentication
-app.use('/generate', writeLimiter, verifyFirebaseToken, generateRouter);
+app.use(
+  '/generate',
+  verifyFirebaseToken,
+  generalLimiter,
+  writeLimiter,
+  generateRouter
+);
+
+// Public user profiles
+app.use('/users', optionalFirebaseToken, generalLimiter, usersRouter);
+
+// Account routes for the signed-in user
+app.use('/me', verifyFirebaseToken, generalLimiter, writeLimiter, meRouter);
+
+// Moderator-only routes (Firebase `moderator` custom claim)
+app.use(
+  '/moderation',
+  verifyFirebaseToken,
+  requireModerator,
+  generalLimiter,
+  writeLimiter,
+  moderationRouter
+);
+
+// Scheduled jobs (Cloud Scheduler, authenticated by a shared secret)
+app.use('/jobs', verifyJobSecret, jobsRouter);
 
 // 404 handler
-app.use((_req, res) => {
+app.use(generalLimiter, (_req, res) => {
   res.status(404).json({
     error: 'Not Found',
     message: 'The requested endpoint does not exist',
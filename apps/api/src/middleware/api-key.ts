@@ -0,0 +1,114 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth.js';
+import { apiKeyService } from '../services/api-key.service.js';
+import { ApiKeyScope } from '../utils/validation.js';
+
+/**
+ * Route prefixes API keys can never reach, whatever their scopes. A first
+ * line of defense only: the routers behind them also mount rejectApiKeys.
+ */
+const FIREBASE_ONLY_PREFIXES = ['/me/api-keys', '/moderation', '/jobs'];
+
+/**
+ * The path as Express routes it: case-insensitive, with repeated slashes
+ * collapsed, so `/ME//api-keys` can't slip past a prefix check.
+ */
+function routedPath(req: AuthenticatedRequest) {
+  return req.path.toLowerCase().replace(/\/{2,}/g, '/');
+}
+
+/** The scope a request needs: generation, any other read, or a write. */
+function requiredScope(req: AuthenticatedRequest): ApiKeyScope {
+  const path = routedPath(req);
+  if (path === '/generate' || path.startsWith('/generate/')) {
+    return 'generate';
+  }
+  return req.method === 'GET' || req.method === 'HEAD' ? 'read' : 'write';
+}
+
+function deny(res: Response, status: number, message: string) {
+  res.status(status).json({
+    error: status === 401 ? 'Unauthorized' : 'Forbidden',
+    message,
+  });
+}
+
+/**
+ * Accept server-issued API keys from the `X-Api-Key` header. Mount before
+ * the routers; requests without the header pass straight through.
+ *
+ * A valid key sets `req.apiKey` (its own rate-limit bucket and quotas) and,
+ * unless a Firebase token is also sent, `req.user` as the key's owner —
+ * with a token, the key acts on behalf of that signed-in user instead.
+ * The key's scopes must cover the request and, from a browser, its
+ * allowed origins must include the request's Origin.
+ */
+export async function apiKeyAuth(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const presented = req.header('x-api-key');
+  if (!presented) {
+    next();
+    return;
+  }
+
+  try {
+    const key = await apiKeyService.authenticate(presented);
+    if (!key) {
+      deny(res, 401, 'Invalid or revoked API key');
+      return;
+    }
+
+    const path = routedPath(req);
+    if (FIREBASE_ONLY_PREFIXES.some(prefix => path.startsWith(prefix))) {
+      deny(res, 403, 'This endpoint is not available with API keys');
+      return;
+    }
+
+    const scope = requiredScope(req);
+    if (!key.scopes.includes(scope)) {
+      deny(res, 403, `API key lacks the "${scope}" scope`);
+      return;
+    }
+
+    const origin = req.headers.origin;
+    if (origin) {
+      if (!key.allowedOrigins.includes(origin)) {
+        deny(res, 403, 'Origin not allowed for this API key');
+        return;
+      }
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.vary('Origin');
+    }
+
+    req.apiKey = { id: key.id, quotas: key.quotas };
+    if (!req.headers.authorization) {
+      req.user = { uid: key.owner.firebaseUid, email: key.owner.email };
+    }
+    next();
+  } catch (error) {
+    console.error('API key authentication error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Authentication failed',
+    });
+  }
+}
+
+/**
+ * Refuse requests authenticated by an API key. Mounted inside the routers
+ * for key management, moderation and jobs, whatever path reached them.
+ */
+export function rejectApiKeys(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  if (req.apiKey) {
+    deny(res, 403, 'This endpoint is not available with API keys');
+    return;
+  }
+  next();
+}
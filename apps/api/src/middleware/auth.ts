@@ -5,6 +5,14 @@ export interface AuthenticatedRequest extends Request {
   user?: {
     uid: string;
     email?: string;
+    /** Set from the `moderator` Firebase custom claim */
+    isModerator?: boolean;
+  };
+  /** The API key the request was made with, if any (see apiKeyAuth) */
+  apiKey?: {
+    id: string;
+    /** Per-route-group request caps overriding the defaults */
+    quotas: Record<string, number>;
   };
 }
 
@@ -20,6 +28,12 @@ export async function verifyFirebaseToken(
   try {
     const authHeader = req.headers.authorization;
 
+    // Already authenticated as an API key's owner by apiKeyAuth
+    if (!authHeader && req.apiKey && req.user) {
+      next();
+      return;
+    }
+
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       res.status(401).json({
         error: 'Unauthorized',
@@ -35,6 +49,7 @@ export async function verifyFirebaseToken(
       req.user = {
         uid: decodedToken.uid,
         email: decodedToken.email,
+        isModerator: decodedToken.moderator === true,
       };
       next();
     } catch (error) {
@@ -72,6 +87,7 @@ export async function optionalFirebaseToken(
         req.user = {
           uid: decodedToken.uid,
           email: decodedToken.email,
+          isModerator: decodedToken.moderator === true,
         };
       } catch (error) {
         // Token invalid - proceed without user info
@@ -85,3 +101,22 @@ export async function optionalFirebaseToken(
     next();
   }
 }
+
+/**
+ * Moderator-only guard. Mount after verifyFirebaseToken; moderators are
+ * granted the `moderator: true` custom claim via the Firebase Admin SDK.
+ */
+export function requireModerator(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  if (!req.user?.isModerator) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'Moderator access required',
+    });
+    return;
+  }
+  next();
+}
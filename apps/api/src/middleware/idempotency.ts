@@ -0,0 +1,151 @@
+import { createHash } from 'crypto';
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth.js';
+import { deviceIdOf } from './rate-limit.js';
+import {
+  IdempotencyStore,
+  MemoryIdempotencyStore,
+  PostgresIdempotencyStore,
+} from '../utils/idempotency-store.js';
+import { BadRequestError, ConflictError } from '../utils/errors.js';
+
+/** How long a stored response is replayed for. */
+export const IDEMPOTENCY_TTL_MS = 24 * 60 * 60_000;
+/**
+ * How long a request holds its key without responding before a retry may
+ * take over (the instance crashed or the request timed out).
+ */
+export const IDEMPOTENCY_LEASE_MS = 5 * 60_000;
+
+let store: IdempotencyStore | null = null;
+
+/**
+ * The configured store: `IDEMPOTENCY_STORE=postgres|memory`, defaulting to
+ * Postgres in production (retries may reach any instance) and memory
+ * elsewhere.
+ */
+function getStore(): IdempotencyStore {
+  if (!store) {
+    const kind =
+      process.env.IDEMPOTENCY_STORE ??
+      (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+    store =
+      kind === 'postgres'
+        ? new PostgresIdempotencyStore()
+        : new MemoryIdempotencyStore();
+  }
+  return store;
+}
+
+/** Replace the store (tests, or a custom implementation). */
+export function setIdempotencyStore(next: IdempotencyStore) {
+  store = next;
+}
+
+/**
+ * Who the key belongs to: the signed-in user, or an anonymous device.
+ * Keys are per identity, so one caller can't replay another's response.
+ */
+function identityOf(req: AuthenticatedRequest): string | null {
+  if (req.user) return `user:${req.user.uid}`;
+  const deviceId = deviceIdOf(req);
+  return deviceId ? `device:${deviceId}` : null;
+}
+
+/** Hash of what the request asks for, to spot a key reused for another. */
+function fingerprintOf(req: AuthenticatedRequest) {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([req.method, req.baseUrl + req.path, req.body ?? null])
+    )
+    .digest('hex');
+}
+
+/**
+ * Honor an `Idempotency-Key` header on a write route. The first response
+ * (anything but a 5xx) is stored per caller and key for 24 hours and
+ * replayed to retries with `Idempotent-Replayed: true`. Reusing a key for
+ * a different request, or retrying while the first is still running,
+ * answers 409 — until the first has gone IDEMPOTENCY_LEASE_MS without a
+ * response, when a retry runs instead. Requests without the header, or
+ * without an identity, run
+ * as usual; if the store is unavailable the request runs unprotected.
+ */
+export function idempotent() {
+  return async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const header = req.header('idempotency-key');
+    const identity = identityOf(req);
+    if (header === undefined || !identity) {
+      next();
+      return;
+    }
+    if (!/^[\x21-\x7e]{1,255}$/.test(header)) {
+      next(
+        new BadRequestError(
+          'Idempotency-Key must be 1-255 printable ASCII characters'
+        )
+      );
+      return;
+    }
+
+    const key = `${identity}:${header}`;
+    const fingerprint = fingerprintOf(req);
+
+    let existing;
+    try {
+      existing = await getStore().claim(
+        key,
+        fingerprint,
+        IDEMPOTENCY_TTL_MS,
+        IDEMPOTENCY_LEASE_MS
+      );
+    } catch (error) {
+      console.error('Idempotency store failed:', error);
+      next();
+      return;
+    }
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        next(
+          new ConflictError(
+            'Idempotency-Key was already used for a different request'
+          )
+        );
+      } else if (existing.status === null) {
+        next(
+          new ConflictError(
+            'A request with this Idempotency-Key is still in progress'
+          )
+        );
+      } else {
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(existing.status).json(existing.body);
+      }
+      return;
+    }
+
+    // Store the response before sending it, so a retry that follows the
+    // response is always replayed. Server errors — including thrown ones,
+    // which errorHandler answers through res.json — free the key instead.
+    // A client that disconnects doesn't: the handler is still running, and
+    // its retry must not run a second copy.
+    const send = res.json.bind(res);
+    res.json = (body: unknown) => {
+      const status = res.statusCode;
+      const saved =
+        status >= 500
+          ? getStore().release(key)
+          : getStore().complete(key, status, body);
+      saved
+        .catch(error => console.error('Idempotency store failed:', error))
+        .finally(() => send(body));
+      return res;
+    };
+    next();
+  };
+}
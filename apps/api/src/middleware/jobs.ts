@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+
+/** Hash both sides so the comparison runs in constant time at any length. */
+function digest(value: string) {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Guard for scheduled-job endpoints. Cloud Scheduler sends the shared
+ * secret from the `JOB_SECRET` env var in the `X-Job-Secret` header; when
+ * the variable is unset the job endpoints are disabled.
+ */
+export function verifyJobSecret(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const expected = process.env.JOB_SECRET;
+  if (!expected) {
+    res.status(404).json({
+      error: 'Not Found',
+      message: 'The requested endpoint does not exist',
+    });
+    return;
+  }
+
+  const provided = req.header('x-job-secret') ?? '';
+  if (!timingSafeEqual(digest(provided), digest(expected))) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Missing or invalid job secret',
+    });
+    return;
+  }
+  next();
+}
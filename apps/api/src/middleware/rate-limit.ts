@@ -0,0 +1,181 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth.js';
+import {
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+  RateLimitStore,
+} from '../utils/rate-limit-store.js';
+
+/** Quota for one route group: at most `max` requests per `windowMs`. */
+export interface RateLimitQuota {
+  windowMs: number;
+  max: number;
+}
+
+/**
+ * Default quotas per route group. Override a group's `max` with an env var
+ * named after it, e.g. `RATE_LIMIT_PALETTE_WRITE=40`.
+ */
+export const RATE_LIMIT_GROUPS = {
+  /** Every request — reads, health checks, search suggestions */
+  general: { windowMs: 60_000, max: 100 },
+  /** Generator, account and moderator routes */
+  write: { windowMs: 60_000, max: 20 },
+  /** Palette like/save/create/delete and other palette mutations */
+  paletteWrite: { windowMs: 60_000, max: 20 },
+  /** Collection mutations */
+  collectionWrite: { windowMs: 60_000, max: 30 },
+  /** Comment mutations */
+  commentWrite: { windowMs: 60_000, max: 20 },
+  /** Follow/unfollow */
+  follow: { windowMs: 60_000, max: 30 },
+} satisfies Record<string, RateLimitQuota>;
+
+export type RateLimitGroup = keyof typeof RATE_LIMIT_GROUPS;
+
+/**
+ * Anonymous requests are bucketed per device when they carry a deviceId,
+ * so people behind one NAT don't share a quota. Device ids are client
+ * chosen, so the IP also gets a bucket this many times larger.
+ */
+const SHARED_IP_MULTIPLIER = 5;
+
+/** `paletteWrite` → `RATE_LIMIT_PALETTE_WRITE` */
+function envVarName(group: string) {
+  return `RATE_LIMIT_${group.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}`;
+}
+
+/** The group's quota with any env override applied. */
+export function quotaFor(group: RateLimitGroup): RateLimitQuota {
+  const quota = RATE_LIMIT_GROUPS[group];
+  const override = Number(process.env[envVarName(group)]);
+  return Number.isInteger(override) && override > 0
+    ? { ...quota, max: override }
+    : quota;
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * The configured store: `RATE_LIMIT_STORE=postgres|memory`, defaulting to
+ * Postgres in production (counts survive cold starts and are shared by
+ * all instances) and memory elsewhere.
+ */
+function getStore(): RateLimitStore {
+  if (!store) {
+    const kind =
+      process.env.RATE_LIMIT_STORE ??
+      (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+    store =
+      kind === 'postgres'
+        ? new PostgresRateLimitStore()
+        : new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+/** Replace the store (tests, or a custom implementation). */
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+/** A well-formed deviceId from the header, query string or JSON body. */
+export function deviceIdOf(req: AuthenticatedRequest): string | null {
+  const candidate =
+    req.header('x-device-id') ??
+    (req.query.deviceId as unknown) ??
+    (req.body as { deviceId?: unknown } | undefined)?.deviceId;
+  return typeof candidate === 'string' &&
+    candidate.length <= 128 &&
+    /^[\w-]+$/.test(candidate)
+    ? candidate
+    : null;
+}
+
+/**
+ * The buckets a request counts against, most specific identity first:
+ * its API key, the signed-in user, the device (plus a shared IP bucket),
+ * or just the IP.
+ */
+function bucketsFor(
+  req: AuthenticatedRequest,
+  group: RateLimitGroup,
+  quota: RateLimitQuota
+) {
+  const ip = req.ip ?? 'unknown';
+  if (req.apiKey) {
+    const max = req.apiKey.quotas[group] ?? quota.max;
+    return [{ key: `key:${req.apiKey.id}`, max }];
+  }
+  if (req.user) return [{ key: `user:${req.user.uid}`, max: quota.max }];
+
+  const deviceId = deviceIdOf(req);
+  if (deviceId) {
+    return [
+      { key: `device:${deviceId}`, max: quota.max },
+      { key: `ip:${ip}`, max: quota.max * SHARED_IP_MULTIPLIER },
+    ];
+  }
+  return [{ key: `ip:${ip}`, max: quota.max }];
+}
+
+/**
+ * Rate-limit middleware for a route group. Mount it after the auth
+ * middleware so signed-in users get their own bucket. Sends the
+ * `RateLimit-*` headers (IETF draft 6) and answers 429 with `Retry-After`
+ * once a bucket is exhausted. If the store is unavailable the request is
+ * let through rather than failed.
+ */
+export function rateLimiter(group: RateLimitGroup) {
+  return async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const quota = quotaFor(group);
+
+    let hits;
+    try {
+      hits = await Promise.all(
+        bucketsFor(req, group, quota).map(async bucket => ({
+          max: bucket.max,
+          ...(await getStore().increment(
+            `${group}:${bucket.key}`,
+            quota.windowMs
+          )),
+        }))
+      );
+    } catch (error) {
+      console.error(`Rate limit store failed for ${group}:`, error);
+      next();
+      return;
+    }
+
+    // Report the bucket closest to its limit
+    const tightest = hits.reduce((a, b) =>
+      b.max - b.count < a.max - a.count ? b : a
+    );
+    const remaining = Math.max(0, tightest.max - tightest.count);
+    const resetSeconds = Math.max(
+      0,
+      Math.ceil((tightest.resetAt.getTime() - Date.now()) / 1000)
+    );
+    res.setHeader(
+      'RateLimit-Policy',
+      `${tightest.max};w=${quota.windowMs / 1000}`
+    );
+    res.setHeader('RateLimit-Limit', String(tightest.max));
+    res.setHeader('RateLimit-Remaining', String(remaining));
+    res.setHeader('RateLimit-Reset', String(resetSeconds));
+
+    if (tightest.count > tightest.max) {
+      res.setHeader('Retry-After', String(resetSeconds));
+      res.status(429).json({
+        error: 'Too many requests',
+        message: 'Please try again later',
+      });
+      return;
+    }
+    next();
+  };
+}
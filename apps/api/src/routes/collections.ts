@@ -0,0 +1,255 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { rateLimiter } from '../middleware/rate-limit.js';
+import { paletteService } from '../services/palette.service.js';
+import { collectionService } from '../services/collection.service.js';
+import {
+  createCollectionSchema,
+  updateCollectionSchema,
+  reorderCollectionsSchema,
+  collectionPaletteSchema,
+  reorderCollectionPalettesSchema,
+} from '../utils/validation.js';
+import { ValidationError, asyncHandler } from '../utils/errors.js';
+import {
+  optionalViewer,
+  requireAuth,
+  requireValidId,
+} from '../utils/request.js';
+
+const router = Router();
+
+/** Write limiter for collection mutations */
+const collectionWriteLimiter = rateLimiter('collectionWrite');
+
+/**
+ * GET /collections/my
+ * List the authenticated user's collections in display order.
+ */
+router.get(
+  '/my',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+
+    const result = await collectionService.getUserCollections(user.id);
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+/**
+ * POST /collections
+ * Create a new collection.
+ */
+router.post(
+  '/',
+  collectionWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const validation = createCollectionSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Validation failed', validation.error.errors);
+    }
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const collection = await collectionService.createCollection(
+      user.id,
+      validation.data
+    );
+    res.status(201).json({ success: true, data: collection });
+  })
+);
+
+/**
+ * PUT /collections/order
+ * Reorder the authenticated user's collections.
+ * Must be registered before /:id routes.
+ */
+router.put(
+  '/order',
+  collectionWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const validation = reorderCollectionsSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Validation failed', validation.error.errors);
+    }
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const result = await collectionService.reorderCollections(
+      user.id,
+      validation.data.collectionIds
+    );
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+/**
+ * GET /collections/:id
+ * Browse a collection. Public collections are visible to everyone,
+ * private ones only to their owner.
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const collectionId = String(req.params.id);
+    requireValidId(collectionId, 'collection');
+
+    const viewerUserId = (await optionalViewer(req))?.id ?? null;
+
+    const collection = await collectionService.getCollection(
+      collectionId,
+      viewerUserId
+    );
+    res.status(200).json({ success: true, data: collection });
+  })
+);
+
+/**
+ * PATCH /collections/:id
+ * Rename a collection or change its description / visibility.
+ */
+router.patch(
+  '/:id',
+  collectionWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const collectionId = String(req.params.id);
+    requireValidId(collectionId, 'collection');
+    const validation = updateCollectionSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Validation failed', validation.error.errors);
+    }
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const collection = await collectionService.updateCollection(
+      user.id,
+      collectionId,
+      validation.data
+    );
+    res.status(200).json({ success: true, data: collection });
+  })
+);
+
+/**
+ * DELETE /collections/:id
+ * Delete a collection. The palettes themselves are not affected.
+ */
+router.delete(
+  '/:id',
+  collectionWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const collectionId = String(req.params.id);
+    requireValidId(collectionId, 'collection');
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const result = await collectionService.deleteCollection(
+      user.id,
+      collectionId
+    );
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+/**
+ * POST /collections/:id/palettes
+ * Add a palette to a collection (also saves it for the user).
+ */
+router.post(
+  '/:id/palettes',
+  collectionWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const collectionId = String(req.params.id);
+    requireValidId(collectionId, 'collection');
+    const validation = collectionPaletteSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Validation failed', validation.error.errors);
+    }
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const result = await collectionService.addPalette(
+      user.id,
+      collectionId,
+      validation.data.paletteId
+    );
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+/**
+ * PUT /collections/:id/palettes/order
+ * Reorder the palettes in a collection.
+ */
+router.put(
+  '/:id/palettes/order',
+  collectionWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const collectionId = String(req.params.id);
+    requireValidId(collectionId, 'collection');
+    const validation = reorderCollectionPalettesSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Validation failed', validation.error.errors);
+    }
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const result = await collectionService.reorderPalettes(
+      user.id,
+      collectionId,
+      validation.data.paletteIds
+    );
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+/**
+ * DELETE /collections/:id/palettes/:paletteId
+ * Remove a palette from a collection.
+ */
+router.delete(
+  '/:id/palettes/:paletteId',
+  collectionWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const collectionId = String(req.params.id);
+    const paletteId = String(req.params.paletteId);
+    requireValidId(collectionId, 'collection');
+    requireValidId(paletteId, 'palette');
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const result = await collectionService.removePalette(
+      user.id,
+      collectionId,
+      paletteId
+    );
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { rateLimiter } from '../middleware/rate-limit.js';
+import { paletteService } from '../services/palette.service.js';
+import { commentService } from '../services/comment.service.js';
+import { asyncHandler } from '../utils/errors.js';
+import { requireAuth, requireValidId } from '../utils/request.js';
+
+const router = Router();
+
+/** Write limiter for comment mutations */
+const commentWriteLimiter = rateLimiter('commentWrite');
+
+/**
+ * DELETE /comments/:id
+ * Delete a comment and its replies. Allowed for the comment's author and
+ * the palette owner. List and create comments under
+ * `/palettes/:id/comments`.
+ */
+router.delete(
+  '/:id',
+  commentWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const commentId = String(req.params.id);
+    requireValidId(commentId, 'comment');
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const result = await commentService.deleteComment(user.id, commentId);
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+export default router;
@@ -0,0 +1,54 @@
+import { Router, Request, Response } from 'express';
+import { rejectApiKeys } from '../middleware/api-key.js';
+import { paletteService } from '../services/palette.service.js';
+import { webhookService } from '../services/webhook.service.js';
+import { PostgresRateLimitStore } from '../utils/rate-limit-store.js';
+import { PostgresIdempotencyStore } from '../utils/idempotency-store.js';
+import { NotFoundError, asyncHandler } from '../utils/errors.js';
+
+/**
+ * Scheduled maintenance jobs, triggered by Cloud Scheduler. Mounted behind
+ * verifyJobSecret.
+ */
+const router = Router();
+
+router.use(rejectApiKeys);
+
+const jobs: Record<string, () => Promise<unknown>> = {
+  /** Recompute stored trending scores (every 15 minutes) */
+  'refresh-trending': () => paletteService.refreshTrendingScores(),
+  /** Recompute like/save counters from their tables and fix drift (daily) */
+  'reconcile-counters': () => paletteService.reconcileCounters(),
+  /** Permanently delete palettes trashed over 30 days ago (daily) */
+  'purge-trash': () => paletteService.purgeTrash(),
+  /** Delete expired Postgres rate-limit buckets (hourly) */
+  'prune-rate-limits': () => new PostgresRateLimitStore().prune(),
+  /** Delete expired idempotency keys (hourly) */
+  'prune-idempotency-keys': () => new PostgresIdempotencyStore().prune(),
+  /** Send due webhook deliveries and retries (every minute) */
+  'deliver-webhooks': () => webhookService.deliverDue(),
+  /** Delete webhook delivery log entries past retention (daily) */
+  'prune-webhook-deliveries': () => webhookService.pruneDeliveries(),
+};
+
+/**
+ * POST /jobs/:name
+ * Run a job and report its result.
+ */
+router.post(
+  '/:name',
+  asyncHandler(async (req: Request, res: Response) => {
+    const name = String(req.params.name);
+    const job = Object.hasOwn(jobs, name) ? jobs[name] : undefined;
+    if (!job) throw new NotFoundError(`Unknown job: ${name}`);
+
+    const started = Date.now();
+    const result = await job();
+    res.status(200).json({
+      success: true,
+      data: { job: name, durationMs: Date.now() - started, result },
+    });
+  })
+);
+
+export default router;
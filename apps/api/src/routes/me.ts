@@ -0,0 +1,273 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { rejectApiKeys } from '../middleware/api-key.js';
+import {
+  RATE_LIMIT_GROUPS,
+  RateLimitGroup,
+  quotaFor,
+} from '../middleware/rate-limit.js';
+import { paletteService } from '../services/palette.service.js';
+import { apiKeyService } from '../services/api-key.service.js';
+import { webhookService } from '../services/webhook.service.js';
+import {
+  BadRequestError,
+  ValidationError,
+  asyncHandler,
+} from '../utils/errors.js';
+import {
+  clampInt,
+  requireAuth,
+  requireValidId,
+  validateDeviceId,
+} from '../utils/request.js';
+import {
+  createApiKeySchema,
+  createWebhookSchema,
+  updateProfileSchema,
+} from '../utils/validation.js';
+
+const router = Router();
+
+/**
+ * PATCH /me
+ * Update the signed-in user's display name and/or avatar URL.
+ */
+router.patch(
+  '/',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const validation = updateProfileSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Validation failed', validation.error.errors);
+    }
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const profile = await paletteService.updateUserProfile(
+      user.id,
+      validation.data
+    );
+
+    res.status(200).json({ success: true, data: profile });
+  })
+);
+
+/**
+ * POST /me/claim-device
+ * Transfer palettes, likes and saves made anonymously on a device to the
+ * authenticated account. Safe to call repeatedly — later calls are no-ops.
+ */
+router.post(
+  '/claim-device',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const { deviceId } = req.body as { deviceId?: string };
+    validateDeviceId(deviceId);
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const claimed = await paletteService.claimDevice(user.id, deviceId);
+
+    res.status(200).json({ success: true, data: claimed });
+  })
+);
+
+/**
+ * GET /me/api-keys
+ * The signed-in user's API keys, newest first. Only each key's prefix is
+ * shown; the full key is returned once, on creation.
+ */
+router.get(
+  '/api-keys',
+  rejectApiKeys,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+
+    const keys = await apiKeyService.listApiKeys(user.id);
+    res.status(200).json({ success: true, data: keys });
+  })
+);
+
+/**
+ * POST /me/api-keys
+ * Issue an API key with the given scopes (read, generate, write), allowed
+ * browser origins and optional per-route-group quotas, which can only
+ * lower the defaults.
+ */
+router.post(
+  '/api-keys',
+  rejectApiKeys,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const validation = createApiKeySchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Validation failed', validation.error.errors);
+    }
+    for (const [group, max] of Object.entries(validation.data.quotas)) {
+      if (!Object.hasOwn(RATE_LIMIT_GROUPS, group)) {
+        throw new BadRequestError(`Unknown rate-limit group: ${group}`);
+      }
+      const limit = quotaFor(group as RateLimitGroup).max;
+      if (max > limit) {
+        throw new BadRequestError(
+          `Quota for ${group} cannot exceed the default of ${limit}`
+        );
+      }
+    }
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const created = await apiKeyService.createApiKey(user.id, validation.data);
+
+    res.status(201).json({ success: true, data: created });
+  })
+);
+
+/**
+ * DELETE /me/api-keys/:id
+ * Revoke one of the signed-in user's API keys.
+ */
+router.delete(
+  '/api-keys/:id',
+  rejectApiKeys,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const keyId = String(req.params.id);
+    requireValidId(keyId, 'API key');
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const revoked = await apiKeyService.revokeApiKey(user.id, keyId);
+
+    res.status(200).json({ success: true, data: revoked });
+  })
+);
+
+/**
+ * GET /me/webhooks
+ * The signed-in user's webhooks, newest first. Signing secrets are only
+ * returned on creation.
+ */
+router.get(
+  '/webhooks',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+
+    const hooks = await webhookService.listWebhooks(user.id);
+    res.status(200).json({ success: true, data: hooks });
+  })
+);
+
+/**
+ * POST /me/webhooks
+ * Register an https endpoint for palette events. Deliveries are signed
+ * with the returned secret (see docs/VIZAIL_INTEGRATION.md).
+ */
+router.post(
+  '/webhooks',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const validation = createWebhookSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Validation failed', validation.error.errors);
+    }
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const created = await webhookService.createWebhook(
+      user.id,
+      validation.data
+    );
+
+    res.status(201).json({ success: true, data: created });
+  })
+);
+
+/**
+ * DELETE /me/webhooks/:id
+ * Delete one of the signed-in user's webhooks and its delivery log.
+ */
+router.delete(
+  '/webhooks/:id',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const webhookId = String(req.params.id);
+    requireValidId(webhookId, 'webhook');
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const result = await webhookService.deleteWebhook(user.id, webhookId);
+
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+/**
+ * GET /me/webhooks/:id/deliveries?limit=20
+ * The webhook's most recent deliveries with their status, attempts and
+ * last response, newest first.
+ */
+router.get(
+  '/webhooks/:id/deliveries',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const webhookId = String(req.params.id);
+    requireValidId(webhookId, 'webhook');
+    const limit = clampInt(req.query.limit as string | undefined, 20, 1, 100);
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const deliveries = await webhookService.getDeliveries(
+      user.id,
+      webhookId,
+      limit
+    );
+
+    res.status(200).json({ success: true, data: deliveries });
+  })
+);
+
+/**
+ * POST /me/webhooks/:id/test
+ * Send a `webhook.test` event now and return the resulting delivery.
+ */
+router.post(
+  '/webhooks/:id/test',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const webhookId = String(req.params.id);
+    requireValidId(webhookId, 'webhook');
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const delivery = await webhookService.testWebhook(user.id, webhookId);
+
+    res.status(200).json({ success: true, data: delivery });
+  })
+);
+
+export default router;
@@ -0,0 +1,151 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { rejectApiKeys } from '../middleware/api-key.js';
+import { paletteService } from '../services/palette.service.js';
+import { moderationService } from '../services/moderation.service.js';
+import {
+  REPORT_STATUSES,
+  ReportStatus,
+  reportCursorSchema,
+} from '../utils/validation.js';
+import { decodeCursor } from '../utils/cursor.js';
+import { BadRequestError, asyncHandler } from '../utils/errors.js';
+import { clampInt, requireAuth, requireValidId } from '../utils/request.js';
+
+/**
+ * Moderator-only routes. Mounted behind verifyFirebaseToken and
+ * requireModerator, so every handler has a moderator in `req.user`.
+ */
+const router = Router();
+
+router.use(rejectApiKeys);
+
+/** Resolve the moderator's user row (for `resolvedById`). */
+async function getModerator(req: AuthenticatedRequest) {
+  const authUser = requireAuth(req);
+  return paletteService.getOrCreateUser(authUser.uid, authUser.email);
+}
+
+/**
+ * GET /moderation/reports?status=open
+ * The reports queue, oldest first. `status` is open (default), resolved
+ * or dismissed; paginate with `?cursor=` / `nextCursor`.
+ */
+router.get(
+  '/reports',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const rawQuery = req.query as Record<string, string | undefined>;
+    const status = (rawQuery.status ?? 'open') as ReportStatus;
+    if (!REPORT_STATUSES.includes(status)) {
+      throw new BadRequestError(
+        `Invalid status. Expected one of: ${REPORT_STATUSES.join(', ')}`
+      );
+    }
+    const limit = clampInt(rawQuery.limit, 20, 1, 50);
+    const cursor = rawQuery.cursor
+      ? decodeCursor(rawQuery.cursor, reportCursorSchema)
+      : undefined;
+
+    const page = await moderationService.getReports({ status, limit, cursor });
+    res.status(200).json({
+      success: true,
+      data: page.reports,
+      nextCursor: page.nextCursor,
+    });
+  })
+);
+
+/**
+ * POST /moderation/reports/:id/dismiss
+ * Close an open report without acting on the palette.
+ */
+router.post(
+  '/reports/:id/dismiss',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const reportId = String(req.params.id);
+    requireValidId(reportId, 'report');
+    const moderator = await getModerator(req);
+
+    const result = await moderationService.dismissReport(
+      moderator.id,
+      reportId
+    );
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+/**
+ * POST /moderation/palettes/:id/hide
+ * Hide a palette from everyone but its owner and resolve its open reports.
+ */
+router.post(
+  '/palettes/:id/hide',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const paletteId = String(req.params.id);
+    requireValidId(paletteId, 'palette');
+    const moderator = await getModerator(req);
+
+    const result = await moderationService.setPaletteHidden(
+      moderator.id,
+      paletteId,
+      true
+    );
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+/**
+ * POST /moderation/palettes/:id/restore
+ * Make a hidden palette visible again.
+ */
+router.post(
+  '/palettes/:id/restore',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const paletteId = String(req.params.id);
+    requireValidId(paletteId, 'palette');
+    const moderator = await getModerator(req);
+
+    const result = await moderationService.setPaletteHidden(
+      moderator.id,
+      paletteId,
+      false
+    );
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+/**
+ * POST /moderation/users/:id/suspend
+ * Suspend a user: their requests get 403 until reinstated.
+ */
+router.post(
+  '/users/:id/suspend',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = String(req.params.id);
+    requireValidId(userId, 'user');
+    const moderator = await getModerator(req);
+    if (moderator.id === userId) {
+      throw new BadRequestError('You cannot suspend yourself');
+    }
+
+    const result = await paletteService.setUserSuspended(userId, true);
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+/**
+ * POST /moderation/users/:id/unsuspend
+ * Reinstate a suspended user.
+ */
+router.post(
+  '/users/:id/unsuspend',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = String(req.params.id);
+    requireValidId(userId, 'user');
+
+    const result = await paletteService.setUserSuspended(userId, false);
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+export default router;
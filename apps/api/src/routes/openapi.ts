@@ -0,0 +1,19 @@
+import { Router, Request, Response } from 'express';
+import { buildOpenApiDocument } from '../utils/openapi.js';
+
+const router = Router();
+
+let document: ReturnType<typeof buildOpenApiDocument> | null = null;
+
+/**
+ * GET /openapi.json
+ * The OpenAPI document for this API, built once from the validation
+ * schemas on first request.
+ */
+router.get('/', (_req: Request, res: Response) => {
+  document ??= buildOpenApiDocument();
+  res.setHeader('Cache-Control', 'public, max-age=300');
+  res.status(200).json(document);
+});
+
+export default router;
@@ -1,12 +1,22 @@
 import { Router, Response } from 'express';
-import rateLimit from 'express-rate-limit';
 import { AuthenticatedRequest } from '../middleware/auth.js';
+import { rateLimiter } from '../middleware/rate-limit.js';
+import { idempotent } from '../middleware/idempotency.js';
 import { paletteService } from '../services/palette.service.js';
+import { commentService } from '../services/comment.service.js';
+import { moderationService } from '../services/moderation.service.js';
 import {
+  browseCursorSchema,
+  savedCursorSchema,
+  commentCursorSchema,
+  createCommentSchema,
+  reportPaletteSchema,
   createPaletteSchema,
   ensureTagsSchema,
-  isValidUUID,
+  updatePaletteSchema,
+  updatePaletteColorsSchema,
 } from '../utils/validation.js';
+import { decodeCursor } from '../utils/cursor.js';
 import {
   BadRequestError,
   UnauthorizedError,
@@ -14,7 +24,20 @@ import {
   ValidationError,
   asyncHandler,
 } from '../utils/errors.js';
-import { listThemes, getThemeBySlug } from '@kulrs/shared';
+import {
+  clampInt,
+  validateDeviceId,
+  requireAuth,
+  requireValidId,
+  optionalViewer,
+} from '../utils/request.js';
+import {
+  listThemes,
+  getThemeBySlug,
+  getPaletteExportFormat,
+  paletteExportFileName,
+  PALETTE_EXPORT_FORMATS,
+} from '@kulrs/shared';
 
 const router = Router();
 
@@ -22,59 +45,37 @@ const router = Router();
 // Helpers
 // ----------------------------------------------------------------
 
-/** Clamp a numeric query param to [min, max]. */
-function clampInt(
-  raw: string | undefined,
-  fallback: number,
-  min: number,
-  max: number
-): number {
-  const n = parseInt(raw ?? String(fallback), 10);
-  if (Number.isNaN(n)) return fallback;
-  return Math.max(min, Math.min(max, n));
-}
-
-/** Validate a deviceId string or throw. */
-function validateDeviceId(deviceId: unknown): asserts deviceId is string {
-  if (
-    typeof deviceId !== 'string' ||
-    deviceId.length > 128 ||
-    !/^[\w-]+$/.test(deviceId)
-  ) {
-    throw new BadRequestError('Invalid deviceId format');
-  }
-}
-
-/** Require an authenticated user or throw 401. */
-function requireAuth(
-  req: AuthenticatedRequest
-): NonNullable<AuthenticatedRequest['user']> {
-  if (!req.user) throw new UnauthorizedError();
-  return req.user;
-}
-
 /**
  * Validate that `id` is a well-formed UUID.
  * Rejects obviously-invalid IDs with 400 before they reach the database.
  */
 function requireValidPaletteId(id: string): void {
-  if (!isValidUUID(id)) {
-    throw new BadRequestError('Invalid palette id format');
+  requireValidId(id, 'palette');
+}
+
+/** Parse a 1-based revision number from a route param or throw 400. */
+function requireRevisionNumber(raw: string): number {
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new BadRequestError('Invalid revision number');
   }
+  return n;
 }
 
-/** Stricter write limiter for like/unlike/create/delete — 20 req/min/IP */
-const paletteWriteLimiter = rateLimit({
-  windowMs: 60_000,
-  max: 20,
-  standardHeaders: true,
-  legacyHeaders: false,
-  message: { error: 'Too many requests', message: 'Please try again later' },
-});
+/** Max number of ?color= values accepted by GET /palettes */
+const MAX_SEARCH_COLORS = 5;
+
+/** Stricter write limiter for like/unlike/create/delete */
+const paletteWriteLimiter = rateLimiter('paletteWrite');
+
+/** Comment writes share the `commentWrite` bucket with DELETE /comments/:id */
+const commentWriteLimiter = rateLimiter('commentWrite');
 
 /**
  * GET /palettes
- * Browse public palettes with filtering and sorting.
+ * Browse public palettes with filtering and sorting. `sort=following`
+ * requires auth and lists palettes from the users the viewer follows;
+ * `sort=relevance` ranks full-text matches for `q`.
  */
 router.get(
   '/',
@@ -86,9 +87,14 @@ router.get(
         ? ('popular' as const)
         : rawQuery.sort === 'trending'
           ? ('trending' as const)
-          : ('recent' as const);
+          : rawQuery.sort === 'following'
+            ? ('following' as const)
+            : rawQuery.sort === 'relevance'
+              ? ('relevance' as const)
+              : ('recent' as const);
+    // The following feed is personal, so it needs a signed-in viewer
+    if (sort === 'following') requireAuth(req);
     const limit = clampInt(rawQuery.limit, 20, 1, 50);
-    const offset = clampInt(rawQuery.offset, 0, 0, 10_000);
     const userId = rawQuery.userId;
     const deviceId = rawQuery.deviceId;
 
@@ -121,23 +127,49 @@ router.get(
       }
     }
 
-    // Text search: ?q=keyword  (max 100 chars)
+    // Text search: ?q=keyword  (max 100 chars, matched as word prefixes)
     const q =
       rawQuery.q && rawQuery.q.trim().length > 0
         ? rawQuery.q.trim().slice(0, 100)
         : undefined;
+    if (sort === 'relevance' && !q) {
+      throw new BadRequestError('sort=relevance requires a search query (q)');
+    }
+
+    // Color search: ?color=2A9D8F  (repeatable or comma-separated, max 5).
+    // Ranks results by perceptual similarity instead of `sort`.
+    const rawColors = ([] as string[])
+      .concat((req.query.color as string | string[] | undefined) ?? [])
+      .flatMap(c => String(c).split(','))
+      .map(c => c.trim())
+      .filter(Boolean);
+    if (rawColors.length > MAX_SEARCH_COLORS) {
+      throw new BadRequestError(
+        `At most ${MAX_SEARCH_COLORS} colors can be searched at once`
+      );
+    }
+    const searchColors = rawColors.map(c => {
+      const hex = c.replace(/^#/, '');
+      if (!/^[0-9a-f]{6}$/i.test(hex)) {
+        throw new BadRequestError(`Invalid color: ${c}`);
+      }
+      return `#${hex.toUpperCase()}`;
+    });
+
+    // Pagination: ?cursor= is the opaque `nextCursor` from the previous page,
+    // and only valid for the same sort (color searches have their own).
+    const cursor = rawQuery.cursor
+      ? decodeCursor(rawQuery.cursor, browseCursorSchema)
+      : undefined;
+    if (cursor && cursor.sort !== (searchColors.length > 0 ? 'color' : sort)) {
+      throw new BadRequestError('Cursor does not match this query');
+    }
 
     if (deviceId) validateDeviceId(deviceId);
 
     // Resolve viewer identity for per-palette like status
-    let viewerUserId: string | null = null;
-    if (req.user) {
-      const viewer = await paletteService.getOrCreateUser(
-        req.user.uid,
-        req.user.email
-      );
-      viewerUserId = viewer.id;
-    } else if (deviceId) {
+    let viewerUserId = (await optionalViewer(req))?.id ?? null;
+    if (!req.user && deviceId) {
       try {
         const anonUser =
           await paletteService.getOrCreateAnonymousUser(deviceId);
@@ -147,28 +179,35 @@ router.get(
       }
     }
 
-    const palettes = await paletteService
+    const page = await paletteService
       .browsePalettes({
         sort,
         userId,
         limit,
-        offset,
+        cursor,
         viewerUserId,
         tags: resolvedTags,
         q,
+        colors: searchColors.length > 0 ? searchColors : undefined,
       })
       .catch(() => {
         // Safe fallback: if the DB is temporarily unavailable, return an empty
         // list rather than a 500 so clients degrade gracefully.
         res.setHeader('X-Degraded', 'true');
-        return [] as Awaited<ReturnType<typeof paletteService.browsePalettes>>;
+        return { palettes: [], nextCursor: null };
       });
 
     res.setHeader(
       'Cache-Control',
-      'public, max-age=15, stale-while-revalidate=30'
+      sort === 'following'
+        ? 'private, no-store'
+        : 'public, max-age=15, stale-while-revalidate=30'
     );
-    res.status(200).json({ success: true, data: palettes });
+    res.status(200).json({
+      success: true,
+      data: page.palettes,
+      nextCursor: page.nextCursor,
+    });
   })
 );
 
@@ -250,8 +289,70 @@ router.get(
 );
 
 /**
- * GET /palettes/:id
- * Get a palette by ID
+ * GET /palettes/trash?limit=20&offset=0
+ * Palettes the authenticated user has deleted, most recent first, with the
+ * time each will be purged.
+ */
+router.get(
+  '/trash',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+
+    const { limit = '20', offset = '0' } = req.query as {
+      limit?: string;
+      offset?: string;
+    };
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+
+    const palettes = await paletteService.getTrashedPalettes(user.id, {
+      limit: clampInt(limit, 20, 1, 50),
+      offset: clampInt(offset, 0, 0, 10_000),
+    });
+
+    res.status(200).json({ success: true, data: palettes });
+  })
+);
+
+/**
+ * GET /palettes/saved?limit=20&cursor=...
+ * Palettes the authenticated user has saved, most recently saved first.
+ * Pass `nextCursor` from the response back as `cursor` for the next page.
+ */
+router.get(
+  '/saved',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const { limit = '20', cursor } = req.query as {
+      limit?: string;
+      cursor?: string;
+    };
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+
+    const page = await paletteService.getSavedPalettes(user.id, {
+      limit: clampInt(limit, 20, 1, 50),
+      cursor: cursor ? decodeCursor(cursor, savedCursorSchema) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: page.palettes,
+      nextCursor: page.nextCursor,
+    });
+  })
+);
+
+/**
+ * GET /palettes/:id?share=<token>
+ * Get a palette by ID. A live share token lets anyone view a private
+ * palette.
  */
 router.get(
   '/:id',
@@ -262,17 +363,20 @@ router.get(
 
     if (!palette) throw new NotFoundError('Palette not found');
 
-    // Enforce privacy — allow owner or public palettes only
-    let isOwner = false;
-    if (req.user) {
-      const viewer = await paletteService.getOrCreateUser(
-        req.user.uid,
-        req.user.email
-      );
-      isOwner = viewer.id === palette.userId;
-    }
+    // Enforce privacy — private and moderator-hidden palettes are owner-only
+    const viewer = await optionalViewer(req);
+    const isOwner = viewer?.id === palette.userId;
+
+    // Share links open private palettes, but not moderator-hidden ones
+    const { share } = req.query as { share?: string };
+    const shared =
+      !palette.isPublic &&
+      !palette.hiddenAt &&
+      typeof share === 'string' &&
+      share.length <= 64 &&
+      (await paletteService.isValidShareToken(paletteId, share));
 
-    if (!palette.isPublic && !isOwner) {
+    if ((!palette.isPublic || palette.hiddenAt) && !isOwner && !shared) {
       throw new NotFoundError('Palette not found');
     }
 
@@ -296,41 +400,62 @@ router.put(
       authUser.email
     );
 
-    const { colors: newColors } = req.body as {
-      colors?: Array<{ hexValue: string; position: number; name: string }>;
-    };
-
-    if (
-      !Array.isArray(newColors) ||
-      newColors.length === 0 ||
-      newColors.some(
-        c =>
-          typeof c.hexValue !== 'string' ||
-          typeof c.position !== 'number' ||
-          typeof c.name !== 'string'
-      )
-    ) {
-      throw new BadRequestError(
-        'colors must be a non-empty array of {hexValue, position, name}'
+    const validation = updatePaletteColorsSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError(
+        'colors must be a non-empty array of {hexValue, position, name}',
+        validation.error.errors
       );
     }
 
     const result = await paletteService.updatePaletteColors(
       user.id,
       paletteId,
-      newColors
+      validation.data.colors
     );
     res.status(200).json({ success: true, data: result });
   })
 );
 
+/**
+ * PATCH /palettes/:id
+ * Update a palette's name, description, visibility and/or tags (owner only).
+ */
+router.patch(
+  '/:id',
+  paletteWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const paletteId = String(req.params.id);
+    requireValidPaletteId(paletteId);
+    const validation = updatePaletteSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Validation failed', validation.error.errors);
+    }
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const palette = await paletteService.updatePalette(
+      user.id,
+      paletteId,
+      validation.data
+    );
+    res.status(200).json({ success: true, data: palette });
+  })
+);
+
 /**
  * POST /palettes
- * Create a new palette
+ * Create a new palette. If an identical public palette exists it is
+ * returned instead (or 409 with its id when onDuplicate is 'reject').
+ * Retries carrying the same `Idempotency-Key` get the first response.
  */
 router.post(
   '/',
   paletteWriteLimiter,
+  idempotent(),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { deviceId } = req.body as { deviceId?: string };
 
@@ -356,8 +481,46 @@ router.post(
       ? { ...validation.data, isPublic: false }
       : validation.data;
 
-    const palette = await paletteService.createPalette(user.id, paletteInput);
-    res.status(201).json({ success: true, data: palette });
+    // An identical public palette is returned as-is (200) rather than copied
+    const { palette, duplicate } = await paletteService.createPalette(
+      user.id,
+      paletteInput
+    );
+    res
+      .status(duplicate ? 200 : 201)
+      .json({ success: true, data: palette, duplicate });
+  })
+);
+
+/**
+ * POST /palettes/:id/report
+ * Report a palette to the moderators. Requires authentication.
+ */
+router.post(
+  '/:id/report',
+  paletteWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const paletteId = String(req.params.id);
+    requireValidPaletteId(paletteId);
+    const validation = reportPaletteSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Validation failed', validation.error.errors);
+    }
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const result = await moderationService.reportPalette(
+      user.id,
+      paletteId,
+      validation.data
+    );
+    res.status(result.alreadyReported ? 200 : 201).json({
+      success: true,
+      data: result,
+    });
   })
 );
 
@@ -382,6 +545,27 @@ router.post(
   })
 );
 
+/**
+ * DELETE /palettes/:id/save
+ * Remove a palette from the user's saved palettes and their collections
+ */
+router.delete(
+  '/:id/save',
+  paletteWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const paletteId = String(req.params.id);
+    requireValidPaletteId(paletteId);
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const result = await paletteService.unsavePalette(user.id, paletteId);
+
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
 /**
  * POST /palettes/:id/like
  * Like a palette — works for authenticated AND anonymous users.
@@ -411,8 +595,9 @@ router.post(
 
 /**
  * DELETE /palettes/:id
- * Delete a palette owned by the authenticated user.
- * Cascade-deletes colors, likes, saves, and tags.
+ * Move a palette owned by the authenticated user to the trash. It can be
+ * restored for 30 days before it is purged along with its colors, likes,
+ * saves and tags.
  */
 router.delete(
   '/:id',
@@ -432,6 +617,97 @@ router.delete(
   })
 );
 
+/**
+ * POST /palettes/:id/restore
+ * Take a palette owned by the authenticated user back out of the trash.
+ */
+router.post(
+  '/:id/restore',
+  paletteWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const paletteId = String(req.params.id);
+    requireValidPaletteId(paletteId);
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+
+    // restorePalette throws NotFoundError unless the user's palette is trashed
+    const result = await paletteService.restorePalette(user.id, paletteId);
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+/**
+ * GET /palettes/:id/share-tokens
+ * Share links for a palette owned by the authenticated user, newest first.
+ */
+router.get(
+  '/:id/share-tokens',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const paletteId = String(req.params.id);
+    requireValidPaletteId(paletteId);
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+
+    const tokens = await paletteService.listShareTokens(user.id, paletteId);
+    res.status(200).json({ success: true, data: tokens });
+  })
+);
+
+/**
+ * POST /palettes/:id/share-tokens
+ * Mint a share token: `GET /palettes/:id?share=<token>` then shows the
+ * palette to anyone, even while it is private.
+ */
+router.post(
+  '/:id/share-tokens',
+  paletteWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const paletteId = String(req.params.id);
+    requireValidPaletteId(paletteId);
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+
+    const token = await paletteService.createShareToken(user.id, paletteId);
+    res.status(201).json({ success: true, data: token });
+  })
+);
+
+/**
+ * DELETE /palettes/:id/share-tokens/:tokenId
+ * Revoke a share token; links carrying it stop working.
+ */
+router.delete(
+  '/:id/share-tokens/:tokenId',
+  paletteWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const paletteId = String(req.params.id);
+    const tokenId = String(req.params.tokenId);
+    requireValidPaletteId(paletteId);
+    requireValidId(tokenId, 'share token');
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+
+    const result = await paletteService.revokeShareToken(
+      user.id,
+      paletteId,
+      tokenId
+    );
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
 /**
  * DELETE /palettes/:id/like
  * Unlike a palette — works for authenticated AND anonymous users.
@@ -470,14 +746,8 @@ router.get(
     requireValidPaletteId(paletteId);
     const { deviceId } = req.query as { deviceId?: string };
 
-    let userId: string | null = null;
-    if (req.user) {
-      const user = await paletteService.getOrCreateUser(
-        req.user.uid,
-        req.user.email
-      );
-      userId = user.id;
-    } else if (deviceId) {
+    let userId = (await optionalViewer(req))?.id ?? null;
+    if (!req.user && deviceId) {
       const anonUser = await paletteService.getOrCreateAnonymousUser(deviceId);
       userId = anonUser.id;
     }
@@ -487,6 +757,66 @@ router.get(
   })
 );
 
+/**
+ * GET /palettes/:id/comments
+ * List a palette's comments, oldest first, each with its replies.
+ * Paginates top-level comments via `?cursor=` / `nextCursor`.
+ */
+router.get(
+  '/:id/comments',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const paletteId = String(req.params.id);
+    requireValidPaletteId(paletteId);
+    const rawQuery = req.query as Record<string, string | undefined>;
+    const limit = clampInt(rawQuery.limit, 20, 1, 50);
+    const cursor = rawQuery.cursor
+      ? decodeCursor(rawQuery.cursor, commentCursorSchema)
+      : undefined;
+
+    const viewerUserId = (await optionalViewer(req))?.id ?? null;
+
+    const page = await commentService.getComments(paletteId, viewerUserId, {
+      limit,
+      cursor,
+    });
+    res.status(200).json({
+      success: true,
+      data: page.comments,
+      nextCursor: page.nextCursor,
+    });
+  })
+);
+
+/**
+ * POST /palettes/:id/comments
+ * Comment on a palette, or reply to a top-level comment with `parentId`.
+ * Requires authentication.
+ */
+router.post(
+  '/:id/comments',
+  commentWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const paletteId = String(req.params.id);
+    requireValidPaletteId(paletteId);
+    const validation = createCommentSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Validation failed', validation.error.errors);
+    }
+
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const result = await commentService.createComment(
+      user.id,
+      paletteId,
+      validation.data
+    );
+    res.status(201).json({ success: true, data: result });
+  })
+);
+
 /**
  * GET /palettes/:id/related
  * Find public palettes related to the given palette via shared tags.
@@ -498,14 +828,7 @@ router.get(
     requireValidPaletteId(paletteId);
     const limit = clampInt(req.query.limit as string | undefined, 6, 1, 20);
 
-    let viewerUserId: string | null = null;
-    if (req.user) {
-      const viewer = await paletteService.getOrCreateUser(
-        req.user.uid,
-        req.user.email
-      );
-      viewerUserId = viewer.id;
-    }
+    const viewerUserId = (await optionalViewer(req))?.id ?? null;
 
     const related = await paletteService.getRelatedPalettes(paletteId, {
       limit,
@@ -520,13 +843,170 @@ router.get(
   })
 );
 
+/**
+ * GET /palettes/:id/export?format=css
+ * Download a palette in one of the shared export formats.
+ */
+router.get(
+  '/:id/export',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const paletteId = String(req.params.id);
+    requireValidPaletteId(paletteId);
+
+    const format = getPaletteExportFormat(String(req.query.format ?? ''));
+    if (!format) {
+      throw new BadRequestError(
+        `Unknown export format. Supported formats: ${PALETTE_EXPORT_FORMATS.map(f => f.id).join(', ')}`
+      );
+    }
+
+    const palette = await paletteService.getPaletteById(paletteId);
+    if (!palette) throw new NotFoundError('Palette not found');
+
+    // Enforce privacy — private and moderator-hidden palettes are owner-only
+    if (!palette.isPublic || palette.hiddenAt) {
+      const viewer = await optionalViewer(req);
+      if (viewer?.id !== palette.userId) {
+        throw new NotFoundError('Palette not found');
+      }
+    }
+
+    const output = format.format({
+      name: palette.name,
+      colors: palette.colors.map(c => ({ hex: c.hexValue, name: c.name })),
+    });
+
+    res.setHeader('Content-Type', format.mimeType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${paletteExportFileName(palette.name, format)}"`
+    );
+    res
+      .status(200)
+      .send(typeof output === 'string' ? output : Buffer.from(output));
+  })
+);
+
+/**
+ * GET /palettes/:id/lineage
+ * List the palettes this palette was remixed from, nearest parent first.
+ */
+router.get(
+  '/:id/lineage',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const paletteId = String(req.params.id);
+    requireValidPaletteId(paletteId);
+
+    const viewerUserId = (await optionalViewer(req))?.id ?? null;
+
+    const ancestors = await paletteService.getPaletteLineage(
+      paletteId,
+      viewerUserId
+    );
+    res.status(200).json({ success: true, data: ancestors });
+  })
+);
+
+/**
+ * GET /palettes/:id/remixes
+ * List remixes of a palette (and remixes of those, up to ?depth=) as a
+ * flat list with parentPaletteId/depth for building a tree.
+ */
+router.get(
+  '/:id/remixes',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const paletteId = String(req.params.id);
+    requireValidPaletteId(paletteId);
+    const depth = clampInt(req.query.depth as string | undefined, 3, 1, 5);
+
+    const viewerUserId = (await optionalViewer(req))?.id ?? null;
+
+    const remixes = await paletteService.getPaletteRemixes(
+      paletteId,
+      viewerUserId,
+      depth
+    );
+    res.status(200).json({ success: true, data: remixes });
+  })
+);
+
+/**
+ * GET /palettes/:id/revisions
+ * List the revision history of a palette, newest first.
+ */
+router.get(
+  '/:id/revisions',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const paletteId = String(req.params.id);
+    requireValidPaletteId(paletteId);
+
+    const viewerUserId = (await optionalViewer(req))?.id ?? null;
+
+    const revisions = await paletteService.getPaletteRevisions(
+      paletteId,
+      viewerUserId
+    );
+    res.status(200).json({ success: true, data: revisions });
+  })
+);
+
+/**
+ * GET /palettes/:id/revisions/:rev
+ * Get a single revision of a palette.
+ */
+router.get(
+  '/:id/revisions/:rev',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const paletteId = String(req.params.id);
+    requireValidPaletteId(paletteId);
+    const revision = requireRevisionNumber(String(req.params.rev));
+
+    const viewerUserId = (await optionalViewer(req))?.id ?? null;
+
+    const result = await paletteService.getPaletteRevision(
+      paletteId,
+      revision,
+      viewerUserId
+    );
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
+/**
+ * POST /palettes/:id/revisions/:rev/restore
+ * Restore a palette owned by the authenticated user to an earlier revision.
+ */
+router.post(
+  '/:id/revisions/:rev/restore',
+  paletteWriteLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const paletteId = String(req.params.id);
+    requireValidPaletteId(paletteId);
+    const revision = requireRevisionNumber(String(req.params.rev));
+    const user = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+
+    const result = await paletteService.restorePaletteRevision(
+      user.id,
+      paletteId,
+      revision
+    );
+    res.status(200).json({ success: true, data: result });
+  })
+);
+
 /**
  * POST /palettes/:id/remix
- * Remix a palette (create a copy)
+ * Remix a palette (create a copy linked to the original as its parent).
+ * Retries carrying the same `Idempotency-Key` get the first response.
  */
 router.post(
   '/:id/remix',
   paletteWriteLimiter,
+  idempotent(),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const authUser = requireAuth(req);
     const paletteId = String(req.params.id);
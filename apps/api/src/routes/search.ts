@@ -0,0 +1,27 @@
+import { Router, Request, Response } from 'express';
+import { paletteService } from '../services/palette.service.js';
+import { asyncHandler } from '../utils/errors.js';
+
+const router = Router();
+
+/**
+ * GET /search/suggest?q=oce
+ * Type-ahead suggestions for the search box: matching tags and the
+ * most-liked public palettes matching `q` as a word prefix.
+ */
+router.get(
+  '/suggest',
+  asyncHandler(async (req: Request, res: Response) => {
+    const raw = typeof req.query.q === 'string' ? req.query.q : '';
+    const q = raw.trim().slice(0, 100);
+
+    const suggestions = q
+      ? await paletteService.getSearchSuggestions(q)
+      : { tags: [], palettes: [] };
+
+    res.setHeader('Cache-Control', 'public, max-age=60');
+    res.status(200).json({ success: true, data: suggestions });
+  })
+);
+
+export default router;
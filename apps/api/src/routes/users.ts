@@ -0,0 +1,100 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { rateLimiter } from '../middleware/rate-limit.js';
+import { paletteService } from '../services/palette.service.js';
+import { NotFoundError, asyncHandler } from '../utils/errors.js';
+import {
+  optionalViewer,
+  requireAuth,
+  requireValidId,
+} from '../utils/request.js';
+
+const router = Router();
+
+/** Follow/unfollow limiter */
+const followLimiter = rateLimiter('follow');
+
+/**
+ * GET /users/:id
+ * Public profile: display name, avatar, public palette count, the total
+ * likes those palettes have received and follower/following counts.
+ * `isSelf` is true when the viewer is that user and `isFollowing` when the
+ * viewer follows them. List the palettes themselves with
+ * `GET /palettes?userId=:id`.
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = String(req.params.id);
+    requireValidId(userId, 'user');
+
+    const profile = await paletteService.getUserProfile(userId);
+    if (!profile) throw new NotFoundError('User not found');
+
+    let isSelf = false;
+    let isFollowing = false;
+    const viewer = await optionalViewer(req);
+    if (viewer) {
+      isSelf = viewer.id === profile.id;
+      if (!isSelf) {
+        isFollowing = await paletteService.isFollowing(viewer.id, profile.id);
+      }
+    }
+
+    res
+      .status(200)
+      .json({ success: true, data: { ...profile, isSelf, isFollowing } });
+  })
+);
+
+/**
+ * POST /users/:id/follow
+ * Follow a user. Requires authentication.
+ */
+router.post(
+  '/:id/follow',
+  followLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const userId = String(req.params.id);
+    requireValidId(userId, 'user');
+
+    const viewer = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const result = await paletteService.followUser(viewer.id, userId);
+
+    res.status(200).json({
+      success: true,
+      data: { following: true, followersCount: result.followersCount },
+    });
+  })
+);
+
+/**
+ * DELETE /users/:id/follow
+ * Unfollow a user. Requires authentication.
+ */
+router.delete(
+  '/:id/follow',
+  followLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const authUser = requireAuth(req);
+    const userId = String(req.params.id);
+    requireValidId(userId, 'user');
+
+    const viewer = await paletteService.getOrCreateUser(
+      authUser.uid,
+      authUser.email
+    );
+    const result = await paletteService.unfollowUser(viewer.id, userId);
+
+    res.status(200).json({
+      success: true,
+      data: { following: false, followersCount: result.followersCount },
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,162 @@
+import { createHash, randomBytes } from 'crypto';
+import { eq, and, desc, isNull, sql } from 'drizzle-orm';
+import { db } from '../config/database.js';
+import { apiKeys, users } from '@kulrs/db';
+import { ApiKeyScope, CreateApiKeyInput } from '../utils/validation.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+
+/** Keys look like `kulrs_<43 base64url chars>` */
+const KEY_PREFIX = 'kulrs_';
+/** Characters of the key stored in clear, to tell keys apart */
+const DISPLAY_PREFIX_LENGTH = 12;
+const MAX_ACTIVE_KEYS_PER_USER = 10;
+
+/** Authenticated keys are cached briefly; revocation reaches other instances within this TTL. */
+const KEY_CACHE_TTL_MS = 60 * 1000;
+
+/** What the API-key middleware needs to know about a valid key. */
+export interface ApiKeyIdentity {
+  id: string;
+  scopes: ApiKeyScope[];
+  allowedOrigins: string[];
+  quotas: Record<string, number>;
+  /** The owner, to act as when the request carries no Firebase token */
+  owner: { firebaseUid: string; email: string };
+}
+
+const keyCache = new Map<string, { data: ApiKeyIdentity; expiresAt: number }>();
+
+function hashKey(key: string) {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+const apiKeyColumns = {
+  id: apiKeys.id,
+  name: apiKeys.name,
+  prefix: apiKeys.prefix,
+  scopes: apiKeys.scopes,
+  allowedOrigins: apiKeys.allowedOrigins,
+  quotas: apiKeys.quotas,
+  lastUsedAt: apiKeys.lastUsedAt,
+  revokedAt: apiKeys.revokedAt,
+  createdAt: apiKeys.createdAt,
+};
+
+export class ApiKeyService {
+  /**
+   * Issue a new key. The plaintext key is returned only here; the table
+   * keeps its hash.
+   */
+  async createApiKey(userId: string, input: CreateApiKeyInput) {
+    const [active] = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(apiKeys)
+      .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)));
+    if ((active?.count ?? 0) >= MAX_ACTIVE_KEYS_PER_USER) {
+      throw new BadRequestError(
+        `You can have at most ${MAX_ACTIVE_KEYS_PER_USER} active API keys`
+      );
+    }
+
+    const key = KEY_PREFIX + randomBytes(32).toString('base64url');
+    const [created] = await db
+      .insert(apiKeys)
+      .values({
+        userId,
+        name: input.name,
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: hashKey(key),
+        scopes: input.scopes,
+        allowedOrigins: input.allowedOrigins,
+        quotas: input.quotas,
+      })
+      .returning(apiKeyColumns);
+
+    return { ...created!, key };
+  }
+
+  /**
+   * The user's keys, newest first, including revoked ones.
+   */
+  async listApiKeys(userId: string) {
+    return db
+      .select(apiKeyColumns)
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  /**
+   * Revoke one of the user's keys. Requests with it are rejected from then
+   * on (after at most KEY_CACHE_TTL_MS on other instances).
+   */
+  async revokeApiKey(userId: string, keyId: string) {
+    const [revoked] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(apiKeys.id, keyId),
+          eq(apiKeys.userId, userId),
+          isNull(apiKeys.revokedAt)
+        )
+      )
+      .returning({ id: apiKeys.id, revokedAt: apiKeys.revokedAt });
+
+    if (!revoked) {
+      throw new NotFoundError('API key not found or already revoked');
+    }
+    for (const [hash, cached] of keyCache) {
+      if (cached.data.id === keyId) keyCache.delete(hash);
+    }
+    return revoked;
+  }
+
+  /**
+   * Resolve a presented key, or null when it is unknown or revoked.
+   * Records `lastUsedAt` at most once per cache period.
+   */
+  async authenticate(key: string): Promise<ApiKeyIdentity | null> {
+    if (!key.startsWith(KEY_PREFIX)) return null;
+    const hash = hashKey(key);
+
+    const cached = keyCache.get(hash);
+    if (cached && cached.expiresAt > Date.now()) return cached.data;
+
+    const [row] = await db
+      .select({
+        id: apiKeys.id,
+        scopes: apiKeys.scopes,
+        allowedOrigins: apiKeys.allowedOrigins,
+        quotas: apiKeys.quotas,
+        firebaseUid: users.firebaseUid,
+        email: users.email,
+      })
+      .from(apiKeys)
+      .innerJoin(users, eq(apiKeys.userId, users.id))
+      .where(and(eq(apiKeys.keyHash, hash), isNull(apiKeys.revokedAt)))
+      .limit(1);
+
+    if (!row) return null;
+
+    const identity: ApiKeyIdentity = {
+      id: row.id,
+      scopes: row.scopes as ApiKeyScope[],
+      allowedOrigins: row.allowedOrigins,
+      quotas: row.quotas,
+      owner: { firebaseUid: row.firebaseUid, email: row.email },
+    };
+    keyCache.set(hash, {
+      data: identity,
+      expiresAt: Date.now() + KEY_CACHE_TTL_MS,
+    });
+
+    await db
+      .update(apiKeys)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(apiKeys.id, identity.id));
+    return identity;
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,324 @@
+import { eq, and, sql, asc, inArray, isNull } from 'drizzle-orm';
+import { db } from '../config/database.js';
+import { collections, collectionPalettes, palettes, saves } from '@kulrs/db';
+import {
+  CreateCollectionInput,
+  UpdateCollectionInput,
+} from '../utils/validation.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { paletteService, savesCountOf } from './palette.service.js';
+
+const collectionColumns = {
+  id: collections.id,
+  userId: collections.userId,
+  name: collections.name,
+  description: collections.description,
+  isPublic: collections.isPublic,
+  position: collections.position,
+  createdAt: collections.createdAt,
+  updatedAt: collections.updatedAt,
+};
+
+export class CollectionService {
+  /**
+   * Load a collection owned by the given user or throw NotFoundError.
+   */
+  private async getOwnedCollection(userId: string, collectionId: string) {
+    const [collection] = await db
+      .select(collectionColumns)
+      .from(collections)
+      .where(
+        and(eq(collections.id, collectionId), eq(collections.userId, userId))
+      )
+      .limit(1);
+
+    if (!collection) {
+      throw new NotFoundError('Collection not found or not owned by user');
+    }
+    return collection;
+  }
+
+  /**
+   * List a user's collections in their chosen order, with palette counts.
+   */
+  async getUserCollections(userId: string) {
+    return db
+      .select({
+        ...collectionColumns,
+        palettesCount: sql<number>`(
+          select count(*) from ${collectionPalettes}
+          where ${collectionPalettes.collectionId} = ${collections.id}
+        )`.mapWith(Number),
+      })
+      .from(collections)
+      .where(eq(collections.userId, userId))
+      .orderBy(asc(collections.position), asc(collections.createdAt));
+  }
+
+  /**
+   * Create a collection, appended after the user's existing collections.
+   */
+  async createCollection(userId: string, input: CreateCollectionInput) {
+    const [last] = await db
+      .select({
+        position:
+          sql<number>`coalesce(max(${collections.position}), -1)`.mapWith(
+            Number
+          ),
+      })
+      .from(collections)
+      .where(eq(collections.userId, userId));
+
+    const [created] = await db
+      .insert(collections)
+      .values({
+        userId,
+        name: input.name,
+        description: input.description || null,
+        isPublic: input.isPublic,
+        position: (last?.position ?? -1) + 1,
+      })
+      .returning(collectionColumns);
+
+    return created;
+  }
+
+  /**
+   * Rename a collection or change its description / visibility.
+   */
+  async updateCollection(
+    userId: string,
+    collectionId: string,
+    input: UpdateCollectionInput
+  ) {
+    await this.getOwnedCollection(userId, collectionId);
+
+    const [updated] = await db
+      .update(collections)
+      .set({
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.description !== undefined && {
+          description: input.description || null,
+        }),
+        ...(input.isPublic !== undefined && { isPublic: input.isPublic }),
+        updatedAt: new Date(),
+      })
+      .where(eq(collections.id, collectionId))
+      .returning(collectionColumns);
+
+    return updated;
+  }
+
+  /**
+   * Reorder a user's collections. `collectionIds` must list every collection
+   * the user owns exactly once; positions follow the array order.
+   */
+  async reorderCollections(userId: string, collectionIds: string[]) {
+    const owned = await db
+      .select({ id: collections.id })
+      .from(collections)
+      .where(eq(collections.userId, userId));
+
+    const ownedIds = new Set(owned.map(c => c.id));
+    const requested = new Set(collectionIds);
+    if (
+      requested.size !== collectionIds.length ||
+      requested.size !== ownedIds.size ||
+      collectionIds.some(id => !ownedIds.has(id))
+    ) {
+      throw new BadRequestError(
+        'collectionIds must list each of your collections exactly once'
+      );
+    }
+
+    const positionCase = sql.join(
+      collectionIds.map(
+        (id, index) => sql`when ${collections.id} = ${id} then ${index}`
+      ),
+      sql` `
+    );
+
+    await db
+      .update(collections)
+      .set({ position: sql`case ${positionCase} end` })
+      .where(
+        and(
+          eq(collections.userId, userId),
+          inArray(collections.id, collectionIds)
+        )
+      );
+
+    return { reordered: true };
+  }
+
+  /**
+   * Delete a collection. Palettes and saves are left untouched.
+   */
+  async deleteCollection(userId: string, collectionId: string) {
+    await this.getOwnedCollection(userId, collectionId);
+    await db.delete(collections).where(eq(collections.id, collectionId));
+    return { deleted: true };
+  }
+
+  /**
+   * Add a palette to one of the user's collections. The palette is also
+   * saved for the user, so collections always sit on top of `saves`; both
+   * are written in one batch so neither can land without the other.
+   */
+  async addPalette(userId: string, collectionId: string, paletteId: string) {
+    await this.getOwnedCollection(userId, collectionId);
+
+    const [palette] = await db
+      .select({
+        userId: palettes.userId,
+        isPublic: palettes.isPublic,
+        hiddenAt: palettes.hiddenAt,
+      })
+      .from(palettes)
+      .where(and(eq(palettes.id, paletteId), isNull(palettes.deletedAt)))
+      .limit(1);
+
+    if (
+      !palette ||
+      ((!palette.isPublic || palette.hiddenAt) && palette.userId !== userId)
+    ) {
+      throw new NotFoundError('Palette not found');
+    }
+
+    const [inserted] = await db.batch([
+      db
+        .insert(collectionPalettes)
+        .values({
+          collectionId,
+          paletteId,
+          position: sql`(
+            select coalesce(max(${collectionPalettes.position}), -1) + 1
+            from ${collectionPalettes}
+            where ${collectionPalettes.collectionId} = ${collectionId}
+          )`,
+        })
+        .onConflictDoNothing()
+        .returning({ id: collectionPalettes.id }),
+      db.insert(saves).values({ userId, paletteId }).onConflictDoNothing(),
+      db
+        .update(palettes)
+        .set({ savesCount: savesCountOf(paletteId) })
+        .where(eq(palettes.id, paletteId)),
+      db
+        .update(collections)
+        .set({ updatedAt: new Date() })
+        .where(eq(collections.id, collectionId)),
+    ]);
+
+    return { added: inserted.length > 0 };
+  }
+
+  /**
+   * Reorder the palettes in one of the user's collections. `paletteIds` must
+   * list every palette in the collection exactly once; positions follow the
+   * array order.
+   */
+  async reorderPalettes(
+    userId: string,
+    collectionId: string,
+    paletteIds: string[]
+  ) {
+    await this.getOwnedCollection(userId, collectionId);
+
+    const items = await db
+      .select({ paletteId: collectionPalettes.paletteId })
+      .from(collectionPalettes)
+      .where(eq(collectionPalettes.collectionId, collectionId));
+
+    const memberIds = new Set(items.map(i => i.paletteId));
+    const requested = new Set(paletteIds);
+    if (
+      requested.size !== paletteIds.length ||
+      requested.size !== memberIds.size ||
+      paletteIds.some(id => !memberIds.has(id))
+    ) {
+      throw new BadRequestError(
+        'paletteIds must list each palette in the collection exactly once'
+      );
+    }
+
+    const positionCase = sql.join(
+      paletteIds.map(
+        (id, index) =>
+          sql`when ${collectionPalettes.paletteId} = ${id} then ${index}`
+      ),
+      sql` `
+    );
+
+    await db
+      .update(collectionPalettes)
+      .set({ position: sql`case ${positionCase} end` })
+      .where(
+        and(
+          eq(collectionPalettes.collectionId, collectionId),
+          inArray(collectionPalettes.paletteId, paletteIds)
+        )
+      );
+
+    return { reordered: true };
+  }
+
+  /**
+   * Remove a palette from one of the user's collections.
+   * The underlying save is kept.
+   */
+  async removePalette(userId: string, collectionId: string, paletteId: string) {
+    await this.getOwnedCollection(userId, collectionId);
+
+    const removed = await db
+      .delete(collectionPalettes)
+      .where(
+        and(
+          eq(collectionPalettes.collectionId, collectionId),
+          eq(collectionPalettes.paletteId, paletteId)
+        )
+      )
+      .returning({ id: collectionPalettes.id });
+
+    return { removed: removed.length > 0 };
+  }
+
+  /**
+   * Get a collection with its palettes. Private collections are only visible
+   * to their owner, and private palettes inside a public collection are only
+   * listed for their own author.
+   */
+  async getCollection(collectionId: string, viewerUserId: string | null) {
+    const [collection] = await db
+      .select(collectionColumns)
+      .from(collections)
+      .where(eq(collections.id, collectionId))
+      .limit(1);
+
+    if (
+      !collection ||
+      (!collection.isPublic && collection.userId !== viewerUserId)
+    ) {
+      throw new NotFoundError('Collection not found');
+    }
+
+    const items = await db
+      .select({ paletteId: collectionPalettes.paletteId })
+      .from(collectionPalettes)
+      .where(eq(collectionPalettes.collectionId, collectionId))
+      .orderBy(asc(collectionPalettes.position));
+
+    const collectionPaletteRows = await paletteService.getPalettesByIds(
+      items.map(i => i.paletteId),
+      viewerUserId
+    );
+
+    return {
+      ...collection,
+      isOwner: collection.userId === viewerUserId,
+      palettes: collectionPaletteRows,
+    };
+  }
+}
+
+export const collectionService = new CollectionService();
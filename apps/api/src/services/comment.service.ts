@@ -0,0 +1,210 @@
+import { eq, and, sql, asc, inArray, isNull } from 'drizzle-orm';
+import { db } from '../config/database.js';
+import { comments, palettes } from '@kulrs/db';
+import { CommentCursor, CreateCommentInput } from '../utils/validation.js';
+import { encodeCursor } from '../utils/cursor.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { commentsCountOf, paletteService } from './palette.service.js';
+
+const commentColumns = {
+  id: comments.id,
+  paletteId: comments.paletteId,
+  userId: comments.userId,
+  parentId: comments.parentId,
+  body: comments.body,
+  createdAt: comments.createdAt,
+};
+
+export class CommentService {
+  /**
+   * List a palette's comments oldest first, one page of top-level comments at
+   * a time, each with all of its replies (also oldest first). `canDelete`
+   * marks comments the viewer may delete.
+   */
+  async getComments(
+    paletteId: string,
+    viewerUserId: string | null,
+    options: { limit: number; cursor?: CommentCursor }
+  ) {
+    const palette = await paletteService.assertPaletteVisible(
+      paletteId,
+      viewerUserId
+    );
+
+    const conditions = [
+      eq(comments.paletteId, paletteId),
+      isNull(comments.parentId),
+    ];
+    if (options.cursor) {
+      conditions.push(
+        sql`(${comments.createdAt}, ${comments.id}) > (${options.cursor.createdAt}::timestamp, ${options.cursor.id}::uuid)`
+      );
+    }
+
+    // Fetch one extra row to learn whether another page exists
+    const rows = await db
+      .select({
+        ...commentColumns,
+        cursorCreatedAt: sql<string>`${comments.createdAt}::text`,
+      })
+      .from(comments)
+      .where(and(...conditions))
+      .orderBy(asc(comments.createdAt), asc(comments.id))
+      .limit(options.limit + 1);
+    const topLevel = rows.slice(0, options.limit);
+
+    const last = topLevel[topLevel.length - 1];
+    const nextCursor =
+      rows.length > options.limit && last
+        ? encodeCursor({ createdAt: last.cursorCreatedAt, id: last.id })
+        : null;
+
+    if (topLevel.length === 0) return { comments: [], nextCursor };
+
+    const replies = await db
+      .select(commentColumns)
+      .from(comments)
+      .where(
+        inArray(
+          comments.parentId,
+          topLevel.map(c => c.id)
+        )
+      )
+      .orderBy(asc(comments.createdAt), asc(comments.id));
+
+    const authors = await paletteService.getAuthorSummaries([
+      ...topLevel.map(c => c.userId),
+      ...replies.map(c => c.userId),
+    ]);
+    const withAuthor = (comment: (typeof replies)[number]) => ({
+      id: comment.id,
+      paletteId: comment.paletteId,
+      userId: comment.userId,
+      parentId: comment.parentId,
+      body: comment.body,
+      createdAt: comment.createdAt,
+      author: authors.get(comment.userId) ?? null,
+      canDelete:
+        viewerUserId !== null &&
+        (comment.userId === viewerUserId || palette.userId === viewerUserId),
+    });
+
+    const repliesByParent = new Map<string, ReturnType<typeof withAuthor>[]>();
+    for (const reply of replies) {
+      const arr = repliesByParent.get(reply.parentId!) || [];
+      arr.push(withAuthor(reply));
+      repliesByParent.set(reply.parentId!, arr);
+    }
+
+    return {
+      comments: topLevel.map(comment => ({
+        ...withAuthor(comment),
+        replies: repliesByParent.get(comment.id) ?? [],
+      })),
+      nextCursor,
+    };
+  }
+
+  /**
+   * Comment on a palette, or reply to one of its top-level comments.
+   */
+  async createComment(
+    userId: string,
+    paletteId: string,
+    input: CreateCommentInput
+  ) {
+    await paletteService.assertPaletteVisible(paletteId, userId);
+
+    if (input.parentId) {
+      const [parent] = await db
+        .select({ paletteId: comments.paletteId, parentId: comments.parentId })
+        .from(comments)
+        .where(eq(comments.id, input.parentId))
+        .limit(1);
+
+      if (!parent || parent.paletteId !== paletteId) {
+        throw new NotFoundError('Comment not found');
+      }
+      if (parent.parentId) {
+        throw new BadRequestError('Replies cannot be replied to');
+      }
+    }
+
+    const [[created], [palette]] = await db.batch([
+      db
+        .insert(comments)
+        .values({
+          paletteId,
+          userId,
+          parentId: input.parentId ?? null,
+          body: input.body,
+        })
+        .returning(commentColumns),
+      db
+        .update(palettes)
+        .set({ commentsCount: commentsCountOf(paletteId) })
+        .where(eq(palettes.id, paletteId))
+        .returning({ commentsCount: palettes.commentsCount }),
+    ]);
+
+    const authors = await paletteService.getAuthorSummaries([userId]);
+
+    return {
+      comment: {
+        ...created!,
+        author: authors.get(userId) ?? null,
+        canDelete: true,
+        replies: [],
+      },
+      commentsCount: palette?.commentsCount ?? 0,
+    };
+  }
+
+  /**
+   * Delete a comment along with its replies. Allowed for the comment's
+   * author and the owner of the palette it is on.
+   */
+  async deleteComment(userId: string, commentId: string) {
+    const [comment] = await db
+      .select({
+        id: comments.id,
+        userId: comments.userId,
+        paletteId: comments.paletteId,
+        paletteOwnerId: palettes.userId,
+      })
+      .from(comments)
+      .innerJoin(palettes, eq(comments.paletteId, palettes.id))
+      .where(eq(comments.id, commentId))
+      .limit(1);
+
+    if (
+      !comment ||
+      (comment.userId !== userId && comment.paletteOwnerId !== userId)
+    ) {
+      throw new NotFoundError('Comment not found or not deletable by user');
+    }
+
+    const [replies] = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(comments)
+      .where(eq(comments.parentId, commentId));
+    const deletedCount = 1 + (replies?.count ?? 0);
+
+    // Replies go with their parent via ON DELETE CASCADE
+    const [, updated] = await db.batch([
+      db.delete(comments).where(eq(comments.id, commentId)),
+      db
+        .update(palettes)
+        .set({ commentsCount: commentsCountOf(comment.paletteId) })
+        .where(eq(palettes.id, comment.paletteId))
+        .returning({ commentsCount: palettes.commentsCount }),
+    ]);
+
+    return {
+      deleted: deletedCount,
+      commentsCount: updated[0]?.commentsCount ?? 0,
+    };
+  }
+}
+
+export const commentService = new CommentService();
@@ -0,0 +1,170 @@
+import { eq, and, sql, asc } from 'drizzle-orm';
+import { db } from '../config/database.js';
+import { palettes, reports } from '@kulrs/db';
+import {
+  ReportCursor,
+  ReportPaletteInput,
+  ReportStatus,
+} from '../utils/validation.js';
+import { encodeCursor } from '../utils/cursor.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { paletteService } from './palette.service.js';
+
+export class ModerationService {
+  /**
+   * Report a palette for moderator review. Reporting the same palette twice
+   * is a no-op.
+   */
+  async reportPalette(
+    reporterId: string,
+    paletteId: string,
+    input: ReportPaletteInput
+  ) {
+    const palette = await paletteService.assertPaletteVisible(
+      paletteId,
+      reporterId
+    );
+    if (palette.userId === reporterId) {
+      throw new BadRequestError('You cannot report your own palette');
+    }
+
+    const inserted = await db
+      .insert(reports)
+      .values({
+        paletteId,
+        reporterId,
+        reason: input.reason,
+        details: input.details || null,
+      })
+      .onConflictDoNothing()
+      .returning({ id: reports.id });
+
+    return { alreadyReported: inserted.length === 0 };
+  }
+
+  /**
+   * The reports queue: reports with the given status, oldest first, each
+   * with a summary of the reported palette.
+   */
+  async getReports(options: {
+    status: ReportStatus;
+    limit: number;
+    cursor?: ReportCursor;
+  }) {
+    const conditions = [eq(reports.status, options.status)];
+    if (options.cursor) {
+      conditions.push(
+        sql`(${reports.createdAt}, ${reports.id}) > (${options.cursor.createdAt}::timestamp, ${options.cursor.id}::uuid)`
+      );
+    }
+
+    // Fetch one extra row to learn whether another page exists
+    const rows = await db
+      .select({
+        id: reports.id,
+        reason: reports.reason,
+        details: reports.details,
+        status: reports.status,
+        reporterId: reports.reporterId,
+        resolvedById: reports.resolvedById,
+        resolvedAt: reports.resolvedAt,
+        createdAt: reports.createdAt,
+        cursorCreatedAt: sql<string>`${reports.createdAt}::text`,
+        palette: {
+          id: palettes.id,
+          name: palettes.name,
+          description: palettes.description,
+          userId: palettes.userId,
+          isPublic: palettes.isPublic,
+          hiddenAt: palettes.hiddenAt,
+        },
+      })
+      .from(reports)
+      .innerJoin(palettes, eq(reports.paletteId, palettes.id))
+      .where(and(...conditions))
+      .orderBy(asc(reports.createdAt), asc(reports.id))
+      .limit(options.limit + 1);
+
+    const page = rows.slice(0, options.limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows.length > options.limit && last
+        ? encodeCursor({ createdAt: last.cursorCreatedAt, id: last.id })
+        : null;
+
+    return {
+      reports: page.map(row => ({
+        id: row.id,
+        reason: row.reason,
+        details: row.details,
+        status: row.status,
+        reporterId: row.reporterId,
+        resolvedById: row.resolvedById,
+        resolvedAt: row.resolvedAt,
+        createdAt: row.createdAt,
+        palette: row.palette,
+      })),
+      nextCursor,
+    };
+  }
+
+  /**
+   * Hide a palette from everyone but its owner, resolving its open
+   * reports, or restore a hidden palette.
+   */
+  async setPaletteHidden(
+    moderatorId: string,
+    paletteId: string,
+    hidden: boolean
+  ) {
+    const setHidden = db
+      .update(palettes)
+      .set({ hiddenAt: hidden ? new Date() : null })
+      .where(eq(palettes.id, paletteId))
+      .returning({ id: palettes.id, hiddenAt: palettes.hiddenAt });
+
+    if (!hidden) {
+      const [restored] = await setHidden;
+      if (!restored) throw new NotFoundError('Palette not found');
+      return { ...restored, resolvedReports: 0 };
+    }
+
+    const [[updated], resolved] = await db.batch([
+      setHidden,
+      db
+        .update(reports)
+        .set({
+          status: 'resolved',
+          resolvedById: moderatorId,
+          resolvedAt: new Date(),
+        })
+        .where(
+          and(eq(reports.paletteId, paletteId), eq(reports.status, 'open'))
+        )
+        .returning({ id: reports.id }),
+    ]);
+    if (!updated) throw new NotFoundError('Palette not found');
+
+    return { ...updated, resolvedReports: resolved.length };
+  }
+
+  /**
+   * Close an open report without acting on the palette.
+   */
+  async dismissReport(moderatorId: string, reportId: string) {
+    const [dismissed] = await db
+      .update(reports)
+      .set({
+        status: 'dismissed',
+        resolvedById: moderatorId,
+        resolvedAt: new Date(),
+      })
+      .where(and(eq(reports.id, reportId), eq(reports.status, 'open')))
+      .returning({ id: reports.id, status: reports.status });
+
+    if (!dismissed) throw new NotFoundError('Open report not found');
+    return dismissed;
+  }
+}
+
+export const moderationService = new ModerationService();
@@ -1,4 +1,22 @@
-import { eq, and, or, sql, asc, desc, inArray, ilike, ne } from 'drizzle-orm';
+import {
+  eq,
+  and,
+  or,
+  sql,
+  asc,
+  desc,
+  inArray,
+  ne,
+  lt,
+  notExists,
+  notInArray,
+  isNull,
+  isNotNull,
+  getTableColumns,
+  type SQLWrapper,
+} from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { createHash, randomBytes, randomUUID } from 'crypto';
 import { db } from '../config/database.js';
 import {
   users,
@@ -8,10 +26,30 @@ import {
   tags as tagsTable,
   likes,
   saves,
+  comments,
+  follows,
+  collections,
+  collectionPalettes,
+  paletteRevisions,
+  paletteShareTokens,
 } from '@kulrs/db';
-import { CreatePaletteInput, EnsureTagsInput } from '../utils/validation.js';
-import { oklchToRgb } from '@kulrs/shared';
-import { NotFoundError } from '../utils/errors.js';
+import {
+  BrowseCursor,
+  CreatePaletteInput,
+  EnsureTagsInput,
+  SavedCursor,
+  UpdatePaletteInput,
+  UpdateProfileInput,
+} from '../utils/validation.js';
+import { encodeCursor } from '../utils/cursor.js';
+import { webhookService } from './webhook.service.js';
+import { oklchToRgb, rgbToOklch } from '@kulrs/shared';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from '../utils/errors.js';
 
 /**
  * Convert OKLCH color to hex string
@@ -25,6 +63,186 @@ function oklchToHex(oklch: { l: number; c: number; h: number }): string {
   return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}`.toUpperCase();
 }
 
+/**
+ * Convert a #RRGGBB hex string to OKLab coordinates
+ */
+function hexToOklab(hex: string): { l: number; a: number; b: number } {
+  const n = parseInt(hex.replace('#', ''), 16);
+  const { l, c, h } = rgbToOklch({
+    r: (n >> 16) & 0xff,
+    g: (n >> 8) & 0xff,
+    b: n & 0xff,
+  });
+  const hRad = (h * Math.PI) / 180;
+  return { l, a: c * Math.cos(hRad), b: c * Math.sin(hRad) };
+}
+
+/**
+ * Build a `colors` row for a palette, deriving its OKLab coordinates
+ */
+function toColorRow(paletteId: string, color: RevisionColor) {
+  // Malformed hex values are stored as-is but left out of color search
+  const lab = /^#[0-9a-f]{6}$/i.test(color.hexValue)
+    ? hexToOklab(color.hexValue)
+    : null;
+  return {
+    paletteId,
+    hexValue: color.hexValue,
+    position: color.position,
+    name: color.name,
+    role: color.role ?? null,
+    oklchL: color.oklch?.l ?? null,
+    oklchC: color.oklch?.c ?? null,
+    oklchH: color.oklch?.h ?? null,
+    oklabL: lab?.l ?? null,
+    oklabA: lab?.a ?? null,
+    oklabB: lab?.b ?? null,
+  };
+}
+
+/**
+ * Read a `colors` row back into the shape it was written from
+ */
+function storedColor(row: {
+  hexValue: string;
+  position: number;
+  name: string | null;
+  role: string | null;
+  oklchL: number | null;
+  oklchC: number | null;
+  oklchH: number | null;
+}): RevisionColor {
+  return {
+    hexValue: row.hexValue,
+    position: row.position,
+    name: row.name,
+    role: row.role,
+    oklch:
+      row.oklchL !== null && row.oklchC !== null && row.oklchH !== null
+        ? { l: row.oklchL, c: row.oklchC, h: row.oklchH }
+        : null,
+  };
+}
+
+/**
+ * Normalized color signature: uppercase hex values in position order,
+ * comma-separated. Palettes with equal signatures are identical.
+ */
+function colorSignature(
+  paletteColors: Array<{ hexValue: string; position: number }>
+): string {
+  return [...paletteColors]
+    .sort((a, b) => a.position - b.position)
+    .map(c => c.hexValue.toUpperCase())
+    .join(',');
+}
+
+/**
+ * Derive a tag slug from a free-form tag name ("Warm Tones" → "warm-tones").
+ */
+function tagSlug(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50);
+}
+
+/**
+ * Turn free text into a prefix-matching tsquery for the `simple` config
+ * ("ocean bre" → "ocean:* & bre:*"). Returns null when the text has no
+ * searchable words.
+ */
+function toPrefixTsQuery(text: string) {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!words) return null;
+  const query = words
+    .slice(0, 8)
+    .map(word => `${word}:*`)
+    .join(' & ');
+  return sql`to_tsquery('simple', ${query})`;
+}
+
+/** Rebuilds a palette's search document (see migration 0012). */
+const searchVectorOf = sql`palette_search_vector(${palettes.id})`;
+
+/** A palette's like count, recomputed from the `likes` rows it counts. */
+function likesCountOf(paletteId: string | SQLWrapper) {
+  return sql<number>`(select count(*)::int from ${likes} where ${likes.paletteId} = ${paletteId})`;
+}
+
+/** A palette's save count, recomputed from the `saves` rows it counts. */
+export function savesCountOf(paletteId: string | SQLWrapper) {
+  return sql<number>`(select count(*)::int from ${saves} where ${saves.paletteId} = ${paletteId})`;
+}
+
+/** A palette's comment count, replies included, from its `comments` rows. */
+export function commentsCountOf(paletteId: string | SQLWrapper) {
+  return sql<number>`(select count(*)::int from ${comments} where ${comments.paletteId} = ${paletteId})`;
+}
+
+/**
+ * Every palette column except the internal search document, as returned by
+ * writes. The OpenAPI `Palette` schema is generated from it.
+ */
+export const paletteColumns = Object.fromEntries(
+  Object.entries(getTableColumns(palettes)).filter(
+    ([key]) => key !== 'searchVector'
+  )
+) as Omit<typeof palettes._.columns, 'searchVector'>;
+
+/** The palette columns GET /palettes/:id returns, alongside its colors. */
+export const paletteViewColumns = {
+  id: palettes.id,
+  name: palettes.name,
+  description: palettes.description,
+  userId: palettes.userId,
+  isPublic: palettes.isPublic,
+  hiddenAt: palettes.hiddenAt,
+  likesCount: palettes.likesCount,
+  savesCount: palettes.savesCount,
+  commentsCount: palettes.commentsCount,
+  parentPaletteId: palettes.parentPaletteId,
+  remixDepth: palettes.remixDepth,
+  metadata: palettes.metadata,
+  createdAt: palettes.createdAt,
+};
+
+/**
+ * Max OKLab distance at which a stored color counts as a match for a
+ * color search query (roughly "clearly the same hue family and shade").
+ */
+const COLOR_MATCH_DISTANCE = 0.1;
+
+/** Upper bound on palettes ranked for a single color search. */
+const MAX_COLOR_CANDIDATES = 200;
+
+/** Upper bound on how far up a remix chain lineage lookups walk. */
+const MAX_LINEAGE_DEPTH = 50;
+
+/** Upper bound on the number of palettes returned for a remix tree. */
+const MAX_REMIX_TREE_SIZE = 200;
+
+/**
+ * A single color as stored in a revision snapshot. `oklch` holds the exact
+ * generator values when known; `hexValue` is always their sRGB rendering.
+ */
+export interface RevisionColor {
+  hexValue: string;
+  position: number;
+  name: string | null;
+  role?: string | null;
+  oklch?: { l: number; c: number; h: number } | null;
+}
+
+/** Palette author as embedded in palette responses. */
+export interface AuthorSummary {
+  id: string;
+  displayName: string | null;
+  photoUrl: string | null;
+}
+
 /**
  * Simple in-memory cache for user lookups.
  * Avoids a DB round-trip on every authenticated request for the same user.
@@ -38,6 +256,7 @@ interface CachedUser {
     email: string | null;
     displayName: string | null;
     photoUrl: string | null;
+    suspendedAt: Date | null;
     createdAt: Date;
     updatedAt: Date;
   };
@@ -63,14 +282,51 @@ interface CachedTags {
 }
 let tagsCache: CachedTags | null = null;
 
+/**
+ * Moderation filter: hidden palettes are only visible to their owner.
+ */
+function notHiddenFrom(viewerUserId: string | null | undefined) {
+  return viewerUserId
+    ? or(isNull(palettes.hiddenAt), eq(palettes.userId, viewerUserId))!
+    : isNull(palettes.hiddenAt);
+}
+
+/** Trashed palettes are left out of every read until they are restored. */
+const notTrashed = isNull(palettes.deletedAt);
+
+/** How long a trashed palette can be restored before it is purged. */
+const TRASH_RETENTION_MS = 30 * 24 * 60 * 60_000;
+
+/** Active share links one palette may have. */
+const MAX_SHARE_TOKENS_PER_PALETTE = 10;
+/** Characters of a share token stored in clear, to tell links apart */
+const SHARE_TOKEN_PREFIX_LENGTH = 6;
+
+const shareTokenColumns = {
+  id: paletteShareTokens.id,
+  prefix: paletteShareTokens.prefix,
+  createdAt: paletteShareTokens.createdAt,
+};
+
+function hashShareToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/** Throw 403 for accounts a moderator has suspended. */
+function assertNotSuspended(user: { suspendedAt: Date | null }) {
+  if (user.suspendedAt) throw new ForbiddenError('Account suspended');
+}
+
 export class PaletteService {
   /**
-   * Get or create user by Firebase UID (with per-instance cache)
+   * Get or create user by Firebase UID (with per-instance cache).
+   * Throws ForbiddenError for suspended accounts.
    */
   async getOrCreateUser(firebaseUid: string, email?: string) {
     // Check cache first
     const cached = userCache.get(firebaseUid);
     if (cached && cached.expiresAt > Date.now()) {
+      assertNotSuspended(cached.data);
       return cached.data;
     }
     // Evict stale entry
@@ -83,6 +339,7 @@ export class PaletteService {
         email: users.email,
         displayName: users.displayName,
         photoUrl: users.photoUrl,
+        suspendedAt: users.suspendedAt,
         createdAt: users.createdAt,
         updatedAt: users.updatedAt,
       })
@@ -95,6 +352,7 @@ export class PaletteService {
         data: existingUser,
         expiresAt: Date.now() + USER_CACHE_TTL_MS,
       });
+      assertNotSuspended(existingUser);
       return existingUser;
     }
 
@@ -111,6 +369,7 @@ export class PaletteService {
         email: users.email,
         displayName: users.displayName,
         photoUrl: users.photoUrl,
+        suspendedAt: users.suspendedAt,
         createdAt: users.createdAt,
         updatedAt: users.updatedAt,
       });
@@ -124,102 +383,615 @@ export class PaletteService {
   }
 
   /**
-   * Create a new palette from a generated palette
+   * Update the signed-in user's display name and/or avatar URL.
    */
-  async createPalette(userId: string, input: CreatePaletteInput) {
-    const { palette: generatedPalette } = input;
+  async updateUserProfile(userId: string, input: UpdateProfileInput) {
+    const [updated] = await db
+      .update(users)
+      .set({
+        ...(input.displayName !== undefined && {
+          displayName: input.displayName,
+        }),
+        ...(input.photoUrl !== undefined && { photoUrl: input.photoUrl }),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning({
+        id: users.id,
+        firebaseUid: users.firebaseUid,
+        displayName: users.displayName,
+        photoUrl: users.photoUrl,
+        updatedAt: users.updatedAt,
+      });
 
-    // Generate a name from the generator type or use provided name
-    const paletteName =
-      input.name || `${generatedPalette.metadata.generator} palette`;
+    if (!updated) throw new NotFoundError('User not found');
 
-    // Create palette
-    const paletteResult = await db
-      .insert(palettes)
-      .values({
-        name: paletteName,
-        description: input.description || generatedPalette.metadata.explanation,
-        userId,
-        isPublic: input.isPublic ?? true,
+    // The cached row still carries the old profile fields
+    userCache.delete(updated.firebaseUid);
+
+    return {
+      id: updated.id,
+      displayName: updated.displayName,
+      photoUrl: updated.photoUrl,
+      updatedAt: updated.updatedAt,
+    };
+  }
+
+  /**
+   * Suspend or reinstate a user (moderators only). Suspended accounts get
+   * 403 from getOrCreateUser; other API instances notice once their cached
+   * copy of the user expires.
+   */
+  async setUserSuspended(userId: string, suspended: boolean) {
+    const [updated] = await db
+      .update(users)
+      .set({ suspendedAt: suspended ? new Date() : null })
+      .where(eq(users.id, userId))
+      .returning({
+        id: users.id,
+        firebaseUid: users.firebaseUid,
+        suspendedAt: users.suspendedAt,
+      });
+
+    if (!updated) throw new NotFoundError('User not found');
+
+    userCache.delete(updated.firebaseUid);
+    return { id: updated.id, suspendedAt: updated.suspendedAt };
+  }
+
+  /**
+   * Public profile for a user: display name, avatar, totals over their
+   * public palettes and follower/following counts. Returns null for
+   * unknown users.
+   */
+  async getUserProfile(userId: string) {
+    const [user] = await db
+      .select({
+        id: users.id,
+        displayName: users.displayName,
+        photoUrl: users.photoUrl,
+        createdAt: users.createdAt,
       })
-      .returning();
-
-    const palette = paletteResult[0];
-
-    // Create colors from the generated palette
-    if (generatedPalette.colors && generatedPalette.colors.length > 0) {
-      await db.insert(colors).values(
-        generatedPalette.colors.map((assignedColor, index) => ({
-          paletteId: palette.id,
-          hexValue: oklchToHex(assignedColor.color),
-          position: index,
-          name: assignedColor.role,
-        }))
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) return null;
+
+    const [totals] = await db
+      .select({
+        paletteCount: sql<number>`count(*)`.mapWith(Number),
+        totalLikes:
+          sql<number>`coalesce(sum(${palettes.likesCount}), 0)`.mapWith(Number),
+      })
+      .from(palettes)
+      .where(
+        and(
+          eq(palettes.userId, userId),
+          eq(palettes.isPublic, true),
+          notTrashed
+        )
       );
-    }
 
-    // Create palette tags
-    if (input.tagIds && input.tagIds.length > 0) {
-      await db.insert(paletteTags).values(
-        input.tagIds.map(tagId => ({
-          paletteId: palette.id,
-          tagId,
-        }))
+    const [followCounts] = await db
+      .select({
+        followersCount:
+          sql<number>`count(*) filter (where ${follows.followeeId} = ${userId})`.mapWith(
+            Number
+          ),
+        followingCount:
+          sql<number>`count(*) filter (where ${follows.followerId} = ${userId})`.mapWith(
+            Number
+          ),
+      })
+      .from(follows)
+      .where(
+        or(eq(follows.followeeId, userId), eq(follows.followerId, userId))
       );
+
+    return {
+      ...user,
+      paletteCount: totals?.paletteCount ?? 0,
+      totalLikes: totals?.totalLikes ?? 0,
+      followersCount: followCounts?.followersCount ?? 0,
+      followingCount: followCounts?.followingCount ?? 0,
+    };
+  }
+
+  /**
+   * Follow another user. Following twice is a no-op.
+   */
+  async followUser(followerId: string, followeeId: string) {
+    if (followerId === followeeId) {
+      throw new BadRequestError('You cannot follow yourself');
     }
 
-    return palette;
+    const [followee] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.id, followeeId))
+      .limit(1);
+    if (!followee) throw new NotFoundError('User not found');
+
+    const inserted = await db
+      .insert(follows)
+      .values({ followerId, followeeId })
+      .onConflictDoNothing()
+      .returning({ id: follows.id });
+
+    return {
+      alreadyFollowing: inserted.length === 0,
+      followersCount: await this.countFollowers(followeeId),
+    };
   }
 
   /**
-   * Save a palette for a user
+   * Stop following a user
    */
-  async savePalette(userId: string, paletteId: string) {
-    // Check if already saved
+  async unfollowUser(followerId: string, followeeId: string) {
+    const deleted = await db
+      .delete(follows)
+      .where(
+        and(
+          eq(follows.followerId, followerId),
+          eq(follows.followeeId, followeeId)
+        )
+      )
+      .returning({ id: follows.id });
+
+    return {
+      wasFollowing: deleted.length > 0,
+      followersCount: await this.countFollowers(followeeId),
+    };
+  }
+
+  /**
+   * Whether `followerId` currently follows `followeeId`
+   */
+  async isFollowing(followerId: string, followeeId: string) {
+    const [row] = await db
+      .select({ id: follows.id })
+      .from(follows)
+      .where(
+        and(
+          eq(follows.followerId, followerId),
+          eq(follows.followeeId, followeeId)
+        )
+      )
+      .limit(1);
+    return Boolean(row);
+  }
+
+  private async countFollowers(userId: string) {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(follows)
+      .where(eq(follows.followeeId, userId));
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Batch-fetch the author summary embedded in palette responses,
+   * keyed by user id.
+   */
+  async getAuthorSummaries(userIds: string[]) {
+    const uniqueIds = [...new Set(userIds)];
+    if (uniqueIds.length === 0) return new Map<string, AuthorSummary>();
+
+    const rows = await db
+      .select({
+        id: users.id,
+        displayName: users.displayName,
+        photoUrl: users.photoUrl,
+      })
+      .from(users)
+      .where(inArray(users.id, uniqueIds));
+
+    return new Map<string, AuthorSummary>(rows.map(row => [row.id, row]));
+  }
+
+  /**
+   * Find the earliest-created public palette with the given color signature.
+   */
+  async findPublicPaletteBySignature(signature: string) {
     const [existing] = await db
-      .select()
-      .from(saves)
-      .where(and(eq(saves.userId, userId), eq(saves.paletteId, paletteId)))
+      .select(paletteColumns)
+      .from(palettes)
+      .where(
+        and(
+          eq(palettes.colorSignature, signature),
+          eq(palettes.isPublic, true),
+          isNull(palettes.hiddenAt),
+          notTrashed
+        )
+      )
+      .orderBy(asc(palettes.createdAt))
       .limit(1);
 
-    if (existing) {
-      return { alreadySaved: true };
+    return existing ?? null;
+  }
+
+  /**
+   * Create a new palette from a generated palette.
+   * Public palettes identical to an existing public palette are not
+   * duplicated: depending on `input.onDuplicate` the existing palette is
+   * returned (`duplicate: true`) or a ConflictError points at it.
+   */
+  async createPalette(userId: string, input: CreatePaletteInput) {
+    const { palette: generatedPalette } = input;
+    const isPublic = input.isPublic ?? true;
+
+    const paletteColors = generatedPalette.colors.map(
+      (assignedColor, index) => ({
+        hexValue: oklchToHex(assignedColor.color),
+        position: index,
+        name: assignedColor.role,
+        role: assignedColor.role,
+        oklch: assignedColor.color,
+      })
+    );
+    const signature = colorSignature(paletteColors);
+
+    if (isPublic) {
+      const existing = await this.findPublicPaletteBySignature(signature);
+      if (existing) {
+        if (input.onDuplicate === 'reject') {
+          throw new ConflictError(
+            'An identical public palette already exists',
+            { paletteId: existing.id, url: `/palettes/${existing.id}` }
+          );
+        }
+        return { palette: existing, duplicate: true };
+      }
     }
 
-    // Create save record
-    await db.insert(saves).values({
-      userId,
-      paletteId,
-    });
+    // Generate a name from the generator type or use provided name
+    const paletteName =
+      input.name || `${generatedPalette.metadata.generator} palette`;
 
-    // Increment saves count
-    await db
-      .update(palettes)
-      .set({ savesCount: sql`${palettes.savesCount} + 1` })
-      .where(eq(palettes.id, paletteId));
+    // The id is chosen up front so the palette, its colors, first revision
+    // and tags can be written in a single batch (one transaction)
+    const paletteId = randomUUID();
+    const tagIds = input.tagIds ?? [];
+
+    const [[palette]] = await db.batch([
+      db
+        .insert(palettes)
+        .values({
+          id: paletteId,
+          name: paletteName,
+          description:
+            input.description || generatedPalette.metadata.explanation,
+          userId,
+          isPublic,
+          colorSignature: signature,
+          metadata: generatedPalette.metadata,
+        })
+        .returning(paletteColumns),
+      ...[
+        ...(paletteColors.length > 0
+          ? [
+              db
+                .insert(colors)
+                .values(paletteColors.map(c => toColorRow(paletteId, c))),
+              this.recordRevision(paletteId, userId, paletteColors, 1),
+            ]
+          : []),
+        ...(tagIds.length > 0
+          ? [
+              db
+                .insert(paletteTags)
+                .values(tagIds.map(tagId => ({ paletteId, tagId }))),
+            ]
+          : []),
+      ],
+      this.refreshSearchVector(paletteId),
+    ]);
+    await webhookService.emit('palette.created', palette.id);
+
+    return { palette, duplicate: false };
+  }
+
+  /**
+   * Save a palette for a user. The save row and the palette's savesCount
+   * are written in one batch, the count recomputed from the saves table.
+   */
+  async savePalette(userId: string, paletteId: string) {
+    await this.assertNotTrashed(paletteId);
+
+    const [inserted] = await db.batch([
+      db
+        .insert(saves)
+        .values({ userId, paletteId })
+        .onConflictDoNothing()
+        .returning({ id: saves.id }),
+      db
+        .update(palettes)
+        .set({ savesCount: savesCountOf(paletteId) })
+        .where(eq(palettes.id, paletteId)),
+    ]);
+
+    return { alreadySaved: inserted.length === 0 };
+  }
+
+  /**
+   * Remove a palette from a user's saved palettes, and from their
+   * collections along with it (collections sit on top of saves).
+   */
+  async unsavePalette(userId: string, paletteId: string) {
+    await this.assertNotTrashed(paletteId);
+
+    const [deleted, , [palette]] = await db.batch([
+      db
+        .delete(saves)
+        .where(and(eq(saves.userId, userId), eq(saves.paletteId, paletteId)))
+        .returning({ id: saves.id }),
+      db
+        .delete(collectionPalettes)
+        .where(
+          and(
+            eq(collectionPalettes.paletteId, paletteId),
+            inArray(
+              collectionPalettes.collectionId,
+              db
+                .select({ id: collections.id })
+                .from(collections)
+                .where(eq(collections.userId, userId))
+            )
+          )
+        ),
+      db
+        .update(palettes)
+        .set({ savesCount: savesCountOf(paletteId) })
+        .where(eq(palettes.id, paletteId))
+        .returning({ savesCount: palettes.savesCount }),
+    ]);
+
+    if (deleted.length === 0) {
+      return { wasSaved: false };
+    }
+
+    return { wasSaved: true, savesCount: palette?.savesCount ?? 0 };
+  }
+
+  /**
+   * List the palettes a user has saved, most recently saved first, with the
+   * user's like status. Saved palettes that have since been made private by
+   * their owner are left out.
+   */
+  async getSavedPalettes(
+    userId: string,
+    options: { limit: number; cursor?: SavedCursor }
+  ) {
+    const limit = Math.min(Math.max(1, options.limit), 50);
+    const { cursor } = options;
+
+    const rows = await db
+      .select({
+        id: saves.id,
+        paletteId: saves.paletteId,
+        savedAt: saves.createdAt,
+        cursorSavedAt: sql<string>`${saves.createdAt}::text`,
+      })
+      .from(saves)
+      .innerJoin(palettes, eq(saves.paletteId, palettes.id))
+      .where(
+        and(
+          eq(saves.userId, userId),
+          or(eq(palettes.isPublic, true), eq(palettes.userId, userId)),
+          notTrashed,
+          cursor
+            ? sql`(${saves.createdAt}, ${saves.id}) < (${cursor.savedAt}::timestamp, ${cursor.id}::uuid)`
+            : undefined
+        )
+      )
+      .orderBy(desc(saves.createdAt), desc(saves.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows.length > limit && last
+        ? encodeCursor({ savedAt: last.cursorSavedAt, id: last.id })
+        : null;
+
+    const savedAtById = new Map(page.map(row => [row.paletteId, row.savedAt]));
+    const savedPalettes = await this.getPalettesByIds(
+      page.map(row => row.paletteId),
+      userId
+    );
 
-    return { alreadySaved: false };
+    return {
+      palettes: savedPalettes.map(palette => ({
+        ...palette,
+        savedAt: savedAtById.get(palette.id),
+      })),
+      nextCursor,
+    };
   }
 
   /**
-   * Delete a palette owned by the given user.
-   * Cascade-deletes colors, likes, saves, and tags via FK constraints.
+   * Move a palette owned by the given user to the trash. Trashed palettes
+   * are left out of every read; the owner can restore them for 30 days,
+   * after which the purge-trash job deletes them for good.
    */
   async deletePalette(userId: string, paletteId: string) {
     // Verify ownership
     const [palette] = await db
       .select({ id: palettes.id, userId: palettes.userId })
       .from(palettes)
-      .where(and(eq(palettes.id, paletteId), eq(palettes.userId, userId)))
+      .where(
+        and(eq(palettes.id, paletteId), eq(palettes.userId, userId), notTrashed)
+      )
       .limit(1);
 
     if (!palette) {
       throw new NotFoundError('Palette not found or not owned by user');
     }
 
-    await db.delete(palettes).where(eq(palettes.id, paletteId));
+    const snapshot = await webhookService.paletteSnapshot(paletteId);
+    const [trashed] = await db
+      .update(palettes)
+      .set({ deletedAt: new Date() })
+      .where(eq(palettes.id, paletteId))
+      .returning({ deletedAt: palettes.deletedAt });
+    await webhookService.emit('palette.deleted', snapshot);
+
+    return {
+      deleted: true,
+      purgeAt: new Date(trashed!.deletedAt!.getTime() + TRASH_RETENTION_MS),
+    };
+  }
+
+  /**
+   * Take a palette owned by the given user back out of the trash.
+   */
+  async restorePalette(userId: string, paletteId: string) {
+    const [restored] = await db
+      .update(palettes)
+      .set({ deletedAt: null })
+      .where(
+        and(
+          eq(palettes.id, paletteId),
+          eq(palettes.userId, userId),
+          isNotNull(palettes.deletedAt)
+        )
+      )
+      .returning({ id: palettes.id });
+
+    if (!restored) {
+      throw new NotFoundError('Palette not found in trash');
+    }
+
+    return { restored: true };
+  }
+
+  /**
+   * Permanently delete palettes trashed more than 30 days ago, along with
+   * their colors, likes, saves and tags (via FK cascades). Run periodically
+   * by the purge-trash job.
+   */
+  async purgeTrash() {
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_MS);
+    const result = await db
+      .delete(palettes)
+      .where(lt(palettes.deletedAt, cutoff));
+    return { purged: result.rowCount ?? 0 };
+  }
+
+  /**
+   * Mint a share token for a palette owned by the given user. Anyone
+   * holding it can view the palette via `GET /palettes/:id?share=<token>`,
+   * even while it is private, until the owner revokes it. The palette
+   * still stays out of browse and search. The plaintext token is returned
+   * only here; the table keeps its hash.
+   */
+  async createShareToken(userId: string, paletteId: string) {
+    await this.assertOwnsPalette(userId, paletteId);
+
+    const existing = await db
+      .select({ id: paletteShareTokens.id })
+      .from(paletteShareTokens)
+      .where(eq(paletteShareTokens.paletteId, paletteId));
+    if (existing.length >= MAX_SHARE_TOKENS_PER_PALETTE) {
+      throw new BadRequestError(
+        `A palette can have at most ${MAX_SHARE_TOKENS_PER_PALETTE} share links`
+      );
+    }
+
+    const token = randomBytes(24).toString('base64url');
+    const [created] = await db
+      .insert(paletteShareTokens)
+      .values({
+        paletteId,
+        prefix: token.slice(0, SHARE_TOKEN_PREFIX_LENGTH),
+        tokenHash: hashShareToken(token),
+      })
+      .returning(shareTokenColumns);
+
+    return { ...created!, token };
+  }
+
+  /**
+   * The share tokens of a palette owned by the given user, newest first.
+   */
+  async listShareTokens(userId: string, paletteId: string) {
+    await this.assertOwnsPalette(userId, paletteId);
+
+    return db
+      .select(shareTokenColumns)
+      .from(paletteShareTokens)
+      .where(eq(paletteShareTokens.paletteId, paletteId))
+      .orderBy(desc(paletteShareTokens.createdAt));
+  }
+
+  /**
+   * Revoke a share token: links carrying it stop working immediately.
+   */
+  async revokeShareToken(userId: string, paletteId: string, tokenId: string) {
+    await this.assertOwnsPalette(userId, paletteId);
+
+    const [revoked] = await db
+      .delete(paletteShareTokens)
+      .where(
+        and(
+          eq(paletteShareTokens.id, tokenId),
+          eq(paletteShareTokens.paletteId, paletteId)
+        )
+      )
+      .returning({ id: paletteShareTokens.id });
+
+    if (!revoked) {
+      throw new NotFoundError('Share link not found');
+    }
+
+    return { revoked: true };
+  }
+
+  /**
+   * Whether `token` is a live share token for the palette.
+   */
+  async isValidShareToken(paletteId: string, token: string) {
+    const [match] = await db
+      .select({ id: paletteShareTokens.id })
+      .from(paletteShareTokens)
+      .where(
+        and(
+          eq(paletteShareTokens.paletteId, paletteId),
+          eq(paletteShareTokens.tokenHash, hashShareToken(token))
+        )
+      )
+      .limit(1);
+
+    return !!match;
+  }
+
+  /** Throw NotFoundError unless the palette exists outside the trash. */
+  private async assertNotTrashed(paletteId: string) {
+    const [palette] = await db
+      .select({ id: palettes.id })
+      .from(palettes)
+      .where(and(eq(palettes.id, paletteId), notTrashed))
+      .limit(1);
+
+    if (!palette) {
+      throw new NotFoundError('Palette not found');
+    }
+  }
+
+  /** Throw NotFoundError unless the user owns the (untrashed) palette. */
+  private async assertOwnsPalette(userId: string, paletteId: string) {
+    const [palette] = await db
+      .select({ id: palettes.id })
+      .from(palettes)
+      .where(
+        and(eq(palettes.id, paletteId), eq(palettes.userId, userId), notTrashed)
+      )
+      .limit(1);
 
-    return { deleted: true };
+    if (!palette) {
+      throw new NotFoundError('Palette not found or not owned by user');
+    }
   }
 
   /**
@@ -231,12 +1003,19 @@ export class PaletteService {
 
     // Try to find the user first (fast path for repeat visitors)
     const [existing] = await db
-      .select({ id: users.id, firebaseUid: users.firebaseUid })
+      .select({
+        id: users.id,
+        firebaseUid: users.firebaseUid,
+        suspendedAt: users.suspendedAt,
+      })
       .from(users)
       .where(eq(users.firebaseUid, anonUid))
       .limit(1);
 
-    if (existing) return existing;
+    if (existing) {
+      assertNotSuspended(existing);
+      return existing;
+    }
 
     // User doesn't exist — try to insert. If another request raced us and
     // inserted first, catch the unique-constraint violation and SELECT again.
@@ -244,12 +1023,20 @@ export class PaletteService {
       const [created] = await db
         .insert(users)
         .values({ firebaseUid: anonUid, email: '' })
-        .returning({ id: users.id, firebaseUid: users.firebaseUid });
+        .returning({
+          id: users.id,
+          firebaseUid: users.firebaseUid,
+          suspendedAt: users.suspendedAt,
+        });
       return created;
     } catch {
       // Unique-constraint violation — another request created the user
       const [raced] = await db
-        .select({ id: users.id, firebaseUid: users.firebaseUid })
+        .select({
+          id: users.id,
+          firebaseUid: users.firebaseUid,
+          suspendedAt: users.suspendedAt,
+        })
         .from(users)
         .where(eq(users.firebaseUid, anonUid))
         .limit(1);
@@ -258,43 +1045,119 @@ export class PaletteService {
           `Failed to resolve anonymous user for device ${deviceId}`
         );
       }
+      assertNotSuspended(raced);
       return raced;
     }
   }
 
   /**
-   * Like a palette
+   * Move everything an anonymous device user owns onto a signed-in user:
+   * palettes (and their revision authorship), likes and saves. Likes/saves
+   * the account already has are dropped rather than moved, and the counters
+   * on the account's liked and saved palettes are recomputed from the rows.
+   * The device user itself is kept, so nothing else it owns is cascaded
+   * away. All statements run in a single batch, so the claim is
+   * all-or-nothing.
    */
-  async likePalette(userId: string, paletteId: string) {
-    // Check if already liked
-    const [existing] = await db
-      .select()
-      .from(likes)
-      .where(and(eq(likes.userId, userId), eq(likes.paletteId, paletteId)))
+  async claimDevice(userId: string, deviceId: string) {
+    const [anon] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.firebaseUid, `anon-${deviceId}`))
       .limit(1);
 
-    if (existing) {
-      return { alreadyLiked: true };
+    if (!anon || anon.id === userId) {
+      return { palettes: 0, likes: 0, saves: 0 };
     }
 
-    // Create like record
-    await db.insert(likes).values({
-      userId,
-      paletteId,
-    });
+    const duplicateLikes = db
+      .select({ paletteId: likes.paletteId })
+      .from(likes)
+      .where(eq(likes.userId, userId));
+    const duplicateSaves = db
+      .select({ paletteId: saves.paletteId })
+      .from(saves)
+      .where(eq(saves.userId, userId));
 
-    // Increment likes count
-    await db
-      .update(palettes)
-      .set({ likesCount: sql`${palettes.likesCount} + 1` })
-      .where(eq(palettes.id, paletteId));
+    const [, , movedLikes, movedSaves, movedPalettes] = await db.batch([
+      db
+        .delete(likes)
+        .where(
+          and(
+            eq(likes.userId, anon.id),
+            inArray(likes.paletteId, duplicateLikes)
+          )
+        ),
+      db
+        .delete(saves)
+        .where(
+          and(
+            eq(saves.userId, anon.id),
+            inArray(saves.paletteId, duplicateSaves)
+          )
+        ),
+      db
+        .update(likes)
+        .set({ userId })
+        .where(eq(likes.userId, anon.id))
+        .returning({ id: likes.id }),
+      db
+        .update(saves)
+        .set({ userId })
+        .where(eq(saves.userId, anon.id))
+        .returning({ id: saves.id }),
+      db
+        .update(palettes)
+        .set({ userId })
+        .where(eq(palettes.userId, anon.id))
+        .returning({ id: palettes.id }),
+      db
+        .update(paletteRevisions)
+        .set({ userId })
+        .where(eq(paletteRevisions.userId, anon.id)),
+      db
+        .update(palettes)
+        .set({ likesCount: likesCountOf(palettes.id) })
+        .where(inArray(palettes.id, duplicateLikes)),
+      db
+        .update(palettes)
+        .set({ savesCount: savesCountOf(palettes.id) })
+        .where(inArray(palettes.id, duplicateSaves)),
+    ]);
 
-    // Get updated count
-    const [palette] = await db
-      .select({ likesCount: palettes.likesCount })
-      .from(palettes)
-      .where(eq(palettes.id, paletteId))
-      .limit(1);
+    return {
+      palettes: movedPalettes.length,
+      likes: movedLikes.length,
+      saves: movedSaves.length,
+    };
+  }
+
+  /**
+   * Like a palette
+   */
+  async likePalette(userId: string, paletteId: string) {
+    await this.assertNotTrashed(paletteId);
+
+    // The like row and the count recomputed from the likes table are
+    // written in one batch, so they can't disagree
+    const [inserted, [palette]] = await db.batch([
+      db
+        .insert(likes)
+        .values({ userId, paletteId })
+        .onConflictDoNothing()
+        .returning({ id: likes.id }),
+      db
+        .update(palettes)
+        .set({ likesCount: likesCountOf(paletteId) })
+        .where(eq(palettes.id, paletteId))
+        .returning({ likesCount: palettes.likesCount }),
+    ]);
+
+    if (inserted.length === 0) {
+      return { alreadyLiked: true };
+    }
+
+    await webhookService.emit('palette.liked', paletteId);
 
     return { alreadyLiked: false, likesCount: palette?.likesCount ?? 0 };
   }
@@ -303,35 +1166,24 @@ export class PaletteService {
    * Unlike a palette
    */
   async unlikePalette(userId: string, paletteId: string) {
-    // Check if liked
-    const [existing] = await db
-      .select()
-      .from(likes)
-      .where(and(eq(likes.userId, userId), eq(likes.paletteId, paletteId)))
-      .limit(1);
+    await this.assertNotTrashed(paletteId);
 
-    if (!existing) {
+    const [deleted, [palette]] = await db.batch([
+      db
+        .delete(likes)
+        .where(and(eq(likes.userId, userId), eq(likes.paletteId, paletteId)))
+        .returning({ id: likes.id }),
+      db
+        .update(palettes)
+        .set({ likesCount: likesCountOf(paletteId) })
+        .where(eq(palettes.id, paletteId))
+        .returning({ likesCount: palettes.likesCount }),
+    ]);
+
+    if (deleted.length === 0) {
       return { wasLiked: false };
     }
 
-    // Delete like record
-    await db
-      .delete(likes)
-      .where(and(eq(likes.userId, userId), eq(likes.paletteId, paletteId)));
-
-    // Decrement likes count
-    await db
-      .update(palettes)
-      .set({ likesCount: sql`GREATEST(${palettes.likesCount} - 1, 0)` })
-      .where(eq(palettes.id, paletteId));
-
-    // Get updated count
-    const [palette] = await db
-      .select({ likesCount: palettes.likesCount })
-      .from(palettes)
-      .where(eq(palettes.id, paletteId))
-      .limit(1);
-
     return { wasLiked: true, likesCount: palette?.likesCount ?? 0 };
   }
 
@@ -343,7 +1195,7 @@ export class PaletteService {
     const [palette] = await db
       .select({ likesCount: palettes.likesCount })
       .from(palettes)
-      .where(eq(palettes.id, paletteId))
+      .where(and(eq(palettes.id, paletteId), notTrashed))
       .limit(1);
 
     if (!palette) {
@@ -371,16 +1223,17 @@ export class PaletteService {
    * Remix a palette (create a copy)
    */
   async remixPalette(userId: string, paletteId: string) {
+    // Only the owner may remix a private or hidden palette, and nobody a
+    // trashed one
+    await this.assertPaletteVisible(paletteId, userId);
+
     // Get original palette with colors
     const [originalPalette] = await db
       .select()
       .from(palettes)
-      .where(eq(palettes.id, paletteId))
+      .where(and(eq(palettes.id, paletteId), notTrashed))
       .limit(1);
-
-    if (!originalPalette) {
-      throw new NotFoundError('Palette not found');
-    }
+    if (!originalPalette) throw new NotFoundError('Palette not found');
 
     const originalColors = await db
       .select()
@@ -388,63 +1241,125 @@ export class PaletteService {
       .where(eq(colors.paletteId, paletteId))
       .orderBy(asc(colors.position));
 
-    // Create new palette
-    const newPaletteResult = await db
-      .insert(palettes)
-      .values({
-        name: `${originalPalette.name} (Remix)`,
-        description: originalPalette.description,
-        userId,
-        sourceId: originalPalette.id,
-        isPublic: true,
-      })
-      .returning();
-
-    const newPalette = newPaletteResult[0];
-
-    // Copy colors
-    if (originalColors.length > 0) {
-      await db.insert(colors).values(
-        originalColors.map(color => ({
-          paletteId: newPalette.id,
-          hexValue: color.hexValue,
-          position: color.position,
-          name: color.name,
-        }))
-      );
-    }
+    // Create the copy with its colors and first revision in one batch
+    const newPaletteId = randomUUID();
+    const remixColors = originalColors.map(storedColor);
+
+    const [[newPalette]] = await db.batch([
+      db
+        .insert(palettes)
+        .values({
+          id: newPaletteId,
+          name: `${originalPalette.name} (Remix)`,
+          description: originalPalette.description,
+          userId,
+          parentPaletteId: originalPalette.id,
+          remixDepth: originalPalette.remixDepth + 1,
+          colorSignature: colorSignature(originalColors),
+          metadata: originalPalette.metadata,
+          isPublic: true,
+        })
+        .returning(paletteColumns),
+      ...(remixColors.length > 0
+        ? [
+            db
+              .insert(colors)
+              .values(remixColors.map(c => toColorRow(newPaletteId, c))),
+            this.recordRevision(newPaletteId, userId, remixColors, 1),
+          ]
+        : []),
+      this.refreshSearchVector(newPaletteId),
+    ]);
+    await webhookService.emit('palette.remixed', newPalette.id, {
+      sourcePaletteId: originalPalette.id,
+    });
 
     return newPalette;
   }
 
   /**
-   * Browse public palettes with sorting and filtering.
-   * Deduplicates palettes that share the same colors in the same order,
-   * keeping only the earliest-created instance.
+   * Browse public palettes with sorting and filtering, one page at a time.
+   * Pages are keyset-paginated: `nextCursor` encodes the sort key of the last
+   * row, so deep pages neither skip nor repeat palettes. Palettes that share
+   * the same colors in the same order as an earlier public palette are
+   * left out — when filtering by `userId`, only the owner's own earlier
+   * palettes count, so nobody else's copy hides theirs.
    *
-   * Sort modes:
+   * Sort modes (ties broken by createdAt, then id):
    *  - `recent`   – newest first (default)
+   *  - `following` – newest first, limited to palettes by users the viewer
+   *                  follows (requires `viewerUserId`)
    *  - `popular`  – highest likes count first
-   *  - `trending` – time-decayed score: likesCount / (ageHours + 2)^1.5
+   *  - `trending` – stored time-decayed score, likesCount / (ageHours + 2)^1.5,
+   *                 recomputed periodically by refreshTrendingScores()
+   *  - `relevance` – best full-text match for `q` first (ts_rank over the
+   *                  weighted search vector)
    */
   async browsePalettes(options: {
-    sort: 'recent' | 'popular' | 'trending';
+    sort: 'recent' | 'popular' | 'trending' | 'following' | 'relevance';
     userId?: string;
     limit: number;
-    offset: number;
+    /** Decoded cursor from the previous page's `nextCursor`. */
+    cursor?: BrowseCursor;
     viewerUserId?: string | null;
     /** Filter by tag slugs — palettes matching ANY of the given slugs are returned. */
     tags?: string[];
-    /** Case-insensitive substring search across palette name and description. */
+    /**
+     * Full-text search across palette name, tags, description and color
+     * names; every word must match (as a prefix).
+     */
     q?: string;
+    /**
+     * Hex colors (#RRGGBB) to search for. Only palettes containing a close
+     * match for every color are returned, ranked by perceptual similarity
+     * instead of `sort`.
+     */
+    colors?: string[];
   }) {
-    const { sort, userId, limit, offset, viewerUserId } = options;
+    const { sort, userId, limit, cursor, viewerUserId } = options;
+    const emptyPage = { palettes: [], nextCursor: null };
 
     // Build query conditions
-    const conditions = [eq(palettes.isPublic, true)];
+    const conditions = [
+      eq(palettes.isPublic, true),
+      notHiddenFrom(viewerUserId),
+      notTrashed,
+    ];
     if (userId) {
       conditions.push(eq(palettes.userId, userId));
     }
+    if (sort === 'following') {
+      if (!viewerUserId) return emptyPage;
+      conditions.push(
+        inArray(
+          palettes.userId,
+          db
+            .select({ id: follows.followeeId })
+            .from(follows)
+            .where(eq(follows.followerId, viewerUserId))
+        )
+      );
+    }
+    // Hide copies of an earlier public palette with the same colors
+    // (e.g. untouched remixes); indexed via palettes_color_signature_idx
+    const earlier = alias(palettes, 'earlier');
+    conditions.push(
+      notExists(
+        db
+          .select({ id: earlier.id })
+          .from(earlier)
+          .where(
+            and(
+              eq(earlier.colorSignature, palettes.colorSignature),
+              eq(earlier.isPublic, true),
+              isNull(earlier.hiddenAt),
+              isNull(earlier.deletedAt),
+              lt(earlier.createdAt, palettes.createdAt),
+              userId ? eq(earlier.userId, userId) : undefined
+            )
+          )
+      )
+    );
     // For popular sort, only show palettes that have at least one like
     if (sort === 'popular') {
       conditions.push(sql`${palettes.likesCount} > 0`);
@@ -458,7 +1373,7 @@ export class PaletteService {
         .innerJoin(tagsTable, eq(paletteTags.tagId, tagsTable.id))
         .where(inArray(tagsTable.slug, options.tags));
 
-      if (taggedRows.length === 0) return [];
+      if (taggedRows.length === 0) return emptyPage;
       conditions.push(
         inArray(
           palettes.id,
@@ -467,50 +1382,156 @@ export class PaletteService {
       );
     }
 
-    // Text search across name and description
-    if (options.q) {
-      const pattern = `%${options.q}%`;
-      const searchCond = or(
-        ilike(palettes.name, pattern),
-        ilike(palettes.description, pattern)
-      );
-      if (searchCond) conditions.push(searchCond);
+    // Full-text search across name, tags, description and color names,
+    // matching each word as a prefix
+    const tsQuery = options.q ? toPrefixTsQuery(options.q) : null;
+    if (tsQuery) {
+      conditions.push(sql`${palettes.searchVector} @@ ${tsQuery}`);
     }
 
-    // Build order by — trending re-ranks in application code so fetch by recency first
-    const orderBy =
-      sort === 'popular'
-        ? [desc(palettes.likesCount), desc(palettes.createdAt)]
-        : [desc(palettes.createdAt)];
+    // Color similarity: rank candidates by OKLab distance to the query colors
+    let colorScores: Map<string, number> | null = null;
+    if (options.colors && options.colors.length > 0) {
+      colorScores = await this.rankPalettesByColor(options.colors);
+      if (colorScores.size === 0) return emptyPage;
+      conditions.push(inArray(palettes.id, [...colorScores.keys()]));
+    }
 
     // Clamp limit to a safe ceiling (routes should already clamp, belt & braces)
     const safeLimit = Math.min(Math.max(1, limit), 50);
-    const safeOffset = Math.max(0, offset);
 
-    // Fetch moderately more than requested to account for post-dedup removal,
-    // but never an unbounded amount.  Capped at 100 rows.
-    const fetchLimit = Math.min(safeLimit * 2, 100);
+    const relevanceRank = tsQuery
+      ? sql<number>`ts_rank(${palettes.searchVector}, ${tsQuery})::float8`
+      : sql<number>`0::float8`;
+
+    const selection = {
+      id: palettes.id,
+      name: palettes.name,
+      description: palettes.description,
+      userId: palettes.userId,
+      isPublic: palettes.isPublic,
+      likesCount: palettes.likesCount,
+      savesCount: palettes.savesCount,
+      commentsCount: palettes.commentsCount,
+      createdAt: palettes.createdAt,
+      // Exact sort keys for building the next cursor
+      cursorCreatedAt: sql<string>`${palettes.createdAt}::text`,
+      cursorScore: (sort === 'trending'
+        ? sql<number>`${palettes.trendingScore}`
+        : sort === 'relevance'
+          ? relevanceRank
+          : sql<number>`0`
+      ).mapWith(Number),
+    };
 
-    const paletteResults = await db
-      .select({
-        id: palettes.id,
-        name: palettes.name,
-        description: palettes.description,
-        userId: palettes.userId,
-        isPublic: palettes.isPublic,
-        likesCount: palettes.likesCount,
-        savesCount: palettes.savesCount,
-        createdAt: palettes.createdAt,
-      })
-      .from(palettes)
-      .where(and(...conditions))
-      .orderBy(...orderBy)
-      .limit(fetchLimit);
+    const selectRows = () =>
+      db
+        .select(selection)
+        .from(palettes)
+        .where(and(...conditions))
+        .$dynamic();
+
+    let pageRows: Awaited<ReturnType<typeof selectRows>>;
+    let nextCursor: string | null = null;
+
+    if (colorScores) {
+      // Color search ranks its (bounded) candidate set in application code,
+      // so its cursor is simply an offset into that ranking.
+      const scores = colorScores;
+      const ranked = (await selectRows()).sort(
+        (a, b) => scores.get(a.id)! - scores.get(b.id)!
+      );
+      const offset = cursor?.sort === 'color' ? cursor.offset : 0;
+      pageRows = ranked.slice(offset, offset + safeLimit);
+      if (offset + safeLimit < ranked.length) {
+        nextCursor = encodeCursor({
+          sort: 'color',
+          offset: offset + safeLimit,
+        });
+      }
+    } else {
+      let orderBy;
+      if (sort === 'popular') {
+        if (cursor?.sort === 'popular') {
+          conditions.push(
+            sql`(${palettes.likesCount}, ${palettes.createdAt}, ${palettes.id}) < (${cursor.likesCount}, ${cursor.createdAt}::timestamp, ${cursor.id}::uuid)`
+          );
+        }
+        orderBy = [
+          desc(palettes.likesCount),
+          desc(palettes.createdAt),
+          desc(palettes.id),
+        ];
+      } else if (sort === 'trending') {
+        if (cursor?.sort === 'trending') {
+          conditions.push(
+            sql`(${palettes.trendingScore}, ${palettes.createdAt}, ${palettes.id}) < (${cursor.score}::float8, ${cursor.createdAt}::timestamp, ${cursor.id}::uuid)`
+          );
+        }
+        orderBy = [
+          desc(palettes.trendingScore),
+          desc(palettes.createdAt),
+          desc(palettes.id),
+        ];
+      } else if (sort === 'relevance') {
+        if (cursor?.sort === 'relevance') {
+          conditions.push(
+            sql`(${relevanceRank}, ${palettes.createdAt}, ${palettes.id}) < (${cursor.rank}::float8, ${cursor.createdAt}::timestamp, ${cursor.id}::uuid)`
+          );
+        }
+        orderBy = [
+          desc(relevanceRank),
+          desc(palettes.createdAt),
+          desc(palettes.id),
+        ];
+      } else {
+        if (cursor?.sort === 'recent' || cursor?.sort === 'following') {
+          conditions.push(
+            sql`(${palettes.createdAt}, ${palettes.id}) < (${cursor.createdAt}::timestamp, ${cursor.id}::uuid)`
+          );
+        }
+        orderBy = [desc(palettes.createdAt), desc(palettes.id)];
+      }
 
-    if (paletteResults.length === 0) return [];
+      // Fetch one extra row to learn whether another page exists
+      const rows = await selectRows()
+        .orderBy(...orderBy)
+        .limit(safeLimit + 1);
+      pageRows = rows.slice(0, safeLimit);
+
+      const last = pageRows[pageRows.length - 1];
+      if (rows.length > safeLimit && last) {
+        nextCursor = encodeCursor(
+          sort === 'popular'
+            ? {
+                sort,
+                likesCount: last.likesCount,
+                createdAt: last.cursorCreatedAt,
+                id: last.id,
+              }
+            : sort === 'trending'
+              ? {
+                  sort,
+                  score: last.cursorScore,
+                  createdAt: last.cursorCreatedAt,
+                  id: last.id,
+                }
+              : sort === 'relevance'
+                ? {
+                    sort,
+                    rank: last.cursorScore,
+                    createdAt: last.cursorCreatedAt,
+                    id: last.id,
+                  }
+                : { sort, createdAt: last.cursorCreatedAt, id: last.id }
+        );
+      }
+    }
+
+    if (pageRows.length === 0) return emptyPage;
 
     // Batch-fetch all colors in a single query instead of N+1
-    const paletteIds = paletteResults.map(p => p.id);
+    const paletteIds = pageRows.map(p => p.id);
     const allColors = await db
       .select({
         id: colors.id,
@@ -546,8 +1567,19 @@ export class PaletteService {
       likedPaletteIds = new Set(userLikes.map(l => l.paletteId));
     }
 
-    const palettesWithColors = paletteResults.map(palette => ({
-      ...palette,
+    const authors = await this.getAuthorSummaries(pageRows.map(p => p.userId));
+
+    const page = pageRows.map(palette => ({
+      id: palette.id,
+      name: palette.name,
+      description: palette.description,
+      userId: palette.userId,
+      author: authors.get(palette.userId) ?? null,
+      isPublic: palette.isPublic,
+      likesCount: palette.likesCount,
+      savesCount: palette.savesCount,
+      commentsCount: palette.commentsCount,
+      createdAt: palette.createdAt,
       colors: (colorsByPalette.get(palette.id) || []).map(c => ({
         id: c.id,
         hexValue: c.hexValue,
@@ -557,137 +1589,640 @@ export class PaletteService {
       userLiked: likedPaletteIds.has(palette.id),
     }));
 
-    // Deduplicate: build a color signature from ordered hex values.
-    const seen = new Set<string>();
-    const deduplicated = palettesWithColors.filter(palette => {
-      const colorSignature = palette.colors
-        .map(c => c.hexValue.toUpperCase())
-        .join(',');
-      if (seen.has(colorSignature)) {
-        return false;
-      }
-      seen.add(colorSignature);
-      return true;
+    return { palettes: page, nextCursor };
+  }
+
+  /**
+   * Score public palettes against a set of query colors. For each query
+   * color a palette's distance is that of its closest color in OKLab; only
+   * palettes with a match within COLOR_MATCH_DISTANCE for every query color
+   * are kept. Returns palette id → summed distance, best matches first.
+   * Hidden and trashed palettes are left out here, before the candidate
+   * limit, so they can't crowd out palettes browse would show.
+   */
+  private async rankPalettesByColor(hexColors: string[]) {
+    const queryColors = sql.join(
+      hexColors.map((hex, index) => {
+        const lab = hexToOklab(hex);
+        return sql`(${index}::int, ${lab.l}::real, ${lab.a}::real, ${lab.b}::real)`;
+      }),
+      sql`, `
+    );
+    const d = COLOR_MATCH_DISTANCE;
+
+    // The bounding-box predicates let the planner use colors_oklab_idx
+    const result = await db.execute<{ palette_id: string; score: number }>(sql`
+      select m.palette_id, sum(m.distance) as score
+      from (
+        select ${colors.paletteId} as palette_id, q.idx,
+          min(sqrt(
+            power(${colors.oklabL} - q.l, 2) +
+            power(${colors.oklabA} - q.a, 2) +
+            power(${colors.oklabB} - q.b, 2)
+          )) as distance
+        from ${colors}
+        join (values ${queryColors}) as q(idx, l, a, b)
+          on ${colors.oklabL} between q.l - ${d} and q.l + ${d}
+          and ${colors.oklabA} between q.a - ${d} and q.a + ${d}
+          and ${colors.oklabB} between q.b - ${d} and q.b + ${d}
+        group by ${colors.paletteId}, q.idx
+      ) m
+      join ${palettes} on ${palettes.id} = m.palette_id
+      where ${palettes.isPublic} = true
+        and ${palettes.hiddenAt} is null
+        and ${palettes.deletedAt} is null
+        and m.distance <= ${d}
+      group by m.palette_id
+      having count(*) = ${hexColors.length}
+      order by score
+      limit ${MAX_COLOR_CANDIDATES}
+    `);
+
+    return new Map(result.rows.map(r => [r.palette_id, Number(r.score)]));
+  }
+
+  /**
+   * Get palettes for a specific user
+   */
+  async getUserPalettes(
+    userId: string,
+    options: { limit: number; offset: number }
+  ) {
+    const limit = Math.min(Math.max(1, options.limit), 50);
+    const offset = Math.max(0, options.offset);
+
+    const paletteResults = await db
+      .select({
+        id: palettes.id,
+        name: palettes.name,
+        description: palettes.description,
+        userId: palettes.userId,
+        isPublic: palettes.isPublic,
+        likesCount: palettes.likesCount,
+        savesCount: palettes.savesCount,
+        commentsCount: palettes.commentsCount,
+        createdAt: palettes.createdAt,
+      })
+      .from(palettes)
+      .where(and(eq(palettes.userId, userId), notTrashed))
+      .orderBy(desc(palettes.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return this.withColors(paletteResults);
+  }
+
+  /**
+   * List a user's trashed palettes, most recently deleted first, with the
+   * time each will be purged.
+   */
+  async getTrashedPalettes(
+    userId: string,
+    options: { limit: number; offset: number }
+  ) {
+    const limit = Math.min(Math.max(1, options.limit), 50);
+    const offset = Math.max(0, options.offset);
+
+    const paletteResults = await db
+      .select({
+        id: palettes.id,
+        name: palettes.name,
+        description: palettes.description,
+        userId: palettes.userId,
+        isPublic: palettes.isPublic,
+        likesCount: palettes.likesCount,
+        savesCount: palettes.savesCount,
+        commentsCount: palettes.commentsCount,
+        createdAt: palettes.createdAt,
+        deletedAt: palettes.deletedAt,
+      })
+      .from(palettes)
+      .where(and(eq(palettes.userId, userId), isNotNull(palettes.deletedAt)))
+      .orderBy(desc(palettes.deletedAt), desc(palettes.id))
+      .limit(limit)
+      .offset(offset);
+
+    return (await this.withColors(paletteResults)).map(palette => ({
+      ...palette,
+      purgeAt: new Date(palette.deletedAt!.getTime() + TRASH_RETENTION_MS),
+    }));
+  }
+
+  /** Attach each palette's colors, in position order, in one query. */
+  private async withColors<T extends { id: string }>(paletteResults: T[]) {
+    if (paletteResults.length === 0) return [];
+
+    const paletteIds = paletteResults.map(p => p.id);
+    const allColors = await db
+      .select({
+        id: colors.id,
+        paletteId: colors.paletteId,
+        hexValue: colors.hexValue,
+        position: colors.position,
+        name: colors.name,
+      })
+      .from(colors)
+      .where(inArray(colors.paletteId, paletteIds))
+      .orderBy(asc(colors.position));
+
+    const colorsByPalette = new Map<string, typeof allColors>();
+    for (const c of allColors) {
+      const arr = colorsByPalette.get(c.paletteId) || [];
+      arr.push(c);
+      colorsByPalette.set(c.paletteId, arr);
+    }
+
+    return paletteResults.map(palette => ({
+      ...palette,
+      colors: (colorsByPalette.get(palette.id) || []).map(c => ({
+        id: c.id,
+        hexValue: c.hexValue,
+        position: c.position,
+        name: c.name,
+      })),
+    }));
+  }
+
+  /**
+   * Update the colors of a palette owned by the given user.
+   * Replaces all existing colors with the provided set and records the
+   * result as a new revision so earlier versions can be restored.
+   */
+  async updatePaletteColors(
+    userId: string,
+    paletteId: string,
+    newColors: RevisionColor[]
+  ) {
+    const [palette] = await db
+      .select({ id: palettes.id, userId: palettes.userId })
+      .from(palettes)
+      .where(
+        and(eq(palettes.id, paletteId), eq(palettes.userId, userId), notTrashed)
+      )
+      .limit(1);
+
+    if (!palette) {
+      throw new NotFoundError('Palette not found or not owned by user');
+    }
+
+    const [latest] = await db
+      .select({
+        revision:
+          sql<number>`coalesce(max(${paletteRevisions.revision}), 0)`.mapWith(
+            Number
+          ),
+      })
+      .from(paletteRevisions)
+      .where(eq(paletteRevisions.paletteId, paletteId));
+    let nextRevision = (latest?.revision ?? 0) + 1;
+
+    // Palettes created before revisions existed have no history yet —
+    // snapshot the current colors first so the edit can be undone.
+    const snapshot = [];
+    if (nextRevision === 1) {
+      const currentColors = await db
+        .select({
+          hexValue: colors.hexValue,
+          position: colors.position,
+          name: colors.name,
+          role: colors.role,
+          oklchL: colors.oklchL,
+          oklchC: colors.oklchC,
+          oklchH: colors.oklchH,
+        })
+        .from(colors)
+        .where(eq(colors.paletteId, paletteId))
+        .orderBy(asc(colors.position));
+      if (currentColors.length > 0) {
+        snapshot.push(
+          this.recordRevision(
+            paletteId,
+            palette.userId,
+            currentColors.map(storedColor),
+            nextRevision++
+          )
+        );
+      }
+    }
+
+    // Swap the colors in one batch: a failure can't leave the palette
+    // without colors or with colors its revision history doesn't match
+    const [[revision]] = await db.batch([
+      this.recordRevision(paletteId, userId, newColors, nextRevision),
+      ...[
+        ...snapshot,
+        db.delete(colors).where(eq(colors.paletteId, paletteId)),
+        ...(newColors.length > 0
+          ? [
+              db
+                .insert(colors)
+                .values(newColors.map(c => toColorRow(paletteId, c))),
+            ]
+          : []),
+      ],
+      db
+        .update(palettes)
+        .set({
+          colorSignature: colorSignature(newColors),
+          searchVector: searchVectorOf,
+          updatedAt: new Date(),
+        })
+        .where(eq(palettes.id, paletteId)),
+    ]);
+    await webhookService.emit('palette.updated', paletteId, {
+      changes: ['colors'],
+    });
+
+    return { updated: true, revision: revision.revision };
+  }
+
+  /**
+   * Update a palette's name, description, visibility and/or tags.
+   * Only fields present in `input` are changed; `tags` replaces the full set.
+   */
+  async updatePalette(
+    userId: string,
+    paletteId: string,
+    input: UpdatePaletteInput
+  ) {
+    const [palette] = await db
+      .select({ id: palettes.id })
+      .from(palettes)
+      .where(
+        and(eq(palettes.id, paletteId), eq(palettes.userId, userId), notTrashed)
+      )
+      .limit(1);
+
+    if (!palette) {
+      throw new NotFoundError('Palette not found or not owned by user');
+    }
+
+    const [updated] = await db
+      .update(palettes)
+      .set({
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.description !== undefined && {
+          description: input.description || null,
+        }),
+        ...(input.isPublic !== undefined && { isPublic: input.isPublic }),
+        updatedAt: new Date(),
+      })
+      .where(eq(palettes.id, paletteId))
+      .returning({
+        id: palettes.id,
+        name: palettes.name,
+        description: palettes.description,
+        isPublic: palettes.isPublic,
+        updatedAt: palettes.updatedAt,
+      });
+
+    const paletteTagList =
+      input.tags !== undefined
+        ? await this.setPaletteTags(paletteId, input.tags)
+        : await this.getPaletteTags(paletteId);
+    await this.refreshSearchVector(paletteId);
+    await webhookService.emit('palette.updated', paletteId, {
+      changes: Object.keys(input).filter(
+        key => input[key as keyof UpdatePaletteInput] !== undefined
+      ),
     });
 
-    // Trending re-rank: score = likesCount / (ageHours + 2)^1.5
-    // Keeps popular-but-fresh content above old viral palettes.
-    if (sort === 'trending') {
-      const now = Date.now();
-      deduplicated.sort((a, b) => {
-        const ageA = (now - a.createdAt.getTime()) / 3_600_000;
-        const ageB = (now - b.createdAt.getTime()) / 3_600_000;
-        const scoreA = a.likesCount / Math.pow(ageA + 2, 1.5);
-        const scoreB = b.likesCount / Math.pow(ageB + 2, 1.5);
-        return scoreB - scoreA;
-      });
+    return { ...updated, tags: paletteTagList };
+  }
+
+  /**
+   * Tags attached to a palette, alphabetically.
+   */
+  private async getPaletteTags(paletteId: string) {
+    return db
+      .select({ id: tagsTable.id, name: tagsTable.name, slug: tagsTable.slug })
+      .from(paletteTags)
+      .innerJoin(tagsTable, eq(paletteTags.tagId, tagsTable.id))
+      .where(eq(paletteTags.paletteId, paletteId))
+      .orderBy(asc(tagsTable.name));
+  }
+
+  /**
+   * Replace a palette's tags with the named set: missing tags are created,
+   * links not in the set are removed and new links are added.
+   */
+  private async setPaletteTags(paletteId: string, names: string[]) {
+    const ensured =
+      names.length > 0
+        ? await this.ensureTags({
+            tags: names.map(name => ({ name, slug: tagSlug(name) })),
+          })
+        : [];
+    const tagIds = ensured.flatMap(tag => (tag ? [tag.id] : []));
+
+    await db
+      .delete(paletteTags)
+      .where(
+        and(
+          eq(paletteTags.paletteId, paletteId),
+          tagIds.length > 0 ? notInArray(paletteTags.tagId, tagIds) : undefined
+        )
+      );
+
+    if (tagIds.length > 0) {
+      await db
+        .insert(paletteTags)
+        .values(tagIds.map(tagId => ({ paletteId, tagId })))
+        .onConflictDoNothing();
     }
 
-    // Apply offset and limit after deduplication
-    return deduplicated.slice(safeOffset, safeOffset + safeLimit);
+    // Browse filters read the tag list from the cache
+    tagsCache = null;
+
+    return this.getPaletteTags(paletteId);
   }
 
   /**
-   * Get palettes for a specific user
+   * Recompute a palette's full-text search document after its name,
+   * description, tags or colors change.
    */
-  async getUserPalettes(
+  private refreshSearchVector(paletteId: string) {
+    return db
+      .update(palettes)
+      .set({ searchVector: searchVectorOf })
+      .where(eq(palettes.id, paletteId));
+  }
+
+  /**
+   * Append an immutable revision snapshot for a palette.
+   * Revision numbers start at 1 and increase by one per palette; the caller
+   * picks the next number, and the unique (palette, revision) index turns
+   * a concurrent edit that picked the same one into a failed batch.
+   * Returns the statement so it can run inside the caller's batch.
+   */
+  private recordRevision(
+    paletteId: string,
     userId: string,
-    options: { limit: number; offset: number }
+    revisionColors: RevisionColor[],
+    revision: number
   ) {
-    const limit = Math.min(Math.max(1, options.limit), 50);
-    const offset = Math.max(0, options.offset);
+    return db
+      .insert(paletteRevisions)
+      .values({
+        paletteId,
+        revision,
+        colors: revisionColors.map(c => ({
+          hexValue: c.hexValue,
+          position: c.position,
+          name: c.name,
+          role: c.role ?? null,
+          oklch: c.oklch ?? null,
+        })),
+        userId,
+      })
+      .returning({
+        id: paletteRevisions.id,
+        revision: paletteRevisions.revision,
+        createdAt: paletteRevisions.createdAt,
+      });
+  }
 
-    const paletteResults = await db
+  /**
+   * Throw NotFoundError unless the palette exists and the viewer may see it
+   * (public palettes that aren't hidden, or any palette owned by the viewer).
+   * Returns the palette's owner and visibility.
+   */
+  async assertPaletteVisible(paletteId: string, viewerUserId: string | null) {
+    const [palette] = await db
       .select({
-        id: palettes.id,
-        name: palettes.name,
-        description: palettes.description,
         userId: palettes.userId,
         isPublic: palettes.isPublic,
-        likesCount: palettes.likesCount,
-        savesCount: palettes.savesCount,
-        createdAt: palettes.createdAt,
+        hiddenAt: palettes.hiddenAt,
       })
       .from(palettes)
-      .where(eq(palettes.userId, userId))
-      .orderBy(desc(palettes.createdAt))
-      .limit(limit)
-      .offset(offset);
+      .where(and(eq(palettes.id, paletteId), notTrashed))
+      .limit(1);
 
-    if (paletteResults.length === 0) return [];
+    if (
+      !palette ||
+      ((!palette.isPublic || palette.hiddenAt) &&
+        palette.userId !== viewerUserId)
+    ) {
+      throw new NotFoundError('Palette not found');
+    }
+    return palette;
+  }
 
-    // Batch-fetch all colors in a single query
-    const paletteIds = paletteResults.map(p => p.id);
-    const allColors = await db
+  /**
+   * List all revisions of a palette, newest first.
+   */
+  async getPaletteRevisions(paletteId: string, viewerUserId: string | null) {
+    await this.assertPaletteVisible(paletteId, viewerUserId);
+
+    return db
       .select({
-        id: colors.id,
-        paletteId: colors.paletteId,
-        hexValue: colors.hexValue,
-        position: colors.position,
-        name: colors.name,
+        id: paletteRevisions.id,
+        revision: paletteRevisions.revision,
+        colors: paletteRevisions.colors,
+        userId: paletteRevisions.userId,
+        createdAt: paletteRevisions.createdAt,
       })
-      .from(colors)
-      .where(inArray(colors.paletteId, paletteIds))
-      .orderBy(asc(colors.position));
+      .from(paletteRevisions)
+      .where(eq(paletteRevisions.paletteId, paletteId))
+      .orderBy(desc(paletteRevisions.revision));
+  }
 
-    const colorsByPalette = new Map<string, typeof allColors>();
-    for (const c of allColors) {
-      const arr = colorsByPalette.get(c.paletteId) || [];
-      arr.push(c);
-      colorsByPalette.set(c.paletteId, arr);
+  /**
+   * Get a single revision of a palette by its revision number.
+   */
+  async getPaletteRevision(
+    paletteId: string,
+    revision: number,
+    viewerUserId: string | null
+  ) {
+    await this.assertPaletteVisible(paletteId, viewerUserId);
+
+    const [row] = await db
+      .select({
+        id: paletteRevisions.id,
+        revision: paletteRevisions.revision,
+        colors: paletteRevisions.colors,
+        userId: paletteRevisions.userId,
+        createdAt: paletteRevisions.createdAt,
+      })
+      .from(paletteRevisions)
+      .where(
+        and(
+          eq(paletteRevisions.paletteId, paletteId),
+          eq(paletteRevisions.revision, revision)
+        )
+      )
+      .limit(1);
+
+    if (!row) {
+      throw new NotFoundError('Revision not found');
     }
 
-    return paletteResults.map(palette => ({
+    return row;
+  }
+
+  /**
+   * Restore a palette owned by the given user to an earlier revision.
+   * The restore itself is recorded as a new revision, so history is never
+   * rewritten.
+   */
+  async restorePaletteRevision(
+    userId: string,
+    paletteId: string,
+    revision: number
+  ) {
+    const target = await this.getPaletteRevision(paletteId, revision, userId);
+    const result = await this.updatePaletteColors(
+      userId,
+      paletteId,
+      target.colors
+    );
+    return { restoredFrom: revision, revision: result.revision };
+  }
+
+  /**
+   * Get the ancestors of a palette, nearest parent first. Each entry carries
+   * its `distance` from the palette (1 = direct parent). Ancestors the viewer
+   * can't see are left out; the chain stops at the original palette.
+   */
+  async getPaletteLineage(paletteId: string, viewerUserId: string | null) {
+    await this.assertPaletteVisible(paletteId, viewerUserId);
+
+    const result = await db.execute<{ id: string; distance: number }>(sql`
+      with recursive ancestors as (
+        select ${palettes.id} as id, ${palettes.parentPaletteId} as parent_id, 0 as distance
+        from ${palettes}
+        where ${palettes.id} = ${paletteId}
+        union all
+        select p.id, p.parent_palette_id, a.distance + 1
+        from ${palettes} p
+        join ancestors a on p.id = a.parent_id
+        where a.distance < ${MAX_LINEAGE_DEPTH}
+      )
+      select id, distance from ancestors where distance > 0 order by distance
+    `);
+
+    const distances = new Map(result.rows.map(r => [r.id, Number(r.distance)]));
+    const ancestors = await this.getPalettesByIds(
+      [...distances.keys()],
+      viewerUserId
+    );
+
+    return ancestors.map(palette => ({
       ...palette,
-      colors: (colorsByPalette.get(palette.id) || []).map(c => ({
-        id: c.id,
-        hexValue: c.hexValue,
-        position: c.position,
-        name: c.name,
-      })),
+      distance: distances.get(palette.id)!,
     }));
   }
 
   /**
-   * Update the colors of a palette owned by the given user.
-   * Replaces all existing colors with the provided set.
+   * Get the remixes of a palette as a flat list in breadth-first order.
+   * Each entry carries its `parentPaletteId` and `depth` below the palette
+   * (1 = direct remix) so callers can rebuild the tree. Remixes the viewer
+   * can't see are left out, along with everything beneath them.
    */
-  async updatePaletteColors(
-    userId: string,
+  async getPaletteRemixes(
     paletteId: string,
-    newColors: Array<{ hexValue: string; position: number; name: string }>
+    viewerUserId: string | null,
+    maxDepth = 3
   ) {
+    await this.assertPaletteVisible(paletteId, viewerUserId);
+
+    const result = await db.execute<{
+      id: string;
+      parent_id: string;
+      depth: number;
+    }>(sql`
+      with recursive descendants as (
+        select ${palettes.id} as id, ${palettes.parentPaletteId} as parent_id, 1 as depth, ${palettes.createdAt} as created_at
+        from ${palettes}
+        where ${palettes.parentPaletteId} = ${paletteId}
+        union all
+        select p.id, p.parent_palette_id, d.depth + 1, p.created_at
+        from ${palettes} p
+        join descendants d on p.parent_palette_id = d.id
+        where d.depth < ${maxDepth}
+      )
+      select id, parent_id, depth from descendants
+      order by depth, created_at
+      limit ${MAX_REMIX_TREE_SIZE}
+    `);
+
+    const nodes = new Map(
+      result.rows.map(r => [
+        r.id,
+        { parentPaletteId: r.parent_id, depth: Number(r.depth) },
+      ])
+    );
+    const remixes = await this.getPalettesByIds(
+      [...nodes.keys()],
+      viewerUserId
+    );
+
+    // Drop remixes whose parent was filtered out so the tree stays connected
+    const reachable = new Set<string>([paletteId]);
+    const tree = [];
+    for (const palette of remixes) {
+      const node = nodes.get(palette.id)!;
+      if (!reachable.has(node.parentPaletteId)) continue;
+      reachable.add(palette.id);
+      tree.push({ ...palette, ...node });
+    }
+    return tree;
+  }
+
+  /**
+   * Get a palette by ID with its colors. Callers enforce visibility:
+   * private or hidden palettes are for their owner only.
+   */
+  async getPaletteById(paletteId: string) {
     const [palette] = await db
-      .select({ id: palettes.id, userId: palettes.userId })
+      .select(paletteViewColumns)
       .from(palettes)
-      .where(and(eq(palettes.id, paletteId), eq(palettes.userId, userId)))
+      .where(and(eq(palettes.id, paletteId), notTrashed))
       .limit(1);
 
     if (!palette) {
-      throw new NotFoundError('Palette not found or not owned by user');
+      return null;
     }
 
-    await db.delete(colors).where(eq(colors.paletteId, paletteId));
+    const paletteColors = await db
+      .select({
+        id: colors.id,
+        hexValue: colors.hexValue,
+        position: colors.position,
+        name: colors.name,
+        role: colors.role,
+        oklchL: colors.oklchL,
+        oklchC: colors.oklchC,
+        oklchH: colors.oklchH,
+      })
+      .from(colors)
+      .where(eq(colors.paletteId, palette.id))
+      .orderBy(asc(colors.position));
 
-    if (newColors.length > 0) {
-      await db.insert(colors).values(
-        newColors.map(c => ({
-          paletteId,
-          hexValue: c.hexValue,
-          position: c.position,
-          name: c.name,
-        }))
-      );
-    }
+    const authors = await this.getAuthorSummaries([palette.userId]);
 
-    return { updated: true };
+    return {
+      ...palette,
+      author: authors.get(palette.userId) ?? null,
+      colors: paletteColors.map(row => ({ id: row.id, ...storedColor(row) })),
+      tags: await this.getPaletteTags(palette.id),
+    };
   }
 
   /**
-   * Get a palette by ID with its colors
+   * Fetch several palettes with their colors and the viewer's like status,
+   * preserving the order of `paletteIds`. Private palettes are only returned
+   * to their owner; ids that don't resolve are silently dropped.
    */
-  async getPaletteById(paletteId: string) {
-    const [palette] = await db
+  async getPalettesByIds(paletteIds: string[], viewerUserId: string | null) {
+    if (paletteIds.length === 0) return [];
+
+    const visibility = viewerUserId
+      ? or(eq(palettes.isPublic, true), eq(palettes.userId, viewerUserId))
+      : eq(palettes.isPublic, true);
+
+    const paletteResults = await db
       .select({
         id: palettes.id,
         name: palettes.name,
@@ -696,32 +2231,75 @@ export class PaletteService {
         isPublic: palettes.isPublic,
         likesCount: palettes.likesCount,
         savesCount: palettes.savesCount,
+        commentsCount: palettes.commentsCount,
         createdAt: palettes.createdAt,
       })
       .from(palettes)
-      .where(eq(palettes.id, paletteId))
-      .limit(1);
+      .where(
+        and(
+          inArray(palettes.id, paletteIds),
+          visibility,
+          notHiddenFrom(viewerUserId),
+          notTrashed
+        )
+      );
 
-    if (!palette) {
-      return null;
-    }
+    if (paletteResults.length === 0) return [];
 
-    const paletteColors = await db
+    const paletteMap = new Map(paletteResults.map(p => [p.id, p]));
+    const ordered = paletteIds
+      .map(id => paletteMap.get(id))
+      .filter((p): p is NonNullable<typeof p> => p !== undefined);
+    const orderedIds = ordered.map(p => p.id);
+
+    const allColors = await db
       .select({
         id: colors.id,
+        paletteId: colors.paletteId,
         hexValue: colors.hexValue,
         position: colors.position,
         name: colors.name,
       })
       .from(colors)
-      .where(eq(colors.paletteId, palette.id))
+      .where(inArray(colors.paletteId, orderedIds))
       .orderBy(asc(colors.position));
 
-    return {
+    const colorsByPalette = new Map<string, typeof allColors>();
+    for (const c of allColors) {
+      const arr = colorsByPalette.get(c.paletteId) ?? [];
+      arr.push(c);
+      colorsByPalette.set(c.paletteId, arr);
+    }
+
+    let likedPaletteIds = new Set<string>();
+    if (viewerUserId) {
+      const userLikes = await db
+        .select({ paletteId: likes.paletteId })
+        .from(likes)
+        .where(
+          and(
+            eq(likes.userId, viewerUserId),
+            inArray(likes.paletteId, orderedIds)
+          )
+        );
+      likedPaletteIds = new Set(userLikes.map(l => l.paletteId));
+    }
+
+    const authors = await this.getAuthorSummaries(ordered.map(p => p.userId));
+
+    return ordered.map(palette => ({
       ...palette,
-      colors: paletteColors,
-    };
+      author: authors.get(palette.userId) ?? null,
+      colors: (colorsByPalette.get(palette.id) ?? []).map(c => ({
+        id: c.id,
+        hexValue: c.hexValue,
+        position: c.position,
+        name: c.name,
+      })),
+      userLiked: likedPaletteIds.has(palette.id),
+    }));
   }
+
   async ensureTags(input: EnsureTagsInput) {
     const normalized = Array.from(
       new Map(
@@ -794,6 +2372,125 @@ export class PaletteService {
     return rows;
   }
 
+  /**
+   * Recompute every palette's stored trending score against the current
+   * time. Palettes without likes score 0 and are skipped unless they still
+   * carry an old score. Run periodically by the refresh-trending job.
+   */
+  async refreshTrendingScores() {
+    const result = await db
+      .update(palettes)
+      .set({
+        trendingScore: sql`${palettes.likesCount}::float8 / power(extract(epoch from localtimestamp - ${palettes.createdAt}) / 3600 + 2, 1.5)`,
+      })
+      .where(
+        or(sql`${palettes.likesCount} > 0`, ne(palettes.trendingScore, 0))
+      );
+
+    return { refreshed: result.rowCount ?? 0 };
+  }
+
+  /**
+   * Recompute likesCount, savesCount and commentsCount from the likes, saves
+   * and comments tables and correct palettes whose stored counters have
+   * drifted. Reports the
+   * drifted palettes (up to 100) with their stored and actual counts.
+   * Run periodically by the reconcile-counters job.
+   */
+  async reconcileCounters() {
+    const actualLikes = likesCountOf(palettes.id);
+    const actualSaves = savesCountOf(palettes.id);
+    const actualComments = commentsCountOf(palettes.id);
+
+    const drifted = await db
+      .select({
+        id: palettes.id,
+        likesCount: palettes.likesCount,
+        actualLikes,
+        savesCount: palettes.savesCount,
+        actualSaves,
+        commentsCount: palettes.commentsCount,
+        actualComments,
+      })
+      .from(palettes)
+      .where(
+        or(
+          ne(palettes.likesCount, actualLikes),
+          ne(palettes.savesCount, actualSaves),
+          ne(palettes.commentsCount, actualComments)
+        )
+      );
+
+    if (drifted.length > 0) {
+      // Recomputed again rather than taken from the rows above, so likes
+      // made since the check don't put the counters out of date
+      await db
+        .update(palettes)
+        .set({
+          likesCount: actualLikes,
+          savesCount: actualSaves,
+          commentsCount: actualComments,
+        })
+        .where(
+          inArray(
+            palettes.id,
+            drifted.map(palette => palette.id)
+          )
+        );
+      console.warn(
+        `Corrected like/save/comment counters on ${drifted.length} palette(s)`
+      );
+    }
+
+    return {
+      corrected: drifted.length,
+      palettes: drifted.slice(0, 100).map(palette => ({
+        id: palette.id,
+        likesCount: { stored: palette.likesCount, actual: palette.actualLikes },
+        savesCount: { stored: palette.savesCount, actual: palette.actualSaves },
+        commentsCount: {
+          stored: palette.commentsCount,
+          actual: palette.actualComments,
+        },
+      })),
+    };
+  }
+
+  /**
+   * Type-ahead suggestions for the search box: tags whose name or slug
+   * starts with the text, and the most-liked public palettes matching it.
+   */
+  async getSearchSuggestions(text: string) {
+    const needle = text.trim().toLowerCase();
+    const tags = (await this.getAllTags())
+      .filter(
+        tag =>
+          tag.name.toLowerCase().startsWith(needle) ||
+          tag.slug.startsWith(needle)
+      )
+      .slice(0, 5)
+      .map(tag => ({ id: tag.id, name: tag.name, slug: tag.slug }));
+
+    const tsQuery = toPrefixTsQuery(text);
+    const paletteMatches = tsQuery
+      ? await db
+          .select({ id: palettes.id, name: palettes.name })
+          .from(palettes)
+          .where(
+            and(
+              eq(palettes.isPublic, true),
+              isNull(palettes.hiddenAt),
+              notTrashed,
+              sql`${palettes.searchVector} @@ ${tsQuery}`
+            )
+          )
+          .orderBy(desc(palettes.likesCount), desc(palettes.createdAt))
+          .limit(5)
+      : [];
+
+    return { tags, palettes: paletteMatches };
+  }
+
   /**
    * Find public palettes related to the given palette via shared tags.
    * Palettes are ranked by the number of tags they share with the source palette.
@@ -824,7 +2521,14 @@ export class PaletteService {
       const popular = await db
         .select({ id: palettes.id })
         .from(palettes)
-        .where(and(eq(palettes.isPublic, true), ne(palettes.id, paletteId)))
+        .where(
+          and(
+            eq(palettes.isPublic, true),
+            notHiddenFrom(viewerUserId),
+            notTrashed,
+            ne(palettes.id, paletteId)
+          )
+        )
         .orderBy(desc(palettes.likesCount), desc(palettes.createdAt))
         .limit(safeLimit);
       relatedIds = popular.map(p => p.id);
@@ -861,11 +2565,17 @@ export class PaletteService {
         isPublic: palettes.isPublic,
         likesCount: palettes.likesCount,
         savesCount: palettes.savesCount,
+        commentsCount: palettes.commentsCount,
         createdAt: palettes.createdAt,
       })
       .from(palettes)
       .where(
-        and(inArray(palettes.id, relatedIds), eq(palettes.isPublic, true))
+        and(
+          inArray(palettes.id, relatedIds),
+          eq(palettes.isPublic, true),
+          notHiddenFrom(viewerUserId),
+          notTrashed
+        )
       );
 
     if (paletteResults.length === 0) return [];
@@ -913,8 +2623,11 @@ export class PaletteService {
       likedPaletteIds = new Set(userLikes.map(l => l.paletteId));
     }
 
+    const authors = await this.getAuthorSummaries(ordered.map(p => p.userId));
+
     return ordered.map(palette => ({
       ...palette,
+      author: authors.get(palette.userId) ?? null,
       colors: (colorsByPalette.get(palette.id) ?? []).map(c => ({
         id: c.id,
         hexValue: c.hexValue,
@@ -0,0 +1,432 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import {
+  and,
+  arrayContains,
+  asc,
+  desc,
+  eq,
+  inArray,
+  lt,
+  lte,
+} from 'drizzle-orm';
+import { db } from '../config/database.js';
+import { colors, palettes, webhookDeliveries, webhooks } from '@kulrs/db';
+import { CreateWebhookInput, WebhookEvent } from '../utils/validation.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { assertPublicUrl, publicFetch } from '../utils/public-address.js';
+
+/** Secrets look like `whsec_<43 base64url chars>` */
+const SECRET_PREFIX = 'whsec_';
+const MAX_WEBHOOKS_PER_USER = 10;
+
+/** Wait before each retry of a failed delivery; after the last it is given up. */
+const RETRY_DELAYS_MS = [
+  60_000, // 1 minute
+  5 * 60_000,
+  30 * 60_000,
+  2 * 60 * 60_000,
+  6 * 60 * 60_000,
+  24 * 60 * 60_000,
+];
+const DELIVERY_TIMEOUT_MS = 10_000;
+/** Deliveries sent per deliver-webhooks run */
+const DELIVERY_BATCH_SIZE = 100;
+/**
+ * Deliveries being sent are pushed this far into the future, so another
+ * run doesn't pick them up meanwhile (and does if the sender died).
+ */
+const DELIVERY_LEASE_MS = 5 * 60_000;
+/** Delivery log entries are kept this long */
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60_000;
+
+/** Header carrying `t=<unix seconds>,v1=<hex HMAC-SHA256>` */
+export const SIGNATURE_HEADER = 'X-Kulrs-Signature';
+
+/**
+ * The `v1` signature: HMAC-SHA256, keyed with the webhook's secret, of
+ * `<t>.<raw request body>`. Receivers recompute it to authenticate a
+ * delivery and reject stale `t` values to stop replays.
+ */
+export function signPayload(secret: string, timestamp: number, body: string) {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+/** A palette as described in event payloads. */
+export interface PaletteSnapshot {
+  id: string;
+  name: string;
+  description: string | null;
+  userId: string;
+  isPublic: boolean;
+  /** Hidden palettes only reach their owner's webhooks; not sent */
+  hiddenAt: Date | null;
+  parentPaletteId: string | null;
+  likesCount: number;
+  savesCount: number;
+  colors: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type DeliveryEvent = WebhookEvent | 'webhook.test';
+type DeliveryRow = typeof webhookDeliveries.$inferSelect;
+type WebhookTarget = { id: string; url: string; secret: string };
+
+const webhookColumns = {
+  id: webhooks.id,
+  url: webhooks.url,
+  description: webhooks.description,
+  events: webhooks.events,
+  createdAt: webhooks.createdAt,
+};
+
+const deliveryLogColumns = {
+  id: webhookDeliveries.id,
+  event: webhookDeliveries.event,
+  status: webhookDeliveries.status,
+  attempts: webhookDeliveries.attempts,
+  responseStatus: webhookDeliveries.responseStatus,
+  lastError: webhookDeliveries.lastError,
+  nextAttemptAt: webhookDeliveries.nextAttemptAt,
+  deliveredAt: webhookDeliveries.deliveredAt,
+  createdAt: webhookDeliveries.createdAt,
+  payload: webhookDeliveries.payload,
+};
+
+export class WebhookService {
+  /**
+   * Register a webhook. The signing secret is returned only here. URLs
+   * that resolve to private or reserved addresses are refused.
+   */
+  async createWebhook(userId: string, input: CreateWebhookInput) {
+    try {
+      await assertPublicUrl(input.url);
+    } catch (err) {
+      throw new BadRequestError(
+        `Webhook URL must resolve to a public address: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+
+    const existing = await db
+      .select({ id: webhooks.id })
+      .from(webhooks)
+      .where(eq(webhooks.userId, userId));
+    if (existing.length >= MAX_WEBHOOKS_PER_USER) {
+      throw new BadRequestError(
+        `You can have at most ${MAX_WEBHOOKS_PER_USER} webhooks`
+      );
+    }
+
+    const secret = SECRET_PREFIX + randomBytes(32).toString('base64url');
+    const [created] = await db
+      .insert(webhooks)
+      .values({
+        userId,
+        url: input.url,
+        description: input.description ?? null,
+        secret,
+        events: input.events,
+      })
+      .returning(webhookColumns);
+
+    return { ...created!, secret };
+  }
+
+  /**
+   * The user's webhooks, newest first.
+   */
+  async listWebhooks(userId: string) {
+    return db
+      .select(webhookColumns)
+      .from(webhooks)
+      .where(eq(webhooks.userId, userId))
+      .orderBy(desc(webhooks.createdAt));
+  }
+
+  /**
+   * Delete one of the user's webhooks along with its delivery log.
+   */
+  async deleteWebhook(userId: string, webhookId: string) {
+    const deleted = await db
+      .delete(webhooks)
+      .where(and(eq(webhooks.id, webhookId), eq(webhooks.userId, userId)))
+      .returning({ id: webhooks.id });
+
+    if (deleted.length === 0) throw new NotFoundError('Webhook not found');
+    return { deleted: true };
+  }
+
+  /**
+   * Recent deliveries to one of the user's webhooks, newest first.
+   */
+  async getDeliveries(userId: string, webhookId: string, limit: number) {
+    await this.getOwnWebhook(userId, webhookId);
+
+    return db
+      .select(deliveryLogColumns)
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Send a `webhook.test` event to one of the user's webhooks right away
+   * and report how it went. Failed test deliveries are not retried.
+   */
+  async testWebhook(userId: string, webhookId: string) {
+    const webhook = await this.getOwnWebhook(userId, webhookId);
+
+    const [delivery] = await db
+      .insert(webhookDeliveries)
+      .values(
+        this.deliveryRow(webhook.id, 'webhook.test', {
+          webhook: { id: webhook.id },
+        })
+      )
+      .returning();
+    return this.attempt(delivery!, webhook, false);
+  }
+
+  /**
+   * The palette fields sent in event payloads, or null if it's gone.
+   */
+  async paletteSnapshot(paletteId: string): Promise<PaletteSnapshot | null> {
+    const [palette] = await db
+      .select({
+        id: palettes.id,
+        name: palettes.name,
+        description: palettes.description,
+        userId: palettes.userId,
+        isPublic: palettes.isPublic,
+        hiddenAt: palettes.hiddenAt,
+        parentPaletteId: palettes.parentPaletteId,
+        likesCount: palettes.likesCount,
+        savesCount: palettes.savesCount,
+        createdAt: palettes.createdAt,
+        updatedAt: palettes.updatedAt,
+      })
+      .from(palettes)
+      .where(eq(palettes.id, paletteId))
+      .limit(1);
+    if (!palette) return null;
+
+    const paletteColors = await db
+      .select({ hexValue: colors.hexValue })
+      .from(colors)
+      .where(eq(colors.paletteId, paletteId))
+      .orderBy(asc(colors.position));
+
+    return { ...palette, colors: paletteColors.map(c => c.hexValue) };
+  }
+
+  /**
+   * Queue `event` for every webhook subscribed to it that may see the
+   * palette — any webhook for visible public palettes, only the owner's
+   * otherwise — and make the first delivery attempt in the background.
+   * Pass a snapshot when the palette is about to disappear. Never throws:
+   * a webhook problem must not fail the palette operation.
+   */
+  async emit(
+    event: WebhookEvent,
+    palette: string | PaletteSnapshot | null,
+    data: Record<string, unknown> = {}
+  ) {
+    try {
+      const subscribed = await db
+        .select({
+          id: webhooks.id,
+          userId: webhooks.userId,
+          url: webhooks.url,
+          secret: webhooks.secret,
+        })
+        .from(webhooks)
+        .where(arrayContains(webhooks.events, [event]));
+      if (subscribed.length === 0) return;
+
+      const snapshot =
+        typeof palette === 'string'
+          ? await this.paletteSnapshot(palette)
+          : palette;
+      if (!snapshot) return;
+
+      const { hiddenAt, ...payloadPalette } = snapshot;
+      const visible = snapshot.isPublic && !hiddenAt;
+      const targets = subscribed.filter(
+        webhook => visible || webhook.userId === snapshot.userId
+      );
+      if (targets.length === 0) return;
+
+      const queued = await db
+        .insert(webhookDeliveries)
+        .values(
+          targets.map(webhook =>
+            this.deliveryRow(webhook.id, event, {
+              palette: payloadPalette,
+              ...data,
+            })
+          )
+        )
+        .returning();
+
+      // First attempt now; the deliver-webhooks job retries failures
+      const byId = new Map(targets.map(webhook => [webhook.id, webhook]));
+      for (const delivery of queued) {
+        this.attempt(delivery, byId.get(delivery.webhookId)!).catch(error =>
+          console.error(`Webhook delivery ${delivery.id} failed:`, error)
+        );
+      }
+    } catch (error) {
+      console.error(`Failed to queue ${event} webhooks:`, error);
+    }
+  }
+
+  /**
+   * Send deliveries whose next attempt is due. Run every minute by the
+   * deliver-webhooks job.
+   */
+  async deliverDue() {
+    const now = new Date();
+    const due = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(
+        and(
+          eq(webhookDeliveries.status, 'pending'),
+          lte(webhookDeliveries.nextAttemptAt, now)
+        )
+      )
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(DELIVERY_BATCH_SIZE)
+      .for('update', { skipLocked: true });
+
+    const claimed = await db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+    if (claimed.length === 0) return { attempted: 0, delivered: 0, failed: 0 };
+
+    const targets = await db
+      .select({ id: webhooks.id, url: webhooks.url, secret: webhooks.secret })
+      .from(webhooks)
+      .where(inArray(webhooks.id, [...new Set(claimed.map(d => d.webhookId))]));
+    const byId = new Map(targets.map(webhook => [webhook.id, webhook]));
+
+    // A webhook deleted meanwhile takes its deliveries with it
+    const results = await Promise.all(
+      claimed
+        .filter(delivery => byId.has(delivery.webhookId))
+        .map(delivery => this.attempt(delivery, byId.get(delivery.webhookId)!))
+    );
+    return {
+      attempted: results.length,
+      delivered: results.filter(r => r.status === 'delivered').length,
+      failed: results.filter(r => r.status === 'failed').length,
+    };
+  }
+
+  /**
+   * Delete delivery log entries older than the retention period. Run
+   * daily by the prune-webhook-deliveries job.
+   */
+  async pruneDeliveries() {
+    const cutoff = new Date(Date.now() - DELIVERY_RETENTION_MS);
+    const result = await db
+      .delete(webhookDeliveries)
+      .where(lt(webhookDeliveries.createdAt, cutoff));
+    return { pruned: result.rowCount ?? 0 };
+  }
+
+  private async getOwnWebhook(userId: string, webhookId: string) {
+    const [webhook] = await db
+      .select({ id: webhooks.id, url: webhooks.url, secret: webhooks.secret })
+      .from(webhooks)
+      .where(and(eq(webhooks.id, webhookId), eq(webhooks.userId, userId)))
+      .limit(1);
+
+    if (!webhook) throw new NotFoundError('Webhook not found');
+    return webhook;
+  }
+
+  /** A new delivery, leased to the caller for its first attempt. */
+  private deliveryRow(
+    webhookId: string,
+    event: DeliveryEvent,
+    data: Record<string, unknown>
+  ) {
+    const id = randomUUID();
+    const createdAt = new Date();
+    return {
+      id,
+      webhookId,
+      event,
+      payload: { id, event, createdAt: createdAt.toISOString(), data },
+      nextAttemptAt: new Date(createdAt.getTime() + DELIVERY_LEASE_MS),
+      createdAt,
+    };
+  }
+
+  /**
+   * POST a delivery and record the outcome: delivered on any 2xx, else
+   * rescheduled per RETRY_DELAYS_MS (when `retry`) or marked failed.
+   * Hosts that now resolve to private addresses fail the attempt.
+   */
+  private async attempt(
+    delivery: DeliveryRow,
+    webhook: WebhookTarget,
+    retry = true
+  ) {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    try {
+      const res = await publicFetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Kulrs-Webhooks/1.0',
+          'X-Kulrs-Event': delivery.event,
+          'X-Kulrs-Delivery': delivery.id,
+          [SIGNATURE_HEADER]: `t=${timestamp},v1=${signPayload(webhook.secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      await res.body?.cancel();
+      responseStatus = res.status;
+      if (!res.ok) error = `Endpoint responded ${res.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const attempts = delivery.attempts + 1;
+    const delay = retry ? RETRY_DELAYS_MS[attempts - 1] : undefined;
+    const status = !error
+      ? 'delivered'
+      : delay === undefined
+        ? 'failed'
+        : 'pending';
+
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set({
+        status,
+        attempts,
+        responseStatus,
+        lastError: error?.slice(0, 500) ?? null,
+        deliveredAt: error ? null : new Date(),
+        nextAttemptAt: new Date(Date.now() + (delay ?? 0)),
+      })
+      .where(eq(webhookDeliveries.id, delivery.id))
+      .returning(deliveryLogColumns);
+    return updated!;
+  }
+}
+
+export const webhookService = new WebhookService();
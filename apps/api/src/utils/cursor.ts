@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { BadRequestError } from './errors.js';
+
+/**
+ * Opaque pagination cursors: a JSON payload, base64url-encoded so clients
+ * pass it back verbatim rather than building their own.
+ */
+
+export function encodeCursor(payload: object): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/** Decode a cursor and validate its payload, throwing 400 if either fails. */
+export function decodeCursor<T>(raw: string, schema: z.ZodType<T>): T {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestError('Invalid cursor');
+  }
+
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) {
+    throw new BadRequestError('Invalid cursor');
+  }
+  return parsed.data;
+}
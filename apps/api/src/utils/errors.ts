@@ -47,10 +47,17 @@ export class NotFoundError extends AppError {
   }
 }
 
+/**
+ * Conflict errors carry optional details pointing at the conflicting
+ * resource (e.g. the id of an existing duplicate).
+ */
 export class ConflictError extends AppError {
-  constructor(message = 'Conflict') {
+  readonly details?: unknown;
+
+  constructor(message = 'Conflict', details?: unknown) {
     super(409, message);
     this.name = 'ConflictError';
+    this.details = details;
   }
 }
 
@@ -111,7 +118,10 @@ export function errorHandler(
       const body: Record<string, unknown> = {
         error: err.message,
       };
-      if (err instanceof ValidationError && err.details) {
+      if (
+        (err instanceof ValidationError || err instanceof ConflictError) &&
+        err.details
+      ) {
         body.details = err.details;
       }
       res.status(err.statusCode).json(body);
@@ -0,0 +1,169 @@
+import { and, eq, isNull, lt, sql } from 'drizzle-orm';
+import { db } from '../config/database.js';
+import { idempotencyKeys } from '@kulrs/db';
+
+/** A request claimed under an idempotency key, and its stored response. */
+export interface IdempotencyRecord {
+  /** Hash of the request that claimed the key */
+  fingerprint: string;
+  /** Status of the stored response; null while the request is in flight */
+  status: number | null;
+  body: unknown;
+}
+
+/**
+ * Backing store for idempotency keys. Implementations must claim keys
+ * atomically, so two concurrent requests can't both run.
+ */
+export interface IdempotencyStore {
+  /**
+   * Claim `key` for the request with `fingerprint` for `ttlMs`. Returns
+   * null when the key was free, had expired, or its request left no
+   * response within `leaseMs` (it crashed or timed out); otherwise the
+   * existing record.
+   */
+  claim(
+    key: string,
+    fingerprint: string,
+    ttlMs: number,
+    leaseMs: number
+  ): Promise<IdempotencyRecord | null>;
+  /**
+   * Store the response to replay for a claimed key. A response already
+   * stored is kept.
+   */
+  complete(key: string, status: number, body: unknown): Promise<void>;
+  /** Free a claimed key so the request can be retried. */
+  release(key: string): Promise<void>;
+}
+
+/** Sweep expired keys once the map grows past this many entries. */
+const MEMORY_SWEEP_THRESHOLD = 10_000;
+
+/**
+ * Per-process keys. Retries that reach another instance, or arrive after a
+ * cold start, run again — meant for development and tests.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<
+    string,
+    IdempotencyRecord & { lockedUntil: number; expiresAt: number }
+  >();
+
+  async claim(
+    key: string,
+    fingerprint: string,
+    ttlMs: number,
+    leaseMs: number
+  ) {
+    const now = Date.now();
+    if (this.records.size > MEMORY_SWEEP_THRESHOLD) this.sweep(now);
+
+    const existing = this.records.get(key);
+    if (
+      existing &&
+      existing.expiresAt > now &&
+      (existing.status !== null || existing.lockedUntil > now)
+    ) {
+      const { fingerprint, status, body } = existing;
+      return { fingerprint, status, body };
+    }
+
+    this.records.set(key, {
+      fingerprint,
+      status: null,
+      body: null,
+      lockedUntil: now + leaseMs,
+      expiresAt: now + ttlMs,
+    });
+    return null;
+  }
+
+  async complete(key: string, status: number, body: unknown) {
+    const record = this.records.get(key);
+    if (record && record.status === null) {
+      Object.assign(record, { status, body });
+    }
+  }
+
+  async release(key: string) {
+    this.records.delete(key);
+  }
+
+  private sweep(now: number) {
+    for (const [key, record] of this.records) {
+      if (record.expiresAt <= now) this.records.delete(key);
+    }
+  }
+}
+
+/**
+ * Keys in the `idempotency_keys` table, shared by every instance and kept
+ * across cold starts. A claim is a single upsert that only takes over
+ * expired keys, or in-flight keys whose lease ran out without a response.
+ */
+export class PostgresIdempotencyStore implements IdempotencyStore {
+  async claim(
+    key: string,
+    fingerprint: string,
+    ttlMs: number,
+    leaseMs: number
+  ) {
+    const now = new Date();
+    const nowSql = sql`${now.toISOString()}::timestamp`;
+    const lockedUntil = new Date(now.getTime() + leaseMs);
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    const [claimed] = await db
+      .insert(idempotencyKeys)
+      .values({ key, fingerprint, lockedUntil, expiresAt })
+      .onConflictDoUpdate({
+        target: idempotencyKeys.key,
+        set: {
+          fingerprint,
+          status: null,
+          body: null,
+          lockedUntil,
+          expiresAt,
+        },
+        where: sql`${idempotencyKeys.expiresAt} <= ${nowSql} or (${idempotencyKeys.status} is null and ${idempotencyKeys.lockedUntil} <= ${nowSql})`,
+      })
+      .returning({ key: idempotencyKeys.key });
+    if (claimed) return null;
+
+    const [existing] = await db
+      .select({
+        fingerprint: idempotencyKeys.fingerprint,
+        status: idempotencyKeys.status,
+        body: idempotencyKeys.body,
+      })
+      .from(idempotencyKeys)
+      .where(eq(idempotencyKeys.key, key))
+      .limit(1);
+
+    // Released between the two statements: treat it as still in flight
+    return existing ?? { fingerprint, status: null, body: null };
+  }
+
+  async complete(key: string, status: number, body: unknown) {
+    await db
+      .update(idempotencyKeys)
+      .set({ status, body })
+      .where(and(eq(idempotencyKeys.key, key), isNull(idempotencyKeys.status)));
+  }
+
+  async release(key: string) {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.key, key));
+  }
+
+  /**
+   * Delete expired keys. Run periodically by the prune-idempotency-keys
+   * job.
+   */
+  async prune() {
+    const result = await db
+      .delete(idempotencyKeys)
+      .where(lt(idempotencyKeys.expiresAt, new Date()));
+    return { pruned: result.rowCount ?? 0 };
+  }
+}
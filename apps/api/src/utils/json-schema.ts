@@ -0,0 +1,161 @@
+import { ZodFirstPartyTypeKind, ZodTypeAny } from 'zod';
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Named schemas: a nested schema found here is emitted as a `$ref` to
+ * `#/components/schemas/<name>` instead of being inlined.
+ */
+export type SchemaRefs = Map<ZodTypeAny, string>;
+
+/** `T | null` — a type union where possible, `anyOf` otherwise. */
+function nullable(schema: JsonSchema): JsonSchema {
+  if (typeof schema.type === 'string' && !('enum' in schema)) {
+    return { ...schema, type: [schema.type, 'null'] };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+function stringSchema(schema: ZodTypeAny): JsonSchema {
+  const json: JsonSchema = { type: 'string' };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        json.minLength = check.value;
+        break;
+      case 'max':
+        json.maxLength = check.value;
+        break;
+      case 'length':
+        json.minLength = json.maxLength = check.value;
+        break;
+      case 'uuid':
+      case 'email':
+        json.format = check.kind;
+        break;
+      case 'url':
+        json.format = 'uri';
+        break;
+      case 'datetime':
+        json.format = 'date-time';
+        break;
+      case 'regex':
+        json.pattern = check.regex.source;
+        break;
+    }
+  }
+  return json;
+}
+
+function numberSchema(schema: ZodTypeAny): JsonSchema {
+  const json: JsonSchema = { type: 'number' };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        json.type = 'integer';
+        break;
+      case 'min':
+        json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+    }
+  }
+  return json;
+}
+
+/**
+ * Convert a zod schema to JSON Schema (2020-12, as used by OpenAPI 3.1).
+ * Describes what the schema accepts: fields with defaults are optional,
+ * refinements and transforms are documented as their input type.
+ * Throws on zod types without a JSON Schema counterpart, so new schemas
+ * can't silently drop out of the API document.
+ */
+export function zodToJsonSchema(
+  schema: ZodTypeAny,
+  refs: SchemaRefs = new Map(),
+  root = true
+): JsonSchema {
+  const ref = refs.get(schema);
+  if (ref && !root) return { $ref: `#/components/schemas/${ref}` };
+
+  const convert = (inner: ZodTypeAny) => zodToJsonSchema(inner, refs, false);
+  const def = schema._def;
+  let json: JsonSchema;
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString:
+      json = stringSchema(schema);
+      break;
+    case ZodFirstPartyTypeKind.ZodNumber:
+      json = numberSchema(schema);
+      break;
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      json = { type: 'boolean' };
+      break;
+    case ZodFirstPartyTypeKind.ZodDate:
+      // Dates leave the API as ISO strings
+      json = { type: 'string', format: 'date-time' };
+      break;
+    case ZodFirstPartyTypeKind.ZodNull:
+      json = { type: 'null' };
+      break;
+    case ZodFirstPartyTypeKind.ZodAny:
+    case ZodFirstPartyTypeKind.ZodUnknown:
+      json = {};
+      break;
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      json = { const: def.value };
+      break;
+    case ZodFirstPartyTypeKind.ZodEnum:
+      json = { type: 'string', enum: [...def.values] };
+      break;
+    case ZodFirstPartyTypeKind.ZodArray:
+      json = { type: 'array', items: convert(def.type) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      if (def.exactLength) {
+        json.minItems = json.maxItems = def.exactLength.value;
+      }
+      break;
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, ZodTypeAny> = def.shape();
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = convert(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      json = { type: 'object', properties };
+      if (required.length > 0) json.required = required;
+      break;
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      json = { type: 'object', additionalProperties: convert(def.valueType) };
+      break;
+    case ZodFirstPartyTypeKind.ZodUnion:
+      json = { anyOf: def.options.map(convert) };
+      break;
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      json = { oneOf: [...def.options].map(convert) };
+      break;
+    case ZodFirstPartyTypeKind.ZodOptional:
+      json = convert(def.innerType);
+      break;
+    case ZodFirstPartyTypeKind.ZodNullable:
+      json = nullable(convert(def.innerType));
+      break;
+    case ZodFirstPartyTypeKind.ZodDefault:
+      json = { ...convert(def.innerType), default: def.defaultValue() };
+      break;
+    case ZodFirstPartyTypeKind.ZodEffects:
+      json = convert(def.schema);
+      break;
+    default:
+      throw new Error(`Cannot convert zod type ${def.typeName} to JSON Schema`);
+  }
+
+  if (schema.description) json.description = schema.description;
+  return json;
+}
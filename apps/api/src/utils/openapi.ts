@@ -0,0 +1,1563 @@
+import { z, ZodTypeAny } from 'zod';
+import { Column } from 'drizzle-orm';
+import {
+  API_KEY_SCOPES,
+  REPORT_REASONS,
+  REPORT_STATUSES,
+  collectionPaletteSchema,
+  createApiKeySchema,
+  createCollectionSchema,
+  createCommentSchema,
+  createPaletteSchema,
+  createWebhookSchema,
+  ensureTagsSchema,
+  generateFromBaseColorSchema,
+  generateFromImageSchema,
+  generateFromMoodSchema,
+  generatedPaletteSchema,
+  imageSuggestionsSchema,
+  paletteSuggestionsSchema,
+  relatedColorsSchema,
+  reorderCollectionPalettesSchema,
+  reorderCollectionsSchema,
+  reportPaletteSchema,
+  updateCollectionSchema,
+  updatePaletteColorsSchema,
+  updatePaletteSchema,
+  updateProfileSchema,
+  WEBHOOK_EVENTS,
+} from './validation.js';
+import { JsonSchema, SchemaRefs, zodToJsonSchema } from './json-schema.js';
+import {
+  paletteColumns,
+  paletteViewColumns,
+} from '../services/palette.service.js';
+
+// ---------------------------------------------------------------------------
+// Response shapes
+// ---------------------------------------------------------------------------
+
+const id = z.string().uuid();
+const timestamp = z.string().datetime();
+
+/** Integer column types; other numeric columns are floating point */
+const INTEGER_COLUMNS = ['PgInteger', 'PgSmallInt', 'PgBigInt53', 'PgSerial'];
+
+/**
+ * The JSON shape of a row selected with `columns`, so documented responses
+ * can't drift from what the queries return. JSON columns have no type at
+ * runtime and must be given in `json`.
+ */
+function rowSchema<T extends Record<string, Column>>(
+  columns: T,
+  json: Partial<Record<keyof T, ZodTypeAny>> = {}
+) {
+  const shape = Object.fromEntries(
+    Object.entries(columns).map(([key, column]) => {
+      let schema: ZodTypeAny;
+      if (column.dataType === 'json') {
+        const given = json[key as keyof T];
+        if (!given) throw new Error(`No schema given for JSON column ${key}`);
+        schema = given;
+      } else if (column.columnType === 'PgUUID') {
+        schema = id;
+      } else if (column.dataType === 'string') {
+        schema = z.string();
+      } else if (column.dataType === 'number') {
+        schema = INTEGER_COLUMNS.includes(column.columnType)
+          ? z.number().int()
+          : z.number();
+      } else if (column.dataType === 'boolean') {
+        schema = z.boolean();
+      } else if (column.dataType === 'date') {
+        schema = timestamp;
+      } else {
+        throw new Error(`Cannot describe ${column.columnType} column ${key}`);
+      }
+      return [key, column.notNull ? schema : schema.nullable()];
+    })
+  );
+  return z.object(shape as Record<keyof T, ZodTypeAny>);
+}
+
+const OklchColor = z.object({
+  l: z.number().min(0).max(1),
+  c: z.number().min(0).max(0.5),
+  h: z.number().min(0).max(360),
+});
+
+const AuthorSummary = z.object({
+  id,
+  displayName: z.string().nullable(),
+  photoUrl: z.string().nullable(),
+});
+
+const Tag = z.object({
+  id,
+  name: z.string(),
+  slug: z.string(),
+  description: z.string().nullable().optional(),
+});
+
+const Theme = z.object({
+  slug: z.string(),
+  label: z.string(),
+  description: z.string(),
+  category: z.enum(['colors', 'themes']),
+  tagSlugs: z.array(z.string()),
+});
+
+const PaletteColor = z.object({
+  id,
+  hexValue: z.string(),
+  position: z.number().int(),
+  name: z.string().nullable(),
+  role: z.string().nullable().optional(),
+  oklch: OklchColor.nullable().optional(),
+});
+
+/** A color as stored, with its role and exact OKLCH values when known */
+const StoredPaletteColor = PaletteColor.required({ role: true, oklch: true });
+
+const paletteMetadata = generatedPaletteSchema.shape.metadata;
+
+/** A palette row without its colors, as returned by writes */
+const Palette = rowSchema(paletteColumns, { metadata: paletteMetadata });
+
+/** A single palette with its colors, tags and author */
+const PaletteDetail = rowSchema(paletteViewColumns, {
+  metadata: paletteMetadata,
+}).extend({
+  author: AuthorSummary.nullable(),
+  isOwner: z.boolean(),
+  colors: z.array(StoredPaletteColor),
+  tags: z.array(Tag),
+});
+
+const BrowsePalette = z.object({
+  id,
+  name: z.string(),
+  description: z.string().nullable(),
+  userId: id,
+  author: AuthorSummary.nullable().optional(),
+  isPublic: z.boolean(),
+  isOwner: z.boolean().optional(),
+  hiddenAt: timestamp
+    .nullable()
+    .optional()
+    .describe('Set when a moderator hid the palette'),
+  likesCount: z.number().int(),
+  savesCount: z.number().int(),
+  commentsCount: z.number().int().optional(),
+  createdAt: timestamp,
+  colors: z.array(PaletteColor),
+  userLiked: z.boolean().optional(),
+  parentPaletteId: id.nullable().optional(),
+  remixDepth: z.number().int().optional(),
+  tags: z.array(Tag).optional(),
+  metadata: generatedPaletteSchema.shape.metadata.nullable().optional(),
+});
+
+const LineagePalette = BrowsePalette.extend({
+  distance: z.number().int().describe('1 = direct parent'),
+});
+
+const RemixPalette = BrowsePalette.extend({
+  parentPaletteId: id,
+  depth: z.number().int().describe('1 = direct remix'),
+});
+
+const PaletteRevision = z.object({
+  id,
+  revision: z.number().int(),
+  colors: z.array(
+    z.object({
+      hexValue: z.string(),
+      position: z.number().int(),
+      name: z.string().nullable(),
+    })
+  ),
+  userId: id.nullable(),
+  createdAt: timestamp,
+});
+
+const Reply = z.object({
+  id,
+  paletteId: id,
+  userId: id,
+  parentId: id.nullable(),
+  body: z.string(),
+  createdAt: timestamp,
+  author: AuthorSummary.nullable(),
+  canDelete: z.boolean(),
+});
+
+const Comment = Reply.extend({ replies: z.array(Reply).optional() });
+
+const Collection = z.object({
+  id,
+  userId: id,
+  name: z.string(),
+  description: z.string().nullable(),
+  isPublic: z.boolean(),
+  position: z.number().int(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  palettesCount: z.number().int().optional(),
+});
+
+const CollectionWithPalettes = Collection.extend({
+  isOwner: z.boolean(),
+  palettes: z.array(BrowsePalette),
+});
+
+const UserProfile = AuthorSummary.extend({
+  createdAt: timestamp,
+  paletteCount: z.number().int(),
+  totalLikes: z.number().int(),
+  followersCount: z.number().int(),
+  followingCount: z.number().int(),
+  isSelf: z.boolean(),
+  isFollowing: z.boolean(),
+});
+
+const ApiKey = z.object({
+  id,
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(z.enum(API_KEY_SCOPES)),
+  allowedOrigins: z.array(z.string()),
+  quotas: z.record(z.number().int()),
+  lastUsedAt: timestamp.nullable(),
+  revokedAt: timestamp.nullable(),
+  createdAt: timestamp,
+});
+
+const Report = z.object({
+  id,
+  reason: z.enum(REPORT_REASONS),
+  details: z.string().nullable(),
+  status: z.enum(REPORT_STATUSES),
+  reporterId: id,
+  resolvedById: id.nullable(),
+  resolvedAt: timestamp.nullable(),
+  createdAt: timestamp,
+  palette: z.object({
+    id,
+    name: z.string(),
+    description: z.string().nullable(),
+    userId: id,
+    isPublic: z.boolean(),
+    hiddenAt: timestamp.nullable(),
+  }),
+});
+
+const Webhook = z.object({
+  id,
+  url: z.string(),
+  description: z.string().nullable(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)),
+  createdAt: timestamp,
+});
+
+const ShareToken = z.object({
+  id,
+  prefix: z.string(),
+  createdAt: timestamp,
+});
+
+const WebhookDelivery = z.object({
+  id,
+  event: z.string(),
+  status: z.enum(['pending', 'delivered', 'failed']),
+  attempts: z.number().int(),
+  responseStatus: z
+    .number()
+    .int()
+    .nullable()
+    .describe('HTTP status of the last attempt'),
+  lastError: z.string().nullable(),
+  nextAttemptAt: timestamp,
+  deliveredAt: timestamp.nullable(),
+  createdAt: timestamp,
+  payload: z.record(z.unknown()).describe('The JSON body sent'),
+});
+
+const RelatedColors = z.object({
+  source: OklchColor,
+  relationships: z.array(
+    z.object({
+      type: z.enum([
+        'complementary',
+        'analogous',
+        'triadic',
+        'split-complementary',
+        'neutral',
+      ]),
+      label: z.string(),
+      description: z.string(),
+      colors: z.array(OklchColor),
+    })
+  ),
+});
+
+const PaletteSuggestion = z.object({
+  rank: z.number().int().describe('1 = best'),
+  harmony: z.string(),
+  score: z.number().min(0).max(1),
+  tags: z.array(z.string()),
+  palette: generatedPaletteSchema,
+  usabilityScore: z.number().min(0).max(1),
+  uiViable: z.boolean(),
+  semanticRoles: z.record(z.string()),
+  rankingExplanation: z.string(),
+});
+
+const ErrorBody = z.object({
+  error: z.string(),
+  message: z.string().optional(),
+  details: z
+    .unknown()
+    .optional()
+    .describe('Validation issues, or the conflicting resource'),
+});
+
+/** Schemas emitted once under components.schemas and referenced by name. */
+const components: Record<string, ZodTypeAny> = {
+  OklchColor,
+  AuthorSummary,
+  Tag,
+  Theme,
+  PaletteColor,
+  StoredPaletteColor,
+  Palette,
+  PaletteDetail,
+  BrowsePalette,
+  LineagePalette,
+  RemixPalette,
+  PaletteRevision,
+  Comment,
+  Collection,
+  CollectionWithPalettes,
+  UserProfile,
+  ApiKey,
+  Report,
+  Webhook,
+  WebhookDelivery,
+  ShareToken,
+  GeneratedPalette: generatedPaletteSchema,
+  RelatedColors,
+  PaletteSuggestion,
+  Error: ErrorBody,
+};
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+/**
+ * - `none`: public
+ * - `optional`: public, personalised or owner-aware when signed in
+ * - `required`: Firebase ID token or API key
+ * - `firebase`: Firebase ID token only
+ * - `job`: the scheduler's shared secret
+ */
+type Auth = 'none' | 'optional' | 'required' | 'firebase' | 'job';
+
+interface ResponseSpec {
+  description: string;
+  body?: ZodTypeAny;
+  /** Defaults to application/json */
+  contentType?: string;
+}
+
+interface Operation {
+  method: 'get' | 'post' | 'put' | 'patch' | 'delete';
+  /** Express-style path, e.g. `/palettes/:id` */
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  auth: Auth;
+  query?: z.AnyZodObject;
+  body?: ZodTypeAny;
+  responses: Record<number, ResponseSpec>;
+  /** Error statuses beyond the ones implied by auth, body and rate limits */
+  errors?: number[];
+  /** Honors the `Idempotency-Key` header (see middleware/idempotency.ts) */
+  idempotent?: boolean;
+}
+
+/** `{ success: true, data }` — the envelope every JSON route answers with */
+function data(description: string, schema: ZodTypeAny): ResponseSpec {
+  return {
+    description,
+    body: z.object({ success: z.literal(true), data: schema }),
+  };
+}
+
+/** A page of results plus the cursor for the next one */
+function page(description: string, schema: ZodTypeAny): ResponseSpec {
+  return {
+    description,
+    body: z.object({
+      success: z.literal(true),
+      data: z.array(schema),
+      nextCursor: z
+        .string()
+        .nullable()
+        .describe('Pass back as `cursor` for the next page; null at the end'),
+    }),
+  };
+}
+
+const cursor = z
+  .string()
+  .optional()
+  .describe('`nextCursor` of the previous page');
+const limit = (max: number) => z.number().int().min(1).max(max).optional();
+const deviceId = z
+  .string()
+  .optional()
+  .describe('Anonymous device id, for anonymous likes');
+const deviceIdBody = z.object({
+  deviceId: z.string().optional().describe('Required when not signed in'),
+});
+
+const FollowResult = z.object({
+  following: z.boolean(),
+  followersCount: z.number().int(),
+});
+const HiddenResult = z.object({
+  id,
+  hiddenAt: timestamp.nullable(),
+  resolvedReports: z.number().int(),
+});
+const SuspendResult = z.object({ id, suspendedAt: timestamp.nullable() });
+
+export const operations: Operation[] = [
+  // Meta
+  {
+    method: 'get',
+    path: '/health',
+    tag: 'Meta',
+    summary: 'Service and database health',
+    auth: 'none',
+    responses: {
+      200: {
+        description: 'Healthy',
+        body: z.object({
+          status: z.enum(['ok', 'degraded']),
+          dbResponseMs: z.number().nullable(),
+        }),
+      },
+      503: { description: 'The database is unreachable' },
+    },
+  },
+  {
+    method: 'get',
+    path: '/hello',
+    tag: 'Meta',
+    summary: 'Smoke-test endpoint',
+    auth: 'none',
+    responses: {
+      200: {
+        description: 'A greeting',
+        body: z.object({ message: z.string() }),
+      },
+    },
+  },
+  {
+    method: 'get',
+    path: '/openapi.json',
+    tag: 'Meta',
+    summary: 'This document',
+    auth: 'none',
+    responses: {
+      200: { description: 'OpenAPI 3.1 document', body: z.object({}) },
+    },
+  },
+
+  // Palettes
+  {
+    method: 'get',
+    path: '/palettes',
+    tag: 'Palettes',
+    summary: 'Browse public palettes',
+    description:
+      '`sort=following` requires sign-in; `sort=relevance` requires `q`. ' +
+      'Passing `color` ranks by perceptual similarity instead of `sort`.',
+    auth: 'optional',
+    query: z.object({
+      sort: z
+        .enum(['recent', 'popular', 'trending', 'following', 'relevance'])
+        .default('recent'),
+      q: z.string().max(100).optional().describe('Full-text word prefixes'),
+      tags: z.string().optional().describe('Comma-separated tag slugs'),
+      theme: z.string().optional().describe('Theme slug'),
+      color: z
+        .string()
+        .optional()
+        .describe(
+          'Hex colors without `#`, comma-separated or repeated (max 5)'
+        ),
+      userId: id.optional(),
+      limit: limit(50),
+      cursor,
+      deviceId,
+    }),
+    responses: { 200: page('A page of palettes', BrowsePalette) },
+    errors: [400],
+  },
+  {
+    method: 'post',
+    path: '/palettes',
+    tag: 'Palettes',
+    summary: 'Create a palette',
+    description:
+      'Anonymous callers send `deviceId`; their palettes are always private. ' +
+      'An identical public palette is returned instead of a copy (200), or ' +
+      'rejected with 409 when `onDuplicate` is `reject`.',
+    auth: 'optional',
+    body: createPaletteSchema,
+    responses: {
+      200: {
+        description: 'An identical public palette already existed',
+        body: z.object({
+          success: z.literal(true),
+          data: Palette,
+          duplicate: z.literal(true),
+        }),
+      },
+      201: {
+        description: 'The new palette',
+        body: z.object({
+          success: z.literal(true),
+          data: Palette,
+          duplicate: z.literal(false),
+        }),
+      },
+    },
+    errors: [401, 409],
+    idempotent: true,
+  },
+  {
+    method: 'get',
+    path: '/palettes/tags',
+    tag: 'Palettes',
+    summary: 'List all tags',
+    auth: 'none',
+    responses: { 200: data('Every tag, by name', z.array(Tag)) },
+  },
+  {
+    method: 'post',
+    path: '/palettes/tags/ensure',
+    tag: 'Palettes',
+    summary: 'Create any missing tags',
+    auth: 'required',
+    body: ensureTagsSchema,
+    responses: { 200: data('The requested tags', z.array(Tag)) },
+  },
+  {
+    method: 'get',
+    path: '/palettes/themes',
+    tag: 'Palettes',
+    summary: 'List style themes',
+    auth: 'none',
+    responses: { 200: data('Every theme', z.array(Theme)) },
+  },
+  {
+    method: 'get',
+    path: '/palettes/my',
+    tag: 'Palettes',
+    summary: "The signed-in user's palettes",
+    auth: 'required',
+    query: z.object({
+      limit: limit(50),
+      offset: z.number().int().min(0).max(10_000).optional(),
+    }),
+    responses: { 200: data('Newest first', z.array(BrowsePalette)) },
+  },
+  {
+    method: 'get',
+    path: '/palettes/trash',
+    tag: 'Palettes',
+    summary: "The signed-in user's deleted palettes",
+    description: 'Restorable until `purgeAt`, 30 days after deletion.',
+    auth: 'required',
+    query: z.object({
+      limit: limit(50),
+      offset: z.number().int().min(0).max(10_000).optional(),
+    }),
+    responses: {
+      200: data(
+        'Most recently deleted first',
+        z.array(
+          BrowsePalette.extend({ deletedAt: timestamp, purgeAt: timestamp })
+        )
+      ),
+    },
+  },
+  {
+    method: 'get',
+    path: '/palettes/saved',
+    tag: 'Palettes',
+    summary: 'Palettes the signed-in user saved',
+    auth: 'required',
+    query: z.object({ limit: limit(50), cursor }),
+    responses: { 200: page('Most recently saved first', BrowsePalette) },
+    errors: [400],
+  },
+  {
+    method: 'get',
+    path: '/palettes/:id',
+    tag: 'Palettes',
+    summary: 'Get a palette',
+    description:
+      'Private and hidden palettes are visible to their owner only. A live ' +
+      'share token also opens a private palette.',
+    auth: 'optional',
+    query: z.object({
+      share: z
+        .string()
+        .max(64)
+        .optional()
+        .describe('Share token minted by the owner'),
+    }),
+    responses: { 200: data('The palette', PaletteDetail) },
+    errors: [400, 404],
+  },
+  {
+    method: 'put',
+    path: '/palettes/:id',
+    tag: 'Palettes',
+    summary: "Replace a palette's colors",
+    description: 'Records a new revision. Owner only.',
+    auth: 'required',
+    body: updatePaletteColorsSchema,
+    responses: {
+      200: data(
+        'The new revision number',
+        z.object({ updated: z.literal(true), revision: z.number().int() })
+      ),
+    },
+    errors: [403, 404],
+  },
+  {
+    method: 'patch',
+    path: '/palettes/:id',
+    tag: 'Palettes',
+    summary: "Edit a palette's details",
+    description:
+      '`tags` replaces the full tag set; unknown tag names are created. ' +
+      'Owner only.',
+    auth: 'required',
+    body: updatePaletteSchema,
+    responses: {
+      200: data(
+        'The updated palette',
+        Palette.pick({
+          id: true,
+          name: true,
+          description: true,
+          isPublic: true,
+          updatedAt: true,
+        }).extend({ tags: z.array(Tag) })
+      ),
+    },
+    errors: [403, 404],
+  },
+  {
+    method: 'delete',
+    path: '/palettes/:id',
+    tag: 'Palettes',
+    summary: 'Delete a palette',
+    description:
+      'Moves the palette to the trash, where it can be restored until ' +
+      '`purgeAt`. Owner only.',
+    auth: 'required',
+    responses: {
+      200: data(
+        'Trashed',
+        z.object({ deleted: z.literal(true), purgeAt: timestamp })
+      ),
+    },
+    errors: [400, 403, 404],
+  },
+  {
+    method: 'get',
+    path: '/palettes/:id/share-tokens',
+    tag: 'Palettes',
+    summary: "A palette's share links",
+    description: 'Owner only.',
+    auth: 'required',
+    responses: { 200: data('Newest first', z.array(ShareToken)) },
+    errors: [400, 404],
+  },
+  {
+    method: 'post',
+    path: '/palettes/:id/share-tokens',
+    tag: 'Palettes',
+    summary: 'Create a share link',
+    description:
+      'Anyone with the token can open the palette at ' +
+      '`GET /palettes/:id?share=<token>`, even while it is private; it ' +
+      'still stays out of browse. At most 10 per palette. Owner only. ' +
+      'The full token is only ever returned here.',
+    auth: 'required',
+    responses: {
+      201: data(
+        'The new token',
+        ShareToken.extend({
+          token: z.string().describe('Pass as `share` to GET /palettes/{id}'),
+        })
+      ),
+    },
+    errors: [400, 404],
+  },
+  {
+    method: 'delete',
+    path: '/palettes/:id/share-tokens/:tokenId',
+    tag: 'Palettes',
+    summary: 'Revoke a share link',
+    description: 'Owner only.',
+    auth: 'required',
+    responses: {
+      200: data('Revoked', z.object({ revoked: z.literal(true) })),
+    },
+    errors: [400, 404],
+  },
+  {
+    method: 'post',
+    path: '/palettes/:id/restore',
+    tag: 'Palettes',
+    summary: 'Restore a deleted palette',
+    description: 'Owner only.',
+    auth: 'required',
+    responses: {
+      200: data('Restored', z.object({ restored: z.literal(true) })),
+    },
+    errors: [400, 404],
+  },
+  {
+    method: 'post',
+    path: '/palettes/:id/report',
+    tag: 'Palettes',
+    summary: 'Report a palette to the moderators',
+    auth: 'required',
+    body: reportPaletteSchema,
+    responses: {
+      200: data(
+        'Already reported by this user',
+        z.object({ alreadyReported: z.literal(true) })
+      ),
+      201: data('Reported', z.object({ alreadyReported: z.literal(false) })),
+    },
+    errors: [404],
+  },
+  {
+    method: 'post',
+    path: '/palettes/:id/save',
+    tag: 'Palettes',
+    summary: 'Save a palette',
+    auth: 'required',
+    responses: {
+      200: data('Saved', z.object({ alreadySaved: z.boolean() })),
+    },
+    errors: [400, 404],
+  },
+  {
+    method: 'delete',
+    path: '/palettes/:id/save',
+    tag: 'Palettes',
+    summary: 'Unsave a palette',
+    auth: 'required',
+    responses: {
+      200: data(
+        'Unsaved',
+        z.object({
+          wasSaved: z.boolean(),
+          savesCount: z.number().int().optional(),
+        })
+      ),
+    },
+    errors: [400, 404],
+  },
+  {
+    method: 'post',
+    path: '/palettes/:id/like',
+    tag: 'Palettes',
+    summary: 'Like a palette',
+    description: 'Anonymous callers send `deviceId`.',
+    auth: 'optional',
+    body: deviceIdBody,
+    responses: {
+      200: data(
+        'Liked',
+        z.object({
+          alreadyLiked: z.boolean(),
+          likesCount: z.number().int().optional(),
+        })
+      ),
+    },
+    errors: [404],
+  },
+  {
+    method: 'delete',
+    path: '/palettes/:id/like',
+    tag: 'Palettes',
+    summary: 'Unlike a palette',
+    description: 'Anonymous callers send `deviceId`.',
+    auth: 'optional',
+    body: deviceIdBody,
+    responses: {
+      200: data(
+        'Unliked',
+        z.object({
+          wasLiked: z.boolean(),
+          likesCount: z.number().int().optional(),
+        })
+      ),
+    },
+    errors: [404],
+  },
+  {
+    method: 'get',
+    path: '/palettes/:id/likes',
+    tag: 'Palettes',
+    summary: "Like count and the viewer's like",
+    auth: 'optional',
+    query: z.object({ deviceId }),
+    responses: {
+      200: data(
+        'Like info',
+        z.object({ likesCount: z.number().int(), userLiked: z.boolean() })
+      ),
+    },
+    errors: [400],
+  },
+  {
+    method: 'get',
+    path: '/palettes/:id/comments',
+    tag: 'Comments',
+    summary: "List a palette's comments",
+    description: 'Top-level comments oldest first, each with its replies.',
+    auth: 'optional',
+    query: z.object({ limit: limit(50), cursor }),
+    responses: { 200: page('A page of comments', Comment) },
+    errors: [400, 404],
+  },
+  {
+    method: 'post',
+    path: '/palettes/:id/comments',
+    tag: 'Comments',
+    summary: 'Comment on a palette',
+    description: 'Reply to a top-level comment with `parentId`.',
+    auth: 'required',
+    body: createCommentSchema,
+    responses: {
+      201: data(
+        'The new comment',
+        z.object({ comment: Comment, commentsCount: z.number().int() })
+      ),
+    },
+    errors: [404],
+  },
+  {
+    method: 'get',
+    path: '/palettes/:id/related',
+    tag: 'Palettes',
+    summary: 'Public palettes sharing tags with a palette',
+    auth: 'optional',
+    query: z.object({ limit: limit(20) }),
+    responses: { 200: data('Related palettes', z.array(BrowsePalette)) },
+    errors: [400, 404],
+  },
+  {
+    method: 'get',
+    path: '/palettes/:id/export',
+    tag: 'Palettes',
+    summary: 'Download a palette in an export format',
+    auth: 'optional',
+    query: z.object({
+      format: z.string().describe('Export format id, e.g. `css`'),
+    }),
+    responses: {
+      200: {
+        description: 'The exported file (an attachment)',
+        body: z.string(),
+        contentType: 'application/octet-stream',
+      },
+    },
+    errors: [400, 404],
+  },
+  {
+    method: 'get',
+    path: '/palettes/:id/lineage',
+    tag: 'Palettes',
+    summary: 'The palettes a palette was remixed from',
+    auth: 'optional',
+    responses: {
+      200: data('Nearest parent first', z.array(LineagePalette)),
+    },
+    errors: [400, 404],
+  },
+  {
+    method: 'get',
+    path: '/palettes/:id/remixes',
+    tag: 'Palettes',
+    summary: 'Remixes of a palette, as a flat tree',
+    auth: 'optional',
+    query: z.object({ depth: z.number().int().min(1).max(5).default(3) }),
+    responses: { 200: data('Remixes', z.array(RemixPalette)) },
+    errors: [400, 404],
+  },
+  {
+    method: 'get',
+    path: '/palettes/:id/revisions',
+    tag: 'Palettes',
+    summary: "A palette's revision history",
+    auth: 'optional',
+    responses: { 200: data('Newest first', z.array(PaletteRevision)) },
+    errors: [400, 404],
+  },
+  {
+    method: 'get',
+    path: '/palettes/:id/revisions/:rev',
+    tag: 'Palettes',
+    summary: 'One revision of a palette',
+    auth: 'optional',
+    responses: { 200: data('The revision', PaletteRevision) },
+    errors: [400, 404],
+  },
+  {
+    method: 'post',
+    path: '/palettes/:id/revisions/:rev/restore',
+    tag: 'Palettes',
+    summary: 'Restore a palette to an earlier revision',
+    description: 'The restore is recorded as a new revision. Owner only.',
+    auth: 'required',
+    responses: {
+      200: data(
+        'Restored',
+        z.object({
+          restoredFrom: z.number().int(),
+          revision: z.number().int(),
+        })
+      ),
+    },
+    errors: [400, 403, 404],
+  },
+  {
+    method: 'post',
+    path: '/palettes/:id/remix',
+    tag: 'Palettes',
+    summary: 'Remix a palette',
+    auth: 'required',
+    responses: { 201: data('The remix', Palette) },
+    errors: [400, 404],
+    idempotent: true,
+  },
+
+  // Collections
+  {
+    method: 'get',
+    path: '/collections/my',
+    tag: 'Collections',
+    summary: "The signed-in user's collections",
+    auth: 'required',
+    responses: { 200: data('In display order', z.array(Collection)) },
+  },
+  {
+    method: 'post',
+    path: '/collections',
+    tag: 'Collections',
+    summary: 'Create a collection',
+    auth: 'required',
+    body: createCollectionSchema,
+    responses: { 201: data('The new collection', Collection) },
+  },
+  {
+    method: 'put',
+    path: '/collections/order',
+    tag: 'Collections',
+    summary: "Reorder the signed-in user's collections",
+    auth: 'required',
+    body: reorderCollectionsSchema,
+    responses: {
+      200: data('Reordered', z.object({ reordered: z.literal(true) })),
+    },
+  },
+  {
+    method: 'get',
+    path: '/collections/:id',
+    tag: 'Collections',
+    summary: 'Get a collection and its palettes',
+    description: 'Private collections are visible to their owner only.',
+    auth: 'optional',
+    responses: { 200: data('The collection', CollectionWithPalettes) },
+    errors: [400, 404],
+  },
+  {
+    method: 'patch',
+    path: '/collections/:id',
+    tag: 'Collections',
+    summary: 'Edit a collection',
+    auth: 'required',
+    body: updateCollectionSchema,
+    responses: { 200: data('The updated collection', Collection) },
+    errors: [404],
+  },
+  {
+    method: 'delete',
+    path: '/collections/:id',
+    tag: 'Collections',
+    summary: 'Delete a collection',
+    description: 'The palettes themselves are not affected.',
+    auth: 'required',
+    responses: {
+      200: data('Deleted', z.object({ deleted: z.literal(true) })),
+    },
+    errors: [400, 404],
+  },
+  {
+    method: 'post',
+    path: '/collections/:id/palettes',
+    tag: 'Collections',
+    summary: 'Add a palette to a collection',
+    description: 'Also saves the palette for the user.',
+    auth: 'required',
+    body: collectionPaletteSchema,
+    responses: {
+      200: data(
+        'Added (false when it was already there)',
+        z.object({ added: z.boolean() })
+      ),
+    },
+    errors: [404],
+  },
+  {
+    method: 'put',
+    path: '/collections/:id/palettes/order',
+    tag: 'Collections',
+    summary: 'Reorder the palettes in a collection',
+    description: 'List every palette in the collection exactly once.',
+    auth: 'required',
+    body: reorderCollectionPalettesSchema,
+    responses: {
+      200: data('Reordered', z.object({ reordered: z.literal(true) })),
+    },
+    errors: [400, 404],
+  },
+  {
+    method: 'delete',
+    path: '/collections/:id/palettes/:paletteId',
+    tag: 'Collections',
+    summary: 'Remove a palette from a collection',
+    auth: 'required',
+    responses: {
+      200: data('Removed', z.object({ removed: z.boolean() })),
+    },
+    errors: [400, 404],
+  },
+
+  // Comments
+  {
+    method: 'delete',
+    path: '/comments/:id',
+    tag: 'Comments',
+    summary: 'Delete a comment and its replies',
+    description: "Allowed for the comment's author and the palette owner.",
+    auth: 'required',
+    responses: {
+      200: data(
+        'Deleted',
+        z.object({
+          deleted: z.number().int(),
+          commentsCount: z.number().int(),
+        })
+      ),
+    },
+    errors: [400, 403, 404],
+  },
+
+  // Search
+  {
+    method: 'get',
+    path: '/search/suggest',
+    tag: 'Search',
+    summary: 'Type-ahead suggestions for the search box',
+    auth: 'none',
+    query: z.object({ q: z.string().max(100).optional() }),
+    responses: {
+      200: data(
+        'Matching tags and palettes',
+        z.object({
+          tags: z.array(Tag),
+          palettes: z.array(z.object({ id, name: z.string() })),
+        })
+      ),
+    },
+  },
+
+  // Generate
+  {
+    method: 'post',
+    path: '/generate/color',
+    tag: 'Generate',
+    summary: 'Generate a palette from base colors',
+    auth: 'required',
+    body: generateFromBaseColorSchema,
+    responses: { 200: data('The palette', generatedPaletteSchema) },
+  },
+  {
+    method: 'post',
+    path: '/generate/color/related',
+    tag: 'Generate',
+    summary: 'Harmonic relationships of a color',
+    auth: 'required',
+    body: relatedColorsSchema,
+    responses: { 200: data('Related colors', RelatedColors) },
+  },
+  {
+    method: 'post',
+    path: '/generate/color/suggestions',
+    tag: 'Generate',
+    summary: 'Ranked palette suggestions for a color',
+    auth: 'required',
+    body: paletteSuggestionsSchema,
+    responses: { 200: data('Best first', z.array(PaletteSuggestion)) },
+  },
+  {
+    method: 'post',
+    path: '/generate/mood',
+    tag: 'Generate',
+    summary: 'Generate a palette from mood text',
+    description: 'The same mood and seed always give the same palette.',
+    auth: 'required',
+    body: generateFromMoodSchema,
+    responses: { 200: data('The palette', generatedPaletteSchema) },
+  },
+  {
+    method: 'post',
+    path: '/generate/image',
+    tag: 'Generate',
+    summary: 'Generate a palette from image pixels',
+    auth: 'required',
+    body: generateFromImageSchema,
+    responses: { 200: data('The palette', generatedPaletteSchema) },
+    errors: [413],
+  },
+  {
+    method: 'post',
+    path: '/generate/image/suggestions',
+    tag: 'Generate',
+    summary: "Ranked palette suggestions for an image's colors",
+    auth: 'required',
+    body: imageSuggestionsSchema,
+    responses: { 200: data('Best first', z.array(PaletteSuggestion)) },
+  },
+
+  // Users
+  {
+    method: 'get',
+    path: '/users/:id',
+    tag: 'Users',
+    summary: "A user's public profile",
+    auth: 'optional',
+    responses: { 200: data('The profile', UserProfile) },
+    errors: [400, 404],
+  },
+  {
+    method: 'post',
+    path: '/users/:id/follow',
+    tag: 'Users',
+    summary: 'Follow a user',
+    auth: 'required',
+    responses: { 200: data('Following', FollowResult) },
+    errors: [400, 404],
+  },
+  {
+    method: 'delete',
+    path: '/users/:id/follow',
+    tag: 'Users',
+    summary: 'Unfollow a user',
+    auth: 'required',
+    responses: { 200: data('Not following', FollowResult) },
+    errors: [400, 404],
+  },
+
+  // Account
+  {
+    method: 'patch',
+    path: '/me',
+    tag: 'Account',
+    summary: "Edit the signed-in user's profile",
+    description: '`null` clears a field.',
+    auth: 'required',
+    body: updateProfileSchema,
+    responses: { 200: data('The profile', AuthorSummary) },
+  },
+  {
+    method: 'post',
+    path: '/me/claim-device',
+    tag: 'Account',
+    summary: "Move a device's anonymous activity to the account",
+    description: 'Safe to repeat; later calls move nothing.',
+    auth: 'required',
+    body: z.object({ deviceId: z.string() }),
+    responses: {
+      200: data(
+        'What was moved',
+        z.object({
+          palettes: z.number().int(),
+          likes: z.number().int(),
+          saves: z.number().int(),
+        })
+      ),
+    },
+  },
+  {
+    method: 'get',
+    path: '/me/api-keys',
+    tag: 'Account',
+    summary: "The signed-in user's API keys",
+    auth: 'firebase',
+    responses: { 200: data('Newest first', z.array(ApiKey)) },
+  },
+  {
+    method: 'post',
+    path: '/me/api-keys',
+    tag: 'Account',
+    summary: 'Issue an API key',
+    description: 'The full key is only ever returned here.',
+    auth: 'firebase',
+    body: createApiKeySchema,
+    responses: {
+      201: data('The new key', ApiKey.extend({ key: z.string() })),
+    },
+  },
+  {
+    method: 'delete',
+    path: '/me/api-keys/:id',
+    tag: 'Account',
+    summary: 'Revoke an API key',
+    auth: 'firebase',
+    responses: {
+      200: data('Revoked', z.object({ id, revokedAt: timestamp })),
+    },
+    errors: [400, 404],
+  },
+  {
+    method: 'get',
+    path: '/me/webhooks',
+    tag: 'Webhooks',
+    summary: "The signed-in user's webhooks",
+    auth: 'required',
+    responses: { 200: data('Newest first', z.array(Webhook)) },
+  },
+  {
+    method: 'post',
+    path: '/me/webhooks',
+    tag: 'Webhooks',
+    summary: 'Register a webhook',
+    description:
+      'Deliveries carry `X-Kulrs-Signature: t=<unix>,v1=<hex>`, the ' +
+      'HMAC-SHA256 of `<t>.<body>` keyed with the secret returned here ' +
+      '(and only here).',
+    auth: 'required',
+    body: createWebhookSchema,
+    responses: {
+      201: data('The new webhook', Webhook.extend({ secret: z.string() })),
+    },
+  },
+  {
+    method: 'delete',
+    path: '/me/webhooks/:id',
+    tag: 'Webhooks',
+    summary: 'Delete a webhook and its delivery log',
+    auth: 'required',
+    responses: {
+      200: data('Deleted', z.object({ deleted: z.literal(true) })),
+    },
+    errors: [400, 404],
+  },
+  {
+    method: 'get',
+    path: '/me/webhooks/:id/deliveries',
+    tag: 'Webhooks',
+    summary: "A webhook's recent deliveries",
+    auth: 'required',
+    query: z.object({ limit: limit(100) }),
+    responses: { 200: data('Newest first', z.array(WebhookDelivery)) },
+    errors: [400, 404],
+  },
+  {
+    method: 'post',
+    path: '/me/webhooks/:id/test',
+    tag: 'Webhooks',
+    summary: 'Send a test event now',
+    description: 'Test deliveries are logged but not retried.',
+    auth: 'required',
+    responses: { 200: data('The delivery', WebhookDelivery) },
+    errors: [400, 404],
+  },
+
+  // Moderation
+  {
+    method: 'get',
+    path: '/moderation/reports',
+    tag: 'Moderation',
+    summary: 'The reports queue',
+    auth: 'firebase',
+    query: z.object({
+      status: z.enum(REPORT_STATUSES).default('open'),
+      limit: limit(50),
+      cursor,
+    }),
+    responses: { 200: page('Oldest first', Report) },
+    errors: [400, 403],
+  },
+  {
+    method: 'post',
+    path: '/moderation/reports/:id/dismiss',
+    tag: 'Moderation',
+    summary: 'Dismiss an open report',
+    auth: 'firebase',
+    responses: {
+      200: data('Dismissed', z.object({ id, status: z.literal('dismissed') })),
+    },
+    errors: [400, 403, 404],
+  },
+  {
+    method: 'post',
+    path: '/moderation/palettes/:id/hide',
+    tag: 'Moderation',
+    summary: 'Hide a palette and resolve its open reports',
+    auth: 'firebase',
+    responses: { 200: data('Hidden', HiddenResult) },
+    errors: [400, 403, 404],
+  },
+  {
+    method: 'post',
+    path: '/moderation/palettes/:id/restore',
+    tag: 'Moderation',
+    summary: 'Make a hidden palette visible again',
+    auth: 'firebase',
+    responses: { 200: data('Visible', HiddenResult) },
+    errors: [400, 403, 404],
+  },
+  {
+    method: 'post',
+    path: '/moderation/users/:id/suspend',
+    tag: 'Moderation',
+    summary: 'Suspend a user',
+    description:
+      'Their writes are refused with 403; reads still work, as if signed out.',
+    auth: 'firebase',
+    responses: { 200: data('Suspended', SuspendResult) },
+    errors: [400, 403, 404],
+  },
+  {
+    method: 'post',
+    path: '/moderation/users/:id/unsuspend',
+    tag: 'Moderation',
+    summary: 'Reinstate a suspended user',
+    auth: 'firebase',
+    responses: { 200: data('Reinstated', SuspendResult) },
+    errors: [400, 403, 404],
+  },
+
+  // Jobs
+  {
+    method: 'post',
+    path: '/jobs/:name',
+    tag: 'Jobs',
+    summary: 'Run a scheduled job',
+    description: 'Called by Cloud Scheduler; 404 when JOB_SECRET is unset.',
+    auth: 'job',
+    responses: {
+      200: data(
+        'The job result',
+        z.object({
+          job: z.string(),
+          durationMs: z.number().int(),
+          result: z.unknown(),
+        })
+      ),
+    },
+    errors: [401, 404],
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Document
+// ---------------------------------------------------------------------------
+
+const PATH_PARAMS: Record<string, JsonSchema> = {
+  id: { type: 'string', format: 'uuid' },
+  paletteId: { type: 'string', format: 'uuid' },
+  tokenId: { type: 'string', format: 'uuid' },
+  rev: { type: 'integer', minimum: 1 },
+  name: { type: 'string', description: 'Job name' },
+};
+
+const ERROR_RESPONSES: Record<number, string> = {
+  400: 'Invalid request',
+  401: 'Authentication required',
+  403: 'Not allowed',
+  404: 'Not found',
+  409: 'Conflicts with an existing resource',
+  413: 'Request body too large',
+  429: 'Rate limit exceeded; see Retry-After',
+};
+
+const SECURITY: Record<Auth, Record<string, string[]>[] | undefined> = {
+  none: undefined,
+  optional: [{}, { firebase: [] }, { apiKey: [] }],
+  required: [{ firebase: [] }, { apiKey: [] }],
+  firebase: [{ firebase: [] }],
+  job: [{ jobSecret: [] }],
+};
+
+/** `/palettes/:id` → `/palettes/{id}` */
+export function toOpenApiPath(expressPath: string) {
+  return expressPath.replace(/:(\w+)/g, '{$1}');
+}
+
+function buildOperation(op: Operation, refs: SchemaRefs) {
+  const convert = (schema: ZodTypeAny) => zodToJsonSchema(schema, refs);
+
+  const parameters: JsonSchema[] = [];
+  for (const [, name] of op.path.matchAll(/:(\w+)/g)) {
+    const schema = PATH_PARAMS[name!];
+    if (!schema) throw new Error(`No schema for path parameter :${name}`);
+    parameters.push({ name, in: 'path', required: true, schema });
+  }
+  for (const [name, schema] of Object.entries(op.query?.shape ?? {})) {
+    const { description, ...rest } = convert(schema as ZodTypeAny);
+    parameters.push({
+      name,
+      in: 'query',
+      required: !(schema as ZodTypeAny).isOptional(),
+      ...(description ? { description } : {}),
+      schema: rest,
+    });
+  }
+
+  if (op.idempotent) {
+    parameters.push({
+      name: 'Idempotency-Key',
+      in: 'header',
+      required: false,
+      description:
+        'Retries with the same key within 24 hours get the first response ' +
+        '(marked `Idempotent-Replayed: true`); reusing it for a different ' +
+        'request is a 409',
+      schema: { type: 'string', minLength: 1, maxLength: 255 },
+    });
+  }
+
+  const responses: Record<string, unknown> = {};
+  for (const [status, spec] of Object.entries(op.responses)) {
+    responses[status] = {
+      description: spec.description,
+      ...(spec.body && {
+        content: {
+          [spec.contentType ?? 'application/json']: {
+            schema: convert(spec.body),
+          },
+        },
+      }),
+    };
+  }
+  const errors = new Set(op.errors);
+  if (op.body) errors.add(400);
+  if (op.auth === 'required' || op.auth === 'firebase') errors.add(401);
+  if (op.auth !== 'job') errors.add(429);
+  if (op.idempotent) errors.add(409);
+  for (const status of [...errors].sort()) {
+    responses[status] = { $ref: `#/components/responses/Error${status}` };
+  }
+
+  return {
+    tags: [op.tag],
+    summary: op.summary,
+    ...(op.description && { description: op.description }),
+    operationId: `${op.method}${toOpenApiPath(op.path)
+      .replace(/[{}]/g, '')
+      .replace(/[/.-](\w)/g, (_, c: string) => c.toUpperCase())}`,
+    ...(SECURITY[op.auth] && { security: SECURITY[op.auth] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(op.body && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: convert(op.body) } },
+      },
+    }),
+    responses,
+  };
+}
+
+/**
+ * The OpenAPI 3.1 document for every route in `operations`. Request bodies
+ * come straight from the validation schemas; responses from the shapes
+ * above.
+ */
+export function buildOpenApiDocument() {
+  const refs: SchemaRefs = new Map(
+    Object.entries(components).map(([name, schema]) => [schema, name])
+  );
+
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [name, schema] of Object.entries(components)) {
+    schemas[name] = zodToJsonSchema(schema, refs);
+  }
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const op of operations) {
+    const path = toOpenApiPath(op.path);
+    paths[path] = { ...paths[path], [op.method]: buildOperation(op, refs) };
+  }
+
+  const errorResponses: Record<string, unknown> = {};
+  for (const [status, description] of Object.entries(ERROR_RESPONSES)) {
+    errorResponses[`Error${status}`] = {
+      description,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/Error' },
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Kulrs API',
+      version: '0.1.0',
+      description:
+        'Every JSON response is `{ success: true, data }` or an error body.',
+    },
+    servers: [
+      { url: 'https://api.kulrs.com', description: 'Production' },
+      { url: 'https://api-staging.kulrs.com', description: 'Staging' },
+    ],
+    tags: [...new Set(operations.map(op => op.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      schemas,
+      responses: errorResponses,
+      securitySchemes: {
+        firebase: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'Firebase ID token',
+        },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-Api-Key' },
+        jobSecret: { type: 'apiKey', in: 'header', name: 'X-Job-Secret' },
+      },
+    },
+  };
+}
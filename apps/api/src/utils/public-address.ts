@@ -0,0 +1,117 @@
+import { lookup } from 'dns/promises';
+import type { LookupOptions } from 'dns';
+import { BlockList, LookupFunction, isIP } from 'net';
+import { Agent, fetch, RequestInit } from 'undici';
+
+/**
+ * Guards for outbound requests to user-supplied URLs (webhooks), so they
+ * can't be pointed at loopback, private networks or cloud metadata.
+ */
+
+/** Loopback, private, link-local, shared, documentation and other reserved ranges */
+const reserved = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, incl. 169.254.169.254 metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  reserved.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64, can reach IPv4 private ranges
+  ['100::', 64],
+  ['2001::', 23],
+  ['2001:db8::', 32],
+  ['2002::', 16], // 6to4, embeds an IPv4 address
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  reserved.addSubnet(network, prefix, 'ipv6');
+}
+
+/** Whether an IP address is in a private or reserved range. */
+export function isReservedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return reserved.check(address, 'ipv4');
+  if (family !== 6) return true;
+
+  // IPv4-mapped (::ffff:10.0.0.1) and -compatible addresses
+  const mapped = /^::(?:ffff:)?(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return reserved.check(mapped[1]!, 'ipv4');
+  if (/^::ffff:/i.test(address)) return true;
+  return reserved.check(address, 'ipv6');
+}
+
+/** Resolve `host` (or take it as given, if an IP) and refuse reserved addresses. */
+async function publicAddresses(host: string) {
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true, verbatim: true });
+
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address }) => isReservedAddress(address))
+  ) {
+    throw new Error(`${host} resolves to a private or reserved address`);
+  }
+  return addresses;
+}
+
+/**
+ * Resolve the URL's host and throw unless every address it resolves to is
+ * public. For validating URLs up front; requests go through publicFetch,
+ * which checks the address it actually connects to.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  await publicAddresses(new URL(url).hostname.replace(/^\[(.*)\]$/, '$1'));
+}
+
+/**
+ * DNS lookup for outgoing sockets that refuses reserved addresses. The
+ * socket connects to the address checked here, so a host can't pass the
+ * check and then rebind to a private address.
+ */
+const publicLookup = ((
+  hostname: string,
+  options: LookupOptions,
+  callback: (
+    error: Error | null,
+    address: string | { address: string; family: number }[],
+    family?: number
+  ) => void
+) => {
+  publicAddresses(hostname).then(
+    addresses => {
+      if (options.all) callback(null, addresses);
+      else callback(null, addresses[0]!.address, addresses[0]!.family);
+    },
+    error => callback(error, '')
+  );
+}) as LookupFunction;
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * `fetch` that only connects to public addresses. IP literals skip DNS,
+ * so they are checked before the request.
+ */
+export async function publicFetch(url: string, init: RequestInit = {}) {
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isIP(host)) await publicAddresses(host);
+  return fetch(url, { ...init, dispatcher: publicAgent });
+}
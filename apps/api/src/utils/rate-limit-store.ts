@@ -0,0 +1,93 @@
+import { lt, sql } from 'drizzle-orm';
+import { db } from '../config/database.js';
+import { rateLimits } from '@kulrs/db';
+
+/** State of one rate-limit bucket after counting a hit. */
+export interface RateLimitHit {
+  /** Hits in the current window, including this one */
+  count: number;
+  /** When the current window ends and the count starts over */
+  resetAt: Date;
+}
+
+/**
+ * Backing store for fixed-window rate-limit counters. Implementations must
+ * count concurrent hits atomically.
+ */
+export interface RateLimitStore {
+  /**
+   * Count a hit against `key`, starting a new `windowMs` window when the
+   * previous one has ended.
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+/** Sweep expired buckets once the map grows past this many keys. */
+const MEMORY_SWEEP_THRESHOLD = 10_000;
+
+/**
+ * Per-process counters. Fast, but each instance counts separately and the
+ * counts reset on every cold start — meant for development and tests.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, RateLimitHit>();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    if (this.buckets.size > MEMORY_SWEEP_THRESHOLD) this.sweep(now);
+
+    const bucket = this.buckets.get(key);
+    if (bucket && bucket.resetAt.getTime() > now) {
+      bucket.count += 1;
+      return { ...bucket };
+    }
+
+    const fresh = { count: 1, resetAt: new Date(now + windowMs) };
+    this.buckets.set(key, fresh);
+    return { ...fresh };
+  }
+
+  private sweep(now: number) {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.resetAt.getTime() <= now) this.buckets.delete(key);
+    }
+  }
+}
+
+/**
+ * Counters in the `rate_limits` table, shared by every instance and kept
+ * across cold starts. Each hit is a single upsert.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+    const expired = sql`${rateLimits.resetAt} <= ${now.toISOString()}::timestamp`;
+
+    const [bucket] = await db
+      .insert(rateLimits)
+      .values({ key, count: 1, resetAt })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          count: sql`CASE WHEN ${expired} THEN 1 ELSE ${rateLimits.count} + 1 END`,
+          resetAt: sql`CASE WHEN ${expired} THEN excluded.reset_at ELSE ${rateLimits.resetAt} END`,
+        },
+      })
+      .returning({ count: rateLimits.count, resetAt: rateLimits.resetAt });
+
+    return bucket!;
+  }
+
+  /**
+   * Delete buckets whose window ended more than an hour ago. Run
+   * periodically by the prune-rate-limits job.
+   */
+  async prune() {
+    const cutoff = new Date(Date.now() - 60 * 60_000);
+    const result = await db
+      .delete(rateLimits)
+      .where(lt(rateLimits.resetAt, cutoff));
+    return { pruned: result.rowCount ?? 0 };
+  }
+}
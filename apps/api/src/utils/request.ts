@@ -0,0 +1,70 @@
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { paletteService } from '../services/palette.service.js';
+import {
+  BadRequestError,
+  ForbiddenError,
+  UnauthorizedError,
+} from './errors.js';
+import { isValidUUID } from './validation.js';
+
+/**
+ * Shared request helpers for route handlers.
+ */
+
+/** Clamp a numeric query param to [min, max]. */
+export function clampInt(
+  raw: string | undefined,
+  fallback: number,
+  min: number,
+  max: number
+): number {
+  const n = parseInt(raw ?? String(fallback), 10);
+  if (Number.isNaN(n)) return fallback;
+  return Math.max(min, Math.min(max, n));
+}
+
+/** Validate a deviceId string or throw. */
+export function validateDeviceId(
+  deviceId: unknown
+): asserts deviceId is string {
+  if (
+    typeof deviceId !== 'string' ||
+    deviceId.length > 128 ||
+    !/^[\w-]+$/.test(deviceId)
+  ) {
+    throw new BadRequestError('Invalid deviceId format');
+  }
+}
+
+/** Require an authenticated user or throw 401. */
+export function requireAuth(
+  req: AuthenticatedRequest
+): NonNullable<AuthenticatedRequest['user']> {
+  if (!req.user) throw new UnauthorizedError();
+  return req.user;
+}
+
+/**
+ * The signed-in viewer for reads that work with or without auth, or null
+ * when signed out. A suspended account reads as anonymous: suspension only
+ * blocks writes.
+ */
+export async function optionalViewer(req: AuthenticatedRequest) {
+  if (!req.user) return null;
+  try {
+    return await paletteService.getOrCreateUser(req.user.uid, req.user.email);
+  } catch (err) {
+    if (err instanceof ForbiddenError) return null;
+    throw err;
+  }
+}
+
+/**
+ * Validate that `id` is a well-formed UUID, throwing 400 with a message
+ * naming the kind of resource (e.g. "Invalid palette id format").
+ */
+export function requireValidId(id: string, kind: string): void {
+  if (!isValidUUID(id)) {
+    throw new BadRequestError(`Invalid ${kind} id format`);
+  }
+}
@@ -50,10 +50,55 @@ export const createPaletteSchema = z.object({
   tagIds: z.array(z.string().uuid()).optional(),
   // Anonymous users send a deviceId for palette creation
   deviceId: z.string().optional(),
+  // What to do when an identical public palette already exists:
+  // 'existing' returns it instead of creating a copy, 'reject' responds 409
+  onDuplicate: z.enum(['existing', 'reject']).default('existing'),
 });
 
 export type CreatePaletteInput = z.infer<typeof createPaletteSchema>;
 
+// Full color replacement for an existing palette. `role` and `oklch` carry
+// exact generator values; clients that only know hex may leave them out.
+export const updatePaletteColorsSchema = z.object({
+  colors: z
+    .array(
+      z.object({
+        hexValue: z.string().regex(/^#[0-9a-f]{6}$/i, 'Expected #RRGGBB'),
+        position: z.number().int().min(0),
+        name: z.string().max(100),
+        role: z.string().max(50).nullable().optional(),
+        oklch: oklchColorSchema.nullable().optional(),
+      })
+    )
+    .min(1)
+    .max(12),
+});
+
+// Metadata edits for an existing palette. `tags` replaces the palette's full
+// tag set; tags are given by name and created if they don't exist yet.
+export const updatePaletteSchema = z
+  .object({
+    name: z.string().trim().min(1).max(255).optional(),
+    description: z.string().max(1000).nullable().optional(),
+    isPublic: z.boolean().optional(),
+    tags: z
+      .array(
+        z
+          .string()
+          .trim()
+          .min(1)
+          .max(50)
+          .regex(/[a-z0-9]/i, 'Tag must contain a letter or digit')
+      )
+      .max(20)
+      .optional(),
+  })
+  .refine(data => Object.values(data).some(v => v !== undefined), {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdatePaletteInput = z.infer<typeof updatePaletteSchema>;
+
 export const ensureTagsSchema = z.object({
   tags: z
     .array(
@@ -73,6 +118,204 @@ export const ensureTagsSchema = z.object({
 
 export type EnsureTagsInput = z.infer<typeof ensureTagsSchema>;
 
+// Profile edits for the signed-in user (PATCH /me); null clears a field
+export const updateProfileSchema = z
+  .object({
+    displayName: z.string().trim().min(1).max(255).nullable().optional(),
+    photoUrl: z
+      .string()
+      .url()
+      .max(2048)
+      .regex(/^https?:\/\//i, 'photoUrl must be an http(s) URL')
+      .nullable()
+      .optional(),
+  })
+  .refine(data => Object.values(data).some(v => v !== undefined), {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+
+// Moderation schemas
+export const REPORT_REASONS = [
+  'spam',
+  'offensive',
+  'copyright',
+  'other',
+] as const;
+
+export const REPORT_STATUSES = ['open', 'resolved', 'dismissed'] as const;
+
+export const reportPaletteSchema = z.object({
+  reason: z.enum(REPORT_REASONS),
+  details: z.string().trim().max(1000).optional(),
+});
+
+export type ReportPaletteInput = z.infer<typeof reportPaletteSchema>;
+export type ReportStatus = (typeof REPORT_STATUSES)[number];
+
+// API key schemas
+/** `write` acts on behalf of the key's owner (or the signed-in user) */
+export const API_KEY_SCOPES = ['read', 'generate', 'write'] as const;
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES))
+    .min(1)
+    .transform(scopes => [...new Set(scopes)]),
+  /** Browser origins allowed to send the key, e.g. https://vizail.com */
+  allowedOrigins: z
+    .array(
+      z
+        .string()
+        .url()
+        .refine(url => new URL(url).origin === url, {
+          message: 'Must be an origin like https://example.com',
+        })
+    )
+    .max(10)
+    .default([]),
+  /** Per-route-group request caps; may only lower the defaults */
+  quotas: z.record(z.number().int().min(1)).default({}),
+});
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+
+// Webhook schemas
+export const WEBHOOK_EVENTS = [
+  'palette.created',
+  'palette.updated',
+  'palette.deleted',
+  'palette.liked',
+  'palette.remixed',
+] as const;
+
+export const createWebhookSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .max(2048)
+    .regex(/^https:\/\//i, 'Webhook URLs must use https'),
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS))
+    .min(1)
+    .transform(events => [...new Set(events)]),
+  description: z.string().trim().max(255).optional(),
+});
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+
+// Comment schemas
+export const createCommentSchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+  /** Top-level comment being replied to */
+  parentId: z.string().uuid().optional(),
+});
+
+export type CreateCommentInput = z.infer<typeof createCommentSchema>;
+
+// Collection schemas
+export const createCollectionSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(1000).optional(),
+  isPublic: z.boolean().default(false),
+});
+
+export const updateCollectionSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    description: z.string().max(1000).nullable().optional(),
+    isPublic: z.boolean().optional(),
+  })
+  .refine(data => Object.values(data).some(v => v !== undefined), {
+    message: 'At least one field must be provided',
+  });
+
+export const reorderCollectionsSchema = z.object({
+  collectionIds: z.array(z.string().uuid()).min(1).max(200),
+});
+
+export const collectionPaletteSchema = z.object({
+  paletteId: z.string().uuid(),
+});
+
+export const reorderCollectionPalettesSchema = z.object({
+  paletteIds: z.array(z.string().uuid()).min(1).max(1000),
+});
+
+export type CreateCollectionInput = z.infer<typeof createCollectionSchema>;
+export type UpdateCollectionInput = z.infer<typeof updateCollectionSchema>;
+
+// Browse pagination cursor (decoded payload of the opaque ?cursor= token).
+// Timestamps are Postgres text renderings so they keep microsecond precision.
+const cursorTimestampSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d{1,6})?$/);
+
+export const browseCursorSchema = z.discriminatedUnion('sort', [
+  z.object({
+    sort: z.literal('recent'),
+    createdAt: cursorTimestampSchema,
+    id: z.string().uuid(),
+  }),
+  z.object({
+    sort: z.literal('following'),
+    createdAt: cursorTimestampSchema,
+    id: z.string().uuid(),
+  }),
+  z.object({
+    sort: z.literal('popular'),
+    likesCount: z.number().int().min(0),
+    createdAt: cursorTimestampSchema,
+    id: z.string().uuid(),
+  }),
+  z.object({
+    sort: z.literal('trending'),
+    score: z.number().min(0),
+    createdAt: cursorTimestampSchema,
+    id: z.string().uuid(),
+  }),
+  z.object({
+    sort: z.literal('relevance'),
+    rank: z.number().min(0),
+    createdAt: cursorTimestampSchema,
+    id: z.string().uuid(),
+  }),
+  z.object({
+    sort: z.literal('color'),
+    offset: z.number().int().min(0).max(10_000),
+  }),
+]);
+
+export type BrowseCursor = z.infer<typeof browseCursorSchema>;
+
+// Saved-palettes cursor: position of the last save on the previous page
+export const savedCursorSchema = z.object({
+  savedAt: cursorTimestampSchema,
+  id: z.string().uuid(),
+});
+
+export type SavedCursor = z.infer<typeof savedCursorSchema>;
+
+// Comments cursor: position of the last top-level comment on the previous page
+export const commentCursorSchema = z.object({
+  createdAt: cursorTimestampSchema,
+  id: z.string().uuid(),
+});
+
+export type CommentCursor = z.infer<typeof commentCursorSchema>;
+
+// Reports-queue cursor: position of the last report on the previous page
+export const reportCursorSchema = z.object({
+  createdAt: cursorTimestampSchema,
+  id: z.string().uuid(),
+});
+
+export type ReportCursor = z.infer<typeof reportCursorSchema>;
+
 // Palette generator schemas
 export const generateFromBaseColorSchema = z
   .object({
@@ -8,6 +8,9 @@ import { Compose } from './pages/Compose';
 import { Pattern } from './pages/Pattern';
 import { Scratch } from './pages/Scratch';
 import { Design } from './pages/Design';
+import { Collections } from './pages/Collections';
+import { CollectionDetail } from './pages/CollectionDetail';
+import { Profile } from './pages/Profile';
 import './App.css';
 
 function App() {
@@ -23,6 +26,9 @@ function App() {
           <Route path="/design" element={<Design />} />{' '}
           <Route path="/login" element={<Login />} />
           <Route path="/palette/:id" element={<PaletteDetail />} />
+          <Route path="/collections" element={<Collections />} />
+          <Route path="/collections/:id" element={<CollectionDetail />} />
+          <Route path="/u/:id" element={<Profile />} />
         </Routes>
       </Layout>
     </BrowserRouter>
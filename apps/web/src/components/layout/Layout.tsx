@@ -109,6 +109,11 @@ export function Layout({ children }: LayoutProps) {
                 Details
               </Link>
             )}
+            {user && (
+              <Link to="/collections" onClick={closeMobileMenu}>
+                Collections
+              </Link>
+            )}
             {user ? (
               <>
                 <span className="nav-user" title={user.email || undefined}>
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import {
+  getMyCollections,
+  addPaletteToCollection,
+  type Collection,
+} from '../../services/api';
+import './AddToCollection.css';
+
+interface AddToCollectionProps {
+  paletteId: string;
+  onAdded?: (collection: Collection, added: boolean) => void;
+  onError?: (message: string) => void;
+}
+
+/**
+ * Dropdown that adds the current palette to one of the user's collections.
+ * Only render this for signed-in users.
+ */
+export function AddToCollection({
+  paletteId,
+  onAdded,
+  onError,
+}: AddToCollectionProps) {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    getMyCollections()
+      .then(result => setCollections(result.data))
+      .catch(err => console.error('Error loading collections:', err));
+  }, []);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const collection = collections.find(c => c.id === e.target.value);
+    e.target.value = '';
+    if (!collection) return;
+
+    setBusy(true);
+    try {
+      const result = await addPaletteToCollection(collection.id, paletteId);
+      onAdded?.(collection, result.data.added);
+    } catch (err) {
+      console.error('Error adding palette to collection:', err);
+      onError?.('Failed to add palette to collection');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (collections.length === 0) return null;
+
+  return (
+    <label className="add-to-collection">
+      <select
+        defaultValue=""
+        onChange={handleChange}
+        disabled={busy}
+        aria-label="Add to collection"
+      >
+        <option value="" disabled>
+          + Add to collection
+        </option>
+        {collections.map(c => (
+          <option key={c.id} value={c.id}>
+            {c.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -2,13 +2,21 @@ import { useMemo, useState } from 'react';
 import {
   type GeneratedPalette,
   type OKLCHColor,
+  type PaletteExportFormatId,
   oklchToRgb,
+  rgbToCmyk,
+  rgbToBlenderHex,
+  getPaletteExportFormat,
+  paletteExportFileName,
+  PALETTE_EXPORT_FORMATS,
 } from '@kulrs/shared';
 import { oklchToHex } from './paletteUtils';
 import './ColorExportTable.css';
 
 interface ColorExportTableProps {
   palette: GeneratedPalette;
+  /** Palette name used in exported files (matches the API export) */
+  name: string;
 }
 
 interface ColorValues {
@@ -18,79 +26,18 @@ interface ColorValues {
   blenderHex: string;
 }
 
-/**
- * Convert RGB to CMYK
- * CMYK values are percentages (0-100)
- */
-function rgbToCmyk(
-  r: number,
-  g: number,
-  b: number
-): { c: number; m: number; y: number; k: number } {
-  const rNorm = r / 255;
-  const gNorm = g / 255;
-  const bNorm = b / 255;
-
-  const k = 1 - Math.max(rNorm, gNorm, bNorm);
-
-  if (k === 1) {
-    return { c: 0, m: 0, y: 0, k: 100 };
-  }
-
-  const c = ((1 - rNorm - k) / (1 - k)) * 100;
-  const m = ((1 - gNorm - k) / (1 - k)) * 100;
-  const y = ((1 - bNorm - k) / (1 - k)) * 100;
-
-  return {
-    c: Math.round(c),
-    m: Math.round(m),
-    y: Math.round(y),
-    k: Math.round(k * 100),
-  };
-}
-
-/**
- * Convert sRGB to linear RGB (gamma correction)
- * This is what Blender expects for proper color representation
- */
-function srgbToLinear(value: number): number {
-  const normalized = value / 255;
-  if (normalized <= 0.04045) {
-    return normalized / 12.92;
-  }
-  return Math.pow((normalized + 0.055) / 1.055, 2.4);
-}
-
-/**
- * Convert linear RGB to hex for Blender
- * Blender uses linear color space, so we need to convert from sRGB
- */
-function rgbToBlenderHex(r: number, g: number, b: number): string {
-  // Convert to linear
-  const linearR = srgbToLinear(r);
-  const linearG = srgbToLinear(g);
-  const linearB = srgbToLinear(b);
-
-  // Convert back to 0-255 range for hex representation
-  const toHex = (n: number) =>
-    Math.round(Math.max(0, Math.min(255, n * 255)))
-      .toString(16)
-      .padStart(2, '0');
-
-  return `#${toHex(linearR)}${toHex(linearG)}${toHex(linearB)}`.toUpperCase();
-}
-
 function getColorValues(color: OKLCHColor): ColorValues {
   const rgb = oklchToRgb(color);
   const hex = oklchToHex(color);
-  const cmyk = rgbToCmyk(rgb.r, rgb.g, rgb.b);
-  const blenderHex = rgbToBlenderHex(rgb.r, rgb.g, rgb.b);
+  const cmyk = rgbToCmyk(rgb);
+  const blenderHex = rgbToBlenderHex(rgb);
 
   return { hex, rgb, cmyk, blenderHex };
 }
 
-export function ColorExportTable({ palette }: ColorExportTableProps) {
+export function ColorExportTable({ palette, name }: ColorExportTableProps) {
   const [copiedValue, setCopiedValue] = useState<string | null>(null);
+  const [formatId, setFormatId] = useState<PaletteExportFormatId>('csv');
 
   const colorData = useMemo(() => {
     return palette.colors.map(c => ({
@@ -110,22 +57,19 @@ export function ColorExportTable({ palette }: ColorExportTableProps) {
     }
   };
 
-  const handleExportCSV = () => {
-    const headers = ['Role', 'Hex', 'RGB', 'CMYK', 'Blender Hex'];
-    const rows = colorData.map(c => [
-      c.role,
-      c.values.hex,
-      `rgb(${c.values.rgb.r}, ${c.values.rgb.g}, ${c.values.rgb.b})`,
-      `cmyk(${c.values.cmyk.c}%, ${c.values.cmyk.m}%, ${c.values.cmyk.y}%, ${c.values.cmyk.k}%)`,
-      c.values.blenderHex,
-    ]);
+  const handleExport = () => {
+    const format = getPaletteExportFormat(formatId);
+    if (!format) return;
 
-    const csvContent = [headers, ...rows].map(row => row.join(',')).join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const output = format.format({
+      name,
+      colors: colorData.map(c => ({ hex: c.values.hex, name: c.role })),
+    });
+    const blob = new Blob([output as BlobPart], { type: format.mimeType });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `palette-${new Date().toISOString().slice(0, 10)}.csv`;
+    a.download = paletteExportFileName(name, format);
     a.click();
     URL.revokeObjectURL(url);
   };
@@ -134,9 +78,23 @@ export function ColorExportTable({ palette }: ColorExportTableProps) {
     <div className="color-export-table-container">
       <div className="export-header">
         <h3>Color Values</h3>
-        <button onClick={handleExportCSV} className="export-csv-button">
-          Export CSV
-        </button>
+        <div className="export-controls">
+          <select
+            value={formatId}
+            onChange={e => setFormatId(e.target.value as PaletteExportFormatId)}
+            className="export-format-select"
+            aria-label="Export format"
+          >
+            {PALETTE_EXPORT_FORMATS.map(format => (
+              <option key={format.id} value={format.id}>
+                {format.label}
+              </option>
+            ))}
+          </select>
+          <button onClick={handleExport} className="export-csv-button">
+            Export
+          </button>
+        </div>
       </div>
       <div className="table-wrapper">
         <table className="color-export-table">
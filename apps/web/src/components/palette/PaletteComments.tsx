@@ -0,0 +1,259 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { AuthorLink } from '../user/AuthorLink';
+import {
+  deleteComment,
+  getPaletteComments,
+  postPaletteComment,
+  type PaletteComment,
+} from '../../services/api';
+import './PaletteComments.css';
+
+interface PaletteCommentsProps {
+  paletteId: string;
+  /** `commentsCount` from the palette response, until a post/delete updates it */
+  initialCount?: number;
+}
+
+/** Mirrors the API's comment length limit */
+const MAX_COMMENT_LENGTH = 2000;
+
+function CommentForm({
+  placeholder,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    setPosting(true);
+    setError(null);
+    try {
+      await onSubmit(body.trim());
+      setBody('');
+    } catch (err) {
+      console.error('Error posting comment:', err);
+      setError('Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <form className="comment-form" onSubmit={handleSubmit}>
+      <textarea
+        value={body}
+        onChange={e => setBody(e.target.value)}
+        placeholder={placeholder}
+        maxLength={MAX_COMMENT_LENGTH}
+        rows={onCancel ? 2 : 3}
+        autoFocus={Boolean(onCancel)}
+      />
+      {error && <p className="comment-error">{error}</p>}
+      <div className="comment-form-actions">
+        <button type="submit" disabled={posting || !body.trim()}>
+          {posting ? 'Posting…' : 'Post'}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} disabled={posting}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+function CommentItem({
+  comment,
+  canReply,
+  onReply,
+  onDelete,
+}: {
+  comment: PaletteComment;
+  canReply: boolean;
+  onReply?: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <div className="comment">
+      <div className="comment-meta">
+        {comment.author ? (
+          <AuthorLink author={comment.author} />
+        ) : (
+          <span>Anonymous</span>
+        )}
+        <span className="comment-date">
+          {new Date(comment.createdAt).toLocaleDateString()}
+        </span>
+      </div>
+      <p className="comment-body">{comment.body}</p>
+      <div className="comment-actions">
+        {canReply && onReply && <button onClick={onReply}>Reply</button>}
+        {comment.canDelete && <button onClick={onDelete}>Delete</button>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Discussion under a palette: top-level comments, oldest first, each with
+ * one level of replies. Signed-in users can comment and reply; authors and
+ * the palette owner can delete.
+ */
+export function PaletteComments({
+  paletteId,
+  initialCount,
+}: PaletteCommentsProps) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<PaletteComment[]>([]);
+  const [updatedCount, setUpdatedCount] = useState<number | null>(null);
+  const commentsCount = updatedCount ?? initialCount;
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  // Reload on sign-in/sign-out so `canDelete` reflects the current viewer
+  useEffect(() => {
+    let cancelled = false;
+    getPaletteComments(paletteId)
+      .then(result => {
+        if (cancelled) return;
+        setComments(result.data);
+        setNextCursor(result.nextCursor);
+        setUpdatedCount(null);
+        setReplyingTo(null);
+      })
+      .catch(err => console.error('Error loading comments:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [paletteId, user]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    try {
+      const result = await getPaletteComments(paletteId, nextCursor);
+      setComments(prev => [...prev, ...result.data]);
+      setNextCursor(result.nextCursor);
+    } catch (err) {
+      console.error('Error loading more comments:', err);
+    }
+  };
+
+  const handlePost = async (body: string, parentId?: string) => {
+    const result = await postPaletteComment(paletteId, body, parentId);
+    const created = result.data.comment;
+    setUpdatedCount(result.data.commentsCount);
+    if (parentId) {
+      setComments(prev =>
+        prev.map(c =>
+          c.id === parentId
+            ? { ...c, replies: [...(c.replies ?? []), created] }
+            : c
+        )
+      );
+      setReplyingTo(null);
+    } else if (!nextCursor) {
+      // Oldest first: a new comment belongs on the last page
+      setComments(prev => [...prev, created]);
+    }
+  };
+
+  const handleDelete = async (comment: PaletteComment) => {
+    if (!window.confirm('Delete this comment?')) return;
+    try {
+      const result = await deleteComment(comment.id);
+      setUpdatedCount(result.data.commentsCount);
+      setComments(prev =>
+        comment.parentId
+          ? prev.map(c =>
+              c.id === comment.parentId
+                ? {
+                    ...c,
+                    replies: (c.replies ?? []).filter(r => r.id !== comment.id),
+                  }
+                : c
+            )
+          : prev.filter(c => c.id !== comment.id)
+      );
+    } catch (err) {
+      console.error('Error deleting comment:', err);
+    }
+  };
+
+  return (
+    <section className="palette-comments">
+      <h3>
+        Comments
+        {commentsCount !== undefined && (
+          <span className="comments-count">{commentsCount}</span>
+        )}
+      </h3>
+
+      {user ? (
+        <CommentForm
+          placeholder="Share your thoughts on this palette"
+          onSubmit={body => handlePost(body)}
+        />
+      ) : (
+        <p className="comments-login">
+          <Link to="/login">Log in</Link> to join the discussion.
+        </p>
+      )}
+
+      {comments.length === 0 ? (
+        <p className="comments-empty">No comments yet.</p>
+      ) : (
+        <ul className="comment-list">
+          {comments.map(comment => (
+            <li key={comment.id}>
+              <CommentItem
+                comment={comment}
+                canReply={Boolean(user)}
+                onReply={() => setReplyingTo(comment.id)}
+                onDelete={() => handleDelete(comment)}
+              />
+              {(comment.replies ?? []).length > 0 && (
+                <ul className="comment-replies">
+                  {comment.replies!.map(reply => (
+                    <li key={reply.id}>
+                      <CommentItem
+                        comment={reply}
+                        canReply={false}
+                        onDelete={() => handleDelete(reply)}
+                      />
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {replyingTo === comment.id && (
+                <div className="comment-replies">
+                  <CommentForm
+                    placeholder="Write a reply"
+                    onSubmit={body => handlePost(body, comment.id)}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {nextCursor && (
+        <button className="comments-load-more" onClick={loadMore}>
+          Load more comments
+        </button>
+      )}
+    </section>
+  );
+}
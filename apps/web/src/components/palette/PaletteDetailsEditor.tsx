@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { updatePaletteDetails, type PaletteTag } from '../../services/api';
+import './PaletteDetailsEditor.css';
+
+export interface PaletteDetails {
+  name: string;
+  description: string | null;
+  isPublic: boolean;
+  tags: PaletteTag[];
+}
+
+interface PaletteDetailsEditorProps {
+  paletteId: string;
+  details: PaletteDetails;
+  isOwner: boolean;
+  onUpdated: (details: PaletteDetails) => void;
+  onError: (message: string) => void;
+}
+
+/** Split a comma-separated tag field into unique, trimmed names. */
+function parseTags(value: string): string[] {
+  return [
+    ...new Set(
+      value
+        .split(',')
+        .map(tag => tag.trim())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+/**
+ * Palette name, description, visibility and tags, with inline editing
+ * for the owner.
+ */
+export function PaletteDetailsEditor({
+  paletteId,
+  details,
+  isOwner,
+  onUpdated,
+  onError,
+}: PaletteDetailsEditorProps) {
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [draftName, setDraftName] = useState(details.name);
+  const [draftDescription, setDraftDescription] = useState(
+    details.description ?? ''
+  );
+  const [draftIsPublic, setDraftIsPublic] = useState(details.isPublic);
+  const [draftTags, setDraftTags] = useState(
+    details.tags.map(tag => tag.name).join(', ')
+  );
+
+  const startEditing = () => {
+    setDraftName(details.name);
+    setDraftDescription(details.description ?? '');
+    setDraftIsPublic(details.isPublic);
+    setDraftTags(details.tags.map(tag => tag.name).join(', '));
+    setEditing(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = draftName.trim();
+    if (!name) return;
+
+    setSaving(true);
+    try {
+      const result = await updatePaletteDetails(paletteId, {
+        name,
+        description: draftDescription.trim() || null,
+        isPublic: draftIsPublic,
+        tags: parseTags(draftTags),
+      });
+      onUpdated(result.data);
+      setEditing(false);
+    } catch (err) {
+      console.error('Error updating palette details:', err);
+      onError('Failed to update palette');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (editing) {
+    return (
+      <form className="palette-details-form" onSubmit={handleSubmit}>
+        <input
+          value={draftName}
+          onChange={e => setDraftName(e.target.value)}
+          maxLength={255}
+          placeholder="Palette name"
+          aria-label="Palette name"
+          autoFocus
+        />
+        <textarea
+          value={draftDescription}
+          onChange={e => setDraftDescription(e.target.value)}
+          maxLength={1000}
+          rows={2}
+          placeholder="Description"
+          aria-label="Description"
+        />
+        <input
+          value={draftTags}
+          onChange={e => setDraftTags(e.target.value)}
+          placeholder="Tags, comma separated"
+          aria-label="Tags"
+        />
+        <label className="palette-details-visibility">
+          <input
+            type="checkbox"
+            checked={draftIsPublic}
+            onChange={e => setDraftIsPublic(e.target.checked)}
+          />
+          Public
+        </label>
+        <div className="palette-details-form-actions">
+          <button type="submit" disabled={saving || !draftName.trim()}>
+            {saving ? 'Saving…' : 'Save'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setEditing(false)}
+            disabled={saving}
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="palette-details">
+      <h2>
+        {details.name}
+        <i
+          className={`palette-details-visibility-icon fa-solid ${details.isPublic ? 'fa-globe' : 'fa-lock'}`}
+          title={details.isPublic ? 'Public' : 'Private'}
+        ></i>
+        {isOwner && (
+          <button
+            className="palette-details-edit"
+            onClick={startEditing}
+            title="Edit name, description and tags"
+            aria-label="Edit palette details"
+          >
+            <i className="fa-solid fa-pen"></i>
+          </button>
+        )}
+      </h2>
+      {details.tags.length > 0 && (
+        <ul className="palette-details-tags">
+          {details.tags.map(tag => (
+            <li key={tag.id}>{tag.name}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
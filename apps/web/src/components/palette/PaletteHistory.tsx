@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import {
+  getPaletteRevisions,
+  restorePaletteRevision,
+  type PaletteRevision,
+} from '../../services/api';
+import './PaletteHistory.css';
+
+interface PaletteHistoryProps {
+  paletteId: string;
+  isOwner: boolean;
+  /** Bump to force a reload, e.g. after the palette was updated elsewhere. */
+  refreshKey?: number;
+  onRestored?: () => void;
+}
+
+type DiffStatus = 'same' | 'changed' | 'added' | 'removed';
+
+interface DiffEntry {
+  position: number;
+  hexValue: string;
+  previousHex: string | null;
+  status: DiffStatus;
+}
+
+/**
+ * Compare a revision against the one before it, position by position.
+ * Positions present only in the older revision are reported as `removed`.
+ */
+function diffRevisions(
+  current: PaletteRevision,
+  previous: PaletteRevision | undefined
+): DiffEntry[] {
+  const prevByPosition = new Map(
+    (previous?.colors ?? []).map(c => [c.position, c.hexValue.toUpperCase()])
+  );
+  const entries: DiffEntry[] = current.colors.map(c => {
+    const hex = c.hexValue.toUpperCase();
+    const prevHex = prevByPosition.get(c.position) ?? null;
+    let status: DiffStatus = 'same';
+    if (previous) {
+      if (prevHex === null) status = 'added';
+      else if (prevHex !== hex) status = 'changed';
+    }
+    return {
+      position: c.position,
+      hexValue: hex,
+      previousHex: prevHex,
+      status,
+    };
+  });
+
+  const currentPositions = new Set(current.colors.map(c => c.position));
+  for (const [position, hex] of prevByPosition) {
+    if (!currentPositions.has(position)) {
+      entries.push({
+        position,
+        hexValue: hex,
+        previousHex: hex,
+        status: 'removed',
+      });
+    }
+  }
+
+  return entries.sort((a, b) => a.position - b.position);
+}
+
+export function PaletteHistory({
+  paletteId,
+  isOwner,
+  refreshKey = 0,
+  onRestored,
+}: PaletteHistoryProps) {
+  const [revisions, setRevisions] = useState<PaletteRevision[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getPaletteRevisions(paletteId)
+      .then(res => {
+        if (cancelled) return;
+        setRevisions(res.data);
+        setSelected(0);
+      })
+      .catch(err => {
+        console.error('Error loading palette history:', err);
+        if (!cancelled) setError('Failed to load history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [paletteId, refreshKey]);
+
+  const handleRestore = async (revision: number) => {
+    setRestoring(true);
+    try {
+      await restorePaletteRevision(paletteId, revision);
+      onRestored?.();
+    } catch (err) {
+      console.error('Failed to restore revision:', err);
+      setError('Failed to restore revision');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="palette-history">Loading history…</div>;
+  }
+
+  if (error) {
+    return <div className="palette-history history-error">{error}</div>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="palette-history">
+        <p className="history-empty">No earlier versions yet.</p>
+      </div>
+    );
+  }
+
+  const current = revisions[selected];
+  const previous = revisions[selected + 1];
+  const diff = diffRevisions(current, previous);
+  const isLatest = selected === 0;
+
+  return (
+    <div className="palette-history">
+      <div className="history-nav">
+        <button
+          className="history-step"
+          onClick={() => setSelected(i => i + 1)}
+          disabled={selected >= revisions.length - 1}
+          aria-label="Older revision"
+        >
+          <i className="fa-solid fa-chevron-left"></i>
+        </button>
+        <div className="history-label">
+          <strong>Revision {current.revision}</strong>
+          {isLatest && <span className="history-badge">current</span>}
+          <span className="history-date">
+            {new Date(current.createdAt).toLocaleString()}
+          </span>
+        </div>
+        <button
+          className="history-step"
+          onClick={() => setSelected(i => i - 1)}
+          disabled={isLatest}
+          aria-label="Newer revision"
+        >
+          <i className="fa-solid fa-chevron-right"></i>
+        </button>
+      </div>
+
+      <div className="history-diff">
+        {diff.map(entry => (
+          <div
+            key={`${entry.status}-${entry.position}`}
+            className={`history-swatch ${entry.status}`}
+            title={
+              entry.status === 'changed'
+                ? `${entry.previousHex} → ${entry.hexValue}`
+                : entry.hexValue
+            }
+          >
+            {entry.status === 'changed' && entry.previousHex && (
+              <span
+                className="history-swatch-previous"
+                style={{ backgroundColor: entry.previousHex }}
+              />
+            )}
+            <span
+              className="history-swatch-color"
+              style={{ backgroundColor: entry.hexValue }}
+            />
+            <code>{entry.hexValue}</code>
+            {entry.status !== 'same' && (
+              <span className="history-status">{entry.status}</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {!previous && (
+        <p className="history-empty">This is the first recorded version.</p>
+      )}
+
+      {isOwner && !isLatest && (
+        <button
+          className="action-button history-restore"
+          onClick={() => handleRestore(current.revision)}
+          disabled={restoring}
+        >
+          <i className="fa-solid fa-clock-rotate-left"></i>
+          Restore revision {current.revision}
+        </button>
+      )}
+    </div>
+  );
+}
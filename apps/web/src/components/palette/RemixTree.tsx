@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  getPaletteLineage,
+  getPaletteRemixes,
+  type BrowsePalette,
+  type LineagePalette,
+  type RemixPalette,
+} from '../../services/api';
+import './RemixTree.css';
+
+interface RemixTreeProps {
+  paletteId: string;
+}
+
+function Swatches({ palette }: { palette: BrowsePalette }) {
+  return (
+    <span className="remix-swatches">
+      {palette.colors.slice(0, 5).map((color, index) => (
+        <span
+          key={color.id || index}
+          style={{ backgroundColor: color.hexValue }}
+        />
+      ))}
+    </span>
+  );
+}
+
+function RemixBranch({
+  parentId,
+  childrenByParent,
+}: {
+  parentId: string;
+  childrenByParent: Map<string, RemixPalette[]>;
+}) {
+  const children = childrenByParent.get(parentId);
+  if (!children) return null;
+
+  return (
+    <ul className="remix-branch">
+      {children.map(remix => (
+        <li key={remix.id}>
+          <Link to={`/palette/${remix.id}`} className="remix-node">
+            <Swatches palette={remix} />
+            {remix.name}
+          </Link>
+          <RemixBranch
+            parentId={remix.id}
+            childrenByParent={childrenByParent}
+          />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Shows where a palette was remixed from and the tree of remixes built on
+ * top of it. Renders nothing for palettes with no lineage in either
+ * direction.
+ */
+export function RemixTree({ paletteId }: RemixTreeProps) {
+  const [ancestors, setAncestors] = useState<LineagePalette[]>([]);
+  const [remixes, setRemixes] = useState<RemixPalette[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getPaletteLineage(paletteId), getPaletteRemixes(paletteId)])
+      .then(([lineage, tree]) => {
+        if (cancelled) return;
+        setAncestors(lineage.data);
+        setRemixes(tree.data);
+      })
+      .catch(err => console.error('Error loading remix lineage:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [paletteId]);
+
+  if (ancestors.length === 0 && remixes.length === 0) return null;
+
+  const childrenByParent = new Map<string, RemixPalette[]>();
+  for (const remix of remixes) {
+    const siblings = childrenByParent.get(remix.parentPaletteId) ?? [];
+    siblings.push(remix);
+    childrenByParent.set(remix.parentPaletteId, siblings);
+  }
+
+  return (
+    <section className="remix-tree">
+      {ancestors.length > 0 && (
+        <div className="remix-lineage">
+          <h3>Remixed from</h3>
+          <ol className="remix-chain">
+            {[...ancestors].reverse().map(ancestor => (
+              <li key={ancestor.id}>
+                <Link to={`/palette/${ancestor.id}`} className="remix-node">
+                  <Swatches palette={ancestor} />
+                  {ancestor.name}
+                </Link>
+              </li>
+            ))}
+            <li className="remix-current">This palette</li>
+          </ol>
+        </div>
+      )}
+
+      {remixes.length > 0 && (
+        <div className="remix-descendants">
+          <h3>
+            Remixes <span className="remix-count">{remixes.length}</span>
+          </h3>
+          <RemixBranch
+            parentId={paletteId}
+            childrenByParent={childrenByParent}
+          />
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { reportPalette, type ReportReason } from '../../services/api';
+import './ReportPalette.css';
+
+interface ReportPaletteProps {
+  paletteId: string;
+  onReported?: (alreadyReported: boolean) => void;
+  onError?: (message: string) => void;
+}
+
+const REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam',
+  offensive: 'Offensive content',
+  copyright: 'Copyright',
+  other: 'Something else',
+};
+
+/**
+ * Dropdown that reports the current palette to the moderators.
+ * Only render this for signed-in viewers who don't own the palette.
+ */
+export function ReportPalette({
+  paletteId,
+  onReported,
+  onError,
+}: ReportPaletteProps) {
+  const [busy, setBusy] = useState(false);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const reason = e.target.value as ReportReason;
+    e.target.value = '';
+    if (!reason) return;
+
+    const details = window.prompt(
+      `Report this palette for “${REASON_LABELS[reason]}”? Add details for the moderators (optional):`
+    );
+    // Cancelled
+    if (details === null) return;
+
+    setBusy(true);
+    try {
+      const result = await reportPalette(
+        paletteId,
+        reason,
+        details.trim() || undefined
+      );
+      onReported?.(result.data.alreadyReported);
+    } catch (err) {
+      console.error('Error reporting palette:', err);
+      onError?.('Failed to report palette');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <label className="report-palette">
+      <select
+        defaultValue=""
+        onChange={handleChange}
+        disabled={busy}
+        aria-label="Report palette"
+      >
+        <option value="" disabled>
+          Report…
+        </option>
+        {(Object.keys(REASON_LABELS) as ReportReason[]).map(reason => (
+          <option key={reason} value={reason}>
+            {REASON_LABELS[reason]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
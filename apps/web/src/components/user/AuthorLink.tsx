@@ -0,0 +1,28 @@
+import { Link } from 'react-router-dom';
+import type { AuthorSummary } from '../../services/api';
+import './AuthorLink.css';
+
+interface AuthorLinkProps {
+  author: AuthorSummary;
+}
+
+/**
+ * Avatar and display name linking to the author's profile page.
+ * Clicks don't bubble, so it can sit inside clickable palette cards.
+ */
+export function AuthorLink({ author }: AuthorLinkProps) {
+  return (
+    <Link
+      to={`/u/${author.id}`}
+      className="author-link"
+      onClick={e => e.stopPropagation()}
+    >
+      {author.photoUrl ? (
+        <img src={author.photoUrl} alt="" className="author-avatar" />
+      ) : (
+        <i className="fa-solid fa-circle-user author-avatar"></i>
+      )}
+      <span>{author.displayName || 'Anonymous'}</span>
+    </Link>
+  );
+}
@@ -4,10 +4,12 @@ import {
   useContext,
   useState,
   useEffect,
+  useRef,
   type ReactNode,
 } from 'react';
 import type { User } from 'firebase/auth';
 import { onAuthChange, signOut as authSignOut } from '../services/auth';
+import { claimDevice } from '../services/api';
 
 interface AuthContextType {
   user: User | null;
@@ -27,12 +29,21 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const claimedUid = useRef<string | null>(null);
 
   useEffect(() => {
     // Subscribe to auth state changes
     const unsubscribe = onAuthChange(currentUser => {
       setUser(currentUser);
       setLoading(false);
+
+      // Hand anything done anonymously on this device over to the account
+      if (currentUser && claimedUid.current !== currentUser.uid) {
+        claimedUid.current = currentUser.uid;
+        claimDevice().catch(err =>
+          console.error('Failed to claim device activity:', err)
+        );
+      }
     });
 
     // Cleanup subscription on unmount
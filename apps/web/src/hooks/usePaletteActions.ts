@@ -29,6 +29,9 @@ export function usePaletteActions() {
           generator: palette.metadata.generator,
           explanation: palette.metadata.explanation,
           timestamp: palette.metadata.timestamp,
+          tags: palette.metadata.tags,
+          confidence: palette.metadata.confidence,
+          roleHints: palette.metadata.roleHints,
         },
       },
       name: `${palette.metadata.generator} palette`,
@@ -40,16 +43,18 @@ export function usePaletteActions() {
   /**
    * Create a palette in the database and return its ID
    * This does not save it to the user's collection - use saveExistingPalette for that
+   * `duplicate` is true when an identical public palette already existed and
+   * its ID was returned instead
    */
   const createPaletteInDb = async (
     palette: GeneratedPalette
-  ): Promise<string | null> => {
+  ): Promise<{ id: string; duplicate: boolean } | null> => {
     setLoading(true);
     setError(null);
     try {
       const request = paletteToRequest(palette);
       const response = await createPalette(request);
-      return response.data.id;
+      return { id: response.data.id, duplicate: response.duplicate ?? false };
     } catch (err) {
       const message =
         err instanceof Error ? err.message : 'Failed to save palette';
@@ -1,15 +1,21 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import {
   browsePalettes,
   getMyPalettes,
+  getSavedPalettes,
+  unsavePalette,
+  type BrowsePalettesOptions,
   likePalette,
   unlikePalette,
   deletePalette,
+  getSearchSuggestions,
   type BrowsePalette,
+  type SearchSuggestions,
 } from '../services/api';
 import { THEMES, type ThemeCategory } from '@kulrs/shared';
 import { useAuth } from '../contexts/AuthContext';
+import { AuthorLink } from '../components/user/AuthorLink';
 import './Browse.css';
 
 function CopyIdButton({ paletteId }: { paletteId: string }) {
@@ -80,7 +86,13 @@ function LikeButton({
   );
 }
 
-type FilterType = 'recent' | 'popular' | 'my';
+type FilterType = 'recent' | 'popular' | 'following' | 'my' | 'saved';
+
+/** Max colors in a color search (mirrors the API limit) */
+const MAX_SEARCH_COLORS = 5;
+
+/** Palettes fetched per page while scrolling */
+const PAGE_SIZE = 30;
 
 const THEME_CATEGORIES: { key: ThemeCategory; label: string }[] = [
   { key: 'colors', label: 'Colors' },
@@ -91,13 +103,37 @@ export function Browse() {
   const [palettes, setPalettes] = useState<BrowsePalette[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  // Bumped on every fresh load so stale "load more" responses are dropped
+  const loadGeneration = useRef(0);
   const [searchParams, setSearchParams] = useSearchParams();
   const { user } = useAuth();
   const navigate = useNavigate();
 
   const filter = (searchParams.get('filter') as FilterType) || 'recent';
+  // Tabs listing the signed-in user's own palettes rather than public ones
+  const isPersonal = filter === 'my' || filter === 'saved';
+  const needsSignIn = isPersonal || filter === 'following';
   const activeTheme = searchParams.get('theme') || null;
   const searchQuery = searchParams.get('q') || '';
+  const colorParam = searchParams.get('color') || '';
+  const searchColors = useMemo(
+    () =>
+      colorParam
+        .split(',')
+        .filter(c => /^[0-9a-f]{6}$/i.test(c))
+        .map(c => `#${c.toUpperCase()}`),
+    [colorParam]
+  );
+  const [pickerColor, setPickerColor] = useState('#2A9D8F');
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+  const [suggestQuery, setSuggestQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<SearchSuggestions | null>(
+    null
+  );
+  const [showSuggestions, setShowSuggestions] = useState(false);
 
   const themesByCategory = useMemo(() => {
     const map: Record<ThemeCategory, typeof THEMES> = {
@@ -110,45 +146,123 @@ export function Browse() {
     return map;
   }, []);
 
+  const browseOptions = useMemo<BrowsePalettesOptions>(
+    () => ({
+      sort:
+        filter === 'popular' || filter === 'following'
+          ? filter
+          : searchQuery
+            ? 'relevance'
+            : 'recent',
+      limit: PAGE_SIZE,
+      theme: activeTheme ?? undefined,
+      q: searchQuery || undefined,
+      colors: searchColors.length > 0 ? searchColors : undefined,
+    }),
+    [filter, activeTheme, searchQuery, searchColors]
+  );
+
   const loadPalettes = useCallback(async () => {
+    const generation = ++loadGeneration.current;
     setLoading(true);
     setError(null);
+    setNextCursor(null);
 
     try {
       let result;
+      if (needsSignIn && !user) {
+        setPalettes([]);
+        setLoading(false);
+        return;
+      }
       if (filter === 'my') {
-        if (!user) {
-          setPalettes([]);
-          setLoading(false);
-          return;
-        }
         result = await getMyPalettes({ limit: 50 });
+      } else if (filter === 'saved') {
+        result = await getSavedPalettes({ limit: PAGE_SIZE });
       } else {
-        result = await browsePalettes({
-          sort: filter === 'popular' ? 'popular' : 'recent',
-          limit: 50,
-          theme: activeTheme ?? undefined,
-          q: searchQuery || undefined,
-        });
+        result = await browsePalettes(browseOptions);
       }
+      if (generation !== loadGeneration.current) return;
       setPalettes(result.data);
+      setNextCursor(result.nextCursor ?? null);
     } catch (err) {
       console.error('Error loading palettes:', err);
       setError('Failed to load palettes');
     } finally {
       setLoading(false);
     }
-  }, [filter, user, activeTheme, searchQuery]);
+  }, [filter, needsSignIn, user, browseOptions]);
 
   useEffect(() => {
     loadPalettes();
   }, [loadPalettes]);
 
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const generation = loadGeneration.current;
+    setLoadingMore(true);
+
+    try {
+      const result =
+        filter === 'saved'
+          ? await getSavedPalettes({ limit: PAGE_SIZE, cursor: nextCursor })
+          : await browsePalettes({ ...browseOptions, cursor: nextCursor });
+      if (generation !== loadGeneration.current) return;
+      setPalettes(prev => [...prev, ...result.data]);
+      setNextCursor(result.nextCursor ?? null);
+    } catch (err) {
+      console.error('Error loading more palettes:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore, filter, browseOptions]);
+
+  // Infinite scroll: fetch the next page as the sentinel nears the viewport
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries[0]?.isIntersecting) loadMore();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, nextCursor]);
+
+  // Type-ahead suggestions, fetched once typing pauses
+  useEffect(() => {
+    const q = suggestQuery.trim();
+    if (q.length < 2) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await getSearchSuggestions(q);
+        if (!cancelled) setSuggestions(result.data);
+      } catch (err) {
+        console.error('Error loading search suggestions:', err);
+      }
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [suggestQuery]);
+
+  const hasSuggestions =
+    showSuggestions &&
+    suggestQuery.trim().length >= 2 &&
+    suggestions !== null &&
+    (suggestions.tags.length > 0 || suggestions.palettes.length > 0);
+
   const handleFilterChange = (newFilter: FilterType) => {
     if (newFilter === filter) return;
     const params: Record<string, string> = { filter: newFilter };
     if (activeTheme) params.theme = activeTheme;
     if (searchQuery) params.q = searchQuery;
+    if (colorParam) params.color = colorParam;
     setSearchParams(params);
   };
 
@@ -161,25 +275,62 @@ export function Browse() {
       params.theme = slug;
       if (searchQuery) params.q = searchQuery;
     }
+    if (colorParam) params.color = colorParam;
     setSearchParams(params);
   };
 
   const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
-    const q = (formData.get('q') as string)?.trim() || '';
+    runSearch((formData.get('q') as string)?.trim() || '');
+  };
+
+  const runSearch = (q: string) => {
+    setShowSuggestions(false);
     const params: Record<string, string> = { filter };
     if (activeTheme) params.theme = activeTheme;
     if (q) params.q = q;
+    if (colorParam) params.color = colorParam;
     setSearchParams(params);
   };
 
+  const handleTagSuggestion = (name: string) => {
+    if (searchInputRef.current) searchInputRef.current.value = name;
+    setSuggestQuery(name);
+    runSearch(name);
+  };
+
   const clearSearch = () => {
     const params: Record<string, string> = { filter };
     if (activeTheme) params.theme = activeTheme;
+    if (colorParam) params.color = colorParam;
     setSearchParams(params);
   };
 
+  const setSearchColors = (nextColors: string[]) => {
+    const params: Record<string, string> = { filter };
+    if (activeTheme) params.theme = activeTheme;
+    if (searchQuery) params.q = searchQuery;
+    if (nextColors.length > 0) {
+      params.color = nextColors.map(c => c.replace('#', '')).join(',');
+    }
+    setSearchParams(params);
+  };
+
+  const addSearchColor = () => {
+    const color = pickerColor.toUpperCase();
+    if (
+      searchColors.includes(color) ||
+      searchColors.length >= MAX_SEARCH_COLORS
+    )
+      return;
+    setSearchColors([...searchColors, color]);
+  };
+
+  const removeSearchColor = (color: string) => {
+    setSearchColors(searchColors.filter(c => c !== color));
+  };
+
   const handlePaletteClick = (palette: BrowsePalette) => {
     // Navigate to palette detail using the palette ID
     navigate(`/palette/${palette.id}`);
@@ -190,7 +341,12 @@ export function Browse() {
     paletteId: string
   ) => {
     e.stopPropagation();
-    if (!window.confirm('Delete this palette? This cannot be undone.')) return;
+    if (
+      !window.confirm(
+        'Delete this palette? It will be permanently removed after 30 days.'
+      )
+    )
+      return;
 
     try {
       await deletePalette(paletteId);
@@ -201,19 +357,77 @@ export function Browse() {
     }
   };
 
+  const handleUnsavePalette = async (
+    e: React.MouseEvent,
+    paletteId: string
+  ) => {
+    e.stopPropagation();
+    try {
+      await unsavePalette(paletteId);
+      setPalettes(prev => prev.filter(p => p.id !== paletteId));
+    } catch (err) {
+      console.error('Error removing saved palette:', err);
+      alert('Failed to remove palette from saved');
+    }
+  };
+
   return (
     <div className="browse-page">
       <div className="browse-header">
         <h1>Browse Palettes</h1>
 
         <form className="browse-search" onSubmit={handleSearch}>
-          <input
-            type="text"
-            name="q"
-            placeholder="Search palettes..."
-            defaultValue={searchQuery}
-            className="browse-search-input"
-          />
+          <div className="browse-search-field">
+            <input
+              ref={searchInputRef}
+              type="text"
+              name="q"
+              placeholder="Search palettes..."
+              defaultValue={searchQuery}
+              className="browse-search-input"
+              autoComplete="off"
+              onChange={e => {
+                setSuggestQuery(e.target.value);
+                setShowSuggestions(true);
+              }}
+              onFocus={() => setShowSuggestions(true)}
+              onBlur={() => setShowSuggestions(false)}
+              onKeyDown={e => {
+                if (e.key === 'Escape') setShowSuggestions(false);
+              }}
+            />
+            {hasSuggestions && (
+              // mousedown (not click) so the choice lands before the input blurs
+              <ul className="browse-suggestions" role="listbox">
+                {suggestions.tags.map(tag => (
+                  <li
+                    key={tag.id}
+                    role="option"
+                    className="browse-suggestion"
+                    onMouseDown={e => {
+                      e.preventDefault();
+                      handleTagSuggestion(tag.name);
+                    }}
+                  >
+                    <i className="fa-solid fa-tag"></i> {tag.name}
+                  </li>
+                ))}
+                {suggestions.palettes.map(palette => (
+                  <li
+                    key={palette.id}
+                    role="option"
+                    className="browse-suggestion"
+                    onMouseDown={e => {
+                      e.preventDefault();
+                      navigate(`/palette/${palette.id}`);
+                    }}
+                  >
+                    <i className="fa-solid fa-palette"></i> {palette.name}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
           <button type="submit" className="browse-search-button">
             <i className="fa-solid fa-magnifying-glass"></i>
           </button>
@@ -241,15 +455,48 @@ export function Browse() {
           >
             Most Liked
           </button>
+          {user && (
+            <button
+              className={`filter-button ${filter === 'following' ? 'active' : ''}`}
+              onClick={() => handleFilterChange('following')}
+            >
+              Following
+            </button>
+          )}
           <button
             className={`filter-button ${filter === 'my' ? 'active' : ''}`}
             onClick={() => handleFilterChange('my')}
           >
             My Palettes
           </button>
+          <button
+            className={`filter-button ${filter === 'saved' ? 'active' : ''}`}
+            onClick={() => handleFilterChange('saved')}
+          >
+            Saved
+          </button>
         </div>
 
-        {filter !== 'my' && (
+        {!isPersonal && (
+          <div className="browse-color-search">
+            <input
+              type="color"
+              value={pickerColor}
+              onChange={e => setPickerColor(e.target.value)}
+              className="browse-color-input"
+              aria-label="Pick a color to search for"
+            />
+            <button
+              className="browse-color-add"
+              onClick={addSearchColor}
+              disabled={searchColors.length >= MAX_SEARCH_COLORS}
+            >
+              <i className="fa-solid fa-eye-dropper"></i> Find similar colors
+            </button>
+          </div>
+        )}
+
+        {!isPersonal && (
           <div className="browse-themes">
             {THEME_CATEGORIES.map(cat => (
               <div key={cat.key} className="theme-category">
@@ -277,7 +524,7 @@ export function Browse() {
           </div>
         )}
 
-        {(activeTheme || searchQuery) && (
+        {(activeTheme || searchQuery || searchColors.length > 0) && (
           <div className="browse-active-filters">
             {activeTheme && (
               <span className="active-filter-tag">
@@ -292,6 +539,16 @@ export function Browse() {
                 <button onClick={clearSearch}>×</button>
               </span>
             )}
+            {searchColors.map(color => (
+              <span key={color} className="active-filter-tag">
+                <span
+                  className="theme-chip-swatch"
+                  style={{ backgroundColor: color }}
+                />
+                {color}
+                <button onClick={() => removeSearchColor(color)}>×</button>
+              </span>
+            ))}
           </div>
         )}
       </div>
@@ -309,9 +566,15 @@ export function Browse() {
         </div>
       )}
 
-      {!loading && !error && filter === 'my' && !user && (
+      {!loading && !error && needsSignIn && !user && (
         <div className="browse-empty">
-          <p>Log in to see your palettes.</p>
+          <p>
+            {filter === 'saved'
+              ? 'Log in to see your saved palettes.'
+              : filter === 'following'
+                ? 'Log in to see palettes from people you follow.'
+                : 'Log in to see your palettes.'}
+          </p>
           <button onClick={() => navigate('/login')}>Log In</button>
         </div>
       )}
@@ -319,13 +582,23 @@ export function Browse() {
       {!loading &&
         !error &&
         palettes.length === 0 &&
-        (filter !== 'my' || user) && (
+        (!needsSignIn || user) && (
           <div className="browse-empty">
             {filter === 'my' ? (
               <p>
                 You haven't created any palettes yet. Go to the home page to
                 create one!
               </p>
+            ) : filter === 'saved' ? (
+              <p>
+                You haven't saved any palettes yet. Save one from its detail
+                page to find it here.
+              </p>
+            ) : filter === 'following' ? (
+              <p>
+                No palettes from people you follow yet. Follow creators from
+                their profile pages.
+              </p>
             ) : (
               <p>No palettes found.</p>
             )}
@@ -350,6 +623,11 @@ export function Browse() {
                 ))}
               </div>
               <div className="palette-info">
+                {palette.author && filter !== 'my' && (
+                  <div className="palette-author">
+                    <AuthorLink author={palette.author} />
+                  </div>
+                )}
                 <div className="palette-stats">
                   <LikeButton
                     paletteId={palette.id}
@@ -366,6 +644,15 @@ export function Browse() {
                       <i className="fa-regular fa-trash-can"></i>
                     </button>
                   )}
+                  {filter === 'saved' && (
+                    <button
+                      className="delete-palette-button"
+                      onClick={e => handleUnsavePalette(e, palette.id)}
+                      title="Remove from saved and your collections"
+                    >
+                      <i className="fa-solid fa-bookmark"></i>
+                    </button>
+                  )}
                   <span className="date">
                     {new Date(palette.createdAt).toLocaleDateString()}
                   </span>
@@ -375,6 +662,12 @@ export function Browse() {
           ))}
         </div>
       )}
+
+      {!loading && !error && nextCursor && (
+        <div ref={sentinelRef} className="browse-loading-more">
+          {loadingMore && <p>Loading more palettes...</p>}
+        </div>
+      )}
     </div>
   );
 }
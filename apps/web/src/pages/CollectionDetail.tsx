@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import {
+  getCollection,
+  removePaletteFromCollection,
+  type CollectionWithPalettes,
+} from '../services/api';
+import './Browse.css';
+import './Collections.css';
+
+export function CollectionDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [collection, setCollection] = useState<CollectionWithPalettes | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCollection = useCallback(async () => {
+    if (!id) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getCollection(id);
+      setCollection(result.data);
+    } catch (err) {
+      console.error('Error loading collection:', err);
+      setError('Collection not found');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadCollection();
+  }, [loadCollection]);
+
+  const handleRemove = async (e: React.MouseEvent, paletteId: string) => {
+    e.stopPropagation();
+    if (!collection) return;
+    try {
+      await removePaletteFromCollection(collection.id, paletteId);
+      setCollection({
+        ...collection,
+        palettes: collection.palettes.filter(p => p.id !== paletteId),
+      });
+    } catch (err) {
+      console.error('Error removing palette from collection:', err);
+      alert('Failed to remove palette');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="collections-page">
+        <p className="collections-status">Loading collection...</p>
+      </div>
+    );
+  }
+
+  if (error || !collection) {
+    return (
+      <div className="collections-page">
+        <p className="collections-status">{error ?? 'Collection not found'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="collections-page">
+      {collection.isOwner && (
+        <Link to="/collections" className="collection-back">
+          <i className="fa-solid fa-arrow-left"></i> All collections
+        </Link>
+      )}
+      <h1>
+        {collection.name}
+        <i
+          className={`collection-visibility fa-solid ${collection.isPublic ? 'fa-globe' : 'fa-lock'}`}
+          title={collection.isPublic ? 'Public' : 'Private'}
+        ></i>
+      </h1>
+      {collection.description && (
+        <p className="collection-description">{collection.description}</p>
+      )}
+
+      {collection.palettes.length === 0 ? (
+        <div className="browse-empty">
+          <p>This collection is empty.</p>
+        </div>
+      ) : (
+        <div className="palette-grid">
+          {collection.palettes.map(palette => (
+            <div
+              key={palette.id}
+              className="palette-card"
+              onClick={() => navigate(`/palette/${palette.id}`)}
+            >
+              <div className="palette-colors">
+                {palette.colors.slice(0, 5).map((color, index) => (
+                  <div
+                    key={color.id || index}
+                    className="palette-color-strip"
+                    style={{ backgroundColor: color.hexValue }}
+                  />
+                ))}
+              </div>
+              <div className="palette-info">
+                <h3 className="palette-name">{palette.name}</h3>
+                <div className="palette-stats">
+                  <span className="likes">
+                    <i className="fa-regular fa-heart"></i>
+                    {palette.likesCount}
+                  </span>
+                  {collection.isOwner && (
+                    <button
+                      className="delete-palette-button"
+                      onClick={e => handleRemove(e, palette.id)}
+                      title="Remove from collection"
+                    >
+                      <i className="fa-solid fa-xmark"></i>
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
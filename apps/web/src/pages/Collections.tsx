@@ -0,0 +1,275 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  getMyCollections,
+  createCollection,
+  updateCollection,
+  reorderCollections,
+  deleteCollection,
+  type Collection,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import './Collections.css';
+
+function CollectionRow({
+  collection,
+  isFirst,
+  isLast,
+  onMove,
+  onRename,
+  onToggleVisibility,
+  onDelete,
+}: {
+  collection: Collection;
+  isFirst: boolean;
+  isLast: boolean;
+  onMove: (direction: -1 | 1) => void;
+  onRename: (name: string) => void;
+  onToggleVisibility: () => void;
+  onDelete: () => void;
+}) {
+  const navigate = useNavigate();
+  const [editing, setEditing] = useState(false);
+  const [draftName, setDraftName] = useState(collection.name);
+
+  const submitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = draftName.trim();
+    if (name && name !== collection.name) onRename(name);
+    setEditing(false);
+  };
+
+  return (
+    <li className="collection-row">
+      {editing ? (
+        <form className="collection-rename" onSubmit={submitRename}>
+          <input
+            value={draftName}
+            onChange={e => setDraftName(e.target.value)}
+            maxLength={100}
+            autoFocus
+          />
+          <button type="submit">Save</button>
+          <button
+            type="button"
+            onClick={() => {
+              setDraftName(collection.name);
+              setEditing(false);
+            }}
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <button
+          className="collection-name"
+          onClick={() => navigate(`/collections/${collection.id}`)}
+        >
+          {collection.name}
+          <span className="collection-count">
+            {collection.palettesCount ?? 0} palettes
+          </span>
+        </button>
+      )}
+
+      <div className="collection-actions">
+        <button
+          onClick={onToggleVisibility}
+          title={collection.isPublic ? 'Make private' : 'Make public'}
+        >
+          <i
+            className={`fa-solid ${collection.isPublic ? 'fa-globe' : 'fa-lock'}`}
+          ></i>
+        </button>
+        <button onClick={() => setEditing(true)} title="Rename">
+          <i className="fa-solid fa-pen"></i>
+        </button>
+        <button onClick={() => onMove(-1)} disabled={isFirst} title="Move up">
+          <i className="fa-solid fa-arrow-up"></i>
+        </button>
+        <button onClick={() => onMove(1)} disabled={isLast} title="Move down">
+          <i className="fa-solid fa-arrow-down"></i>
+        </button>
+        <button
+          className="collection-delete"
+          onClick={onDelete}
+          title="Delete collection"
+        >
+          <i className="fa-regular fa-trash-can"></i>
+        </button>
+      </div>
+    </li>
+  );
+}
+
+export function Collections() {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newIsPublic, setNewIsPublic] = useState(false);
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+
+  const loadCollections = useCallback(async () => {
+    if (!user) {
+      setCollections([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getMyCollections();
+      setCollections(result.data);
+    } catch (err) {
+      console.error('Error loading collections:', err);
+      setError('Failed to load collections');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!authLoading) loadCollections();
+  }, [authLoading, loadCollections]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    try {
+      const result = await createCollection({ name, isPublic: newIsPublic });
+      setCollections(prev => [...prev, { ...result.data, palettesCount: 0 }]);
+      setNewName('');
+      setNewIsPublic(false);
+    } catch (err) {
+      console.error('Error creating collection:', err);
+      alert('Failed to create collection');
+    }
+  };
+
+  const handleUpdate = async (
+    collectionId: string,
+    data: { name?: string; isPublic?: boolean }
+  ) => {
+    try {
+      const result = await updateCollection(collectionId, data);
+      setCollections(prev =>
+        prev.map(c => (c.id === collectionId ? { ...c, ...result.data } : c))
+      );
+    } catch (err) {
+      console.error('Error updating collection:', err);
+      alert('Failed to update collection');
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= collections.length) return;
+    const previous = collections;
+    const next = [...collections];
+    [next[index], next[target]] = [next[target], next[index]];
+    setCollections(next);
+    try {
+      await reorderCollections(next.map(c => c.id));
+    } catch (err) {
+      console.error('Error reordering collections:', err);
+      setCollections(previous);
+    }
+  };
+
+  const handleDelete = async (collectionId: string) => {
+    if (
+      !window.confirm(
+        'Delete this collection? The palettes in it will stay saved.'
+      )
+    )
+      return;
+    try {
+      await deleteCollection(collectionId);
+      setCollections(prev => prev.filter(c => c.id !== collectionId));
+    } catch (err) {
+      console.error('Error deleting collection:', err);
+      alert('Failed to delete collection');
+    }
+  };
+
+  if (!authLoading && !user) {
+    return (
+      <div className="collections-page">
+        <h1>Collections</h1>
+        <div className="browse-empty">
+          <p>Log in to organize your saved palettes into collections.</p>
+          <button onClick={() => navigate('/login?redirect=/collections')}>
+            Log In
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="collections-page">
+      <h1>Collections</h1>
+
+      <form className="collection-create" onSubmit={handleCreate}>
+        <input
+          type="text"
+          placeholder="New collection name..."
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          maxLength={100}
+        />
+        <label>
+          <input
+            type="checkbox"
+            checked={newIsPublic}
+            onChange={e => setNewIsPublic(e.target.checked)}
+          />
+          Public
+        </label>
+        <button type="submit" disabled={!newName.trim()}>
+          <i className="fa-solid fa-plus"></i> Create
+        </button>
+      </form>
+
+      {loading && <p className="collections-status">Loading collections...</p>}
+
+      {error && (
+        <div className="collections-status">
+          <p>{error}</p>
+          <button onClick={loadCollections}>Retry</button>
+        </div>
+      )}
+
+      {!loading && !error && collections.length === 0 && (
+        <p className="collections-status">
+          No collections yet. Create one above, then add palettes from their
+          detail page.
+        </p>
+      )}
+
+      {!loading && !error && collections.length > 0 && (
+        <ul className="collection-list">
+          {collections.map((collection, index) => (
+            <CollectionRow
+              key={collection.id}
+              collection={collection}
+              isFirst={index === 0}
+              isLast={index === collections.length - 1}
+              onMove={direction => handleMove(index, direction)}
+              onRename={name => handleUpdate(collection.id, { name })}
+              onToggleVisibility={() =>
+                handleUpdate(collection.id, {
+                  isPublic: !collection.isPublic,
+                })
+              }
+              onDelete={() => handleDelete(collection.id)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
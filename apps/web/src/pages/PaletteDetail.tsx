@@ -8,14 +8,27 @@ import {
 import { PaletteDisplay } from '../components/palette/PaletteDisplay';
 import { PaletteEditor } from '../components/palette/PaletteEditor';
 import { ColorExportTable } from '../components/palette/ColorExportTable';
+import {
+  PaletteDetailsEditor,
+  type PaletteDetails,
+} from '../components/palette/PaletteDetailsEditor';
+import { PaletteHistory } from '../components/palette/PaletteHistory';
+import { AddToCollection } from '../components/palette/AddToCollection';
+import { RemixTree } from '../components/palette/RemixTree';
+import { PaletteComments } from '../components/palette/PaletteComments';
+import { ReportPalette } from '../components/palette/ReportPalette';
 import { usePaletteActions } from '../hooks/usePaletteActions';
 import { useAuth } from '../contexts/AuthContext';
+import { AuthorLink } from '../components/user/AuthorLink';
 import {
   getPaletteById,
   getLikeInfo,
+  getShareTokens,
+  createShareToken,
   likePalette as likePaletteApi,
   unlikePalette as unlikePaletteApi,
   updatePalette,
+  type AuthorSummary,
   type BrowsePalette,
 } from '../services/api';
 import {
@@ -52,14 +65,16 @@ function stringToColorRole(name: string | null): ColorRole {
 function browsePaletteToGenerated(
   browsePalette: BrowsePalette
 ): GeneratedPalette {
+  // Palettes saved with exact OKLCH values and roles round-trip as-is;
+  // older ones are reconstructed from hex and the color name
   const colors: AssignedColor[] = browsePalette.colors.map(c => ({
-    role: stringToColorRole(c.name),
-    color: hexToOklch(c.hexValue),
+    role: stringToColorRole(c.role ?? c.name),
+    color: c.oklch ?? hexToOklch(c.hexValue),
   }));
 
   return {
     colors,
-    metadata: {
+    metadata: browsePalette.metadata ?? {
       generator: 'browse',
       explanation: browsePalette.description || browsePalette.name,
       timestamp: browsePalette.createdAt,
@@ -71,6 +86,8 @@ export function PaletteDetail() {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
   const location = useLocation();
+  // Share token from a private link (`?share=<token>`)
+  const share = new URLSearchParams(location.search).get('share') ?? undefined;
   const {
     loading,
     error: apiError,
@@ -79,8 +96,13 @@ export function PaletteDetail() {
   } = usePaletteActions();
 
   const [palette, setPalette] = useState<GeneratedPalette | null>(null);
+  const [paletteName, setPaletteName] = useState('');
+  const [details, setDetails] = useState<PaletteDetails | null>(null);
   const [paletteId, setPaletteId] = useState<string | null>(null);
   const [isOwner, setIsOwner] = useState(false);
+  const [author, setAuthor] = useState<AuthorSummary | null>(null);
+  const [commentsCount, setCommentsCount] = useState<number | undefined>();
+  const [isHidden, setIsHidden] = useState(false);
   const [editedColors, setEditedColors] = useState<AssignedColor[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -89,6 +111,8 @@ export function PaletteDetail() {
   const [likeCount, setLikeCount] = useState(0);
   const [actionFeedback, setActionFeedback] = useState<string | null>(null);
   const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
   const timeoutRef = useRef<number | null>(null);
   const navigate = useNavigate();
 
@@ -132,11 +156,21 @@ export function PaletteDetail() {
       setPaletteId(id);
       setIsLoading(true);
 
-      getPaletteById(id)
+      getPaletteById(id, share)
         .then(response => {
           if (response.success && response.data) {
             setPalette(browsePaletteToGenerated(response.data));
+            setPaletteName(response.data.name);
+            setDetails({
+              name: response.data.name,
+              description: response.data.description,
+              isPublic: response.data.isPublic,
+              tags: response.data.tags ?? [],
+            });
             setIsOwner(response.data.isOwner ?? false);
+            setAuthor(response.data.author ?? null);
+            setCommentsCount(response.data.commentsCount);
+            setIsHidden(Boolean(response.data.hiddenAt));
           } else {
             setError('Palette not found');
           }
@@ -154,14 +188,22 @@ export function PaletteDetail() {
         const decoded = decodeURIComponent(id);
         const parsedPalette = JSON.parse(decoded);
         setPalette(parsedPalette);
+        setDetails(null);
+        setAuthor(null);
+        setIsHidden(false);
+        // Same default name createPaletteInDb stores
+        setPaletteName(`${parsedPalette.metadata.generator} palette`);
         setIsOwner(true); // user just generated this palette
         setIsLoading(false);
 
         // Create palette in database (not saved to user's collection yet)
         createPaletteInDb(parsedPalette)
-          .then(savedId => {
-            if (savedId) {
-              setPaletteId(savedId);
+          .then(saved => {
+            if (saved?.duplicate) {
+              // Someone already published these exact colors — show theirs
+              navigate(`/palette/${saved.id}`, { replace: true });
+            } else if (saved) {
+              setPaletteId(saved.id);
             } else {
               setActionFeedback(
                 'Warning: Could not create palette in database. Save/Like/Remix may not work.'
@@ -181,7 +223,7 @@ export function PaletteDetail() {
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [id]);
+  }, [id, share]);
 
   // Load like state when paletteId is available
   useEffect(() => {
@@ -248,6 +290,33 @@ export function PaletteDetail() {
       });
   };
 
+  // The API only returns a token when minting it, so the one minted here is
+  // remembered and reused while it hasn't been revoked
+  const handleCopyPrivateLink = async () => {
+    if (!paletteId) return;
+    const key = `kulrs_share_token_${paletteId}`;
+    try {
+      const saved = JSON.parse(localStorage.getItem(key) ?? 'null') as {
+        id: string;
+        token: string;
+      } | null;
+      const live = (await getShareTokens(paletteId)).data;
+      let token = saved && live.some(t => t.id === saved.id) ? saved : null;
+      if (!token) {
+        const { id, token: value } = (await createShareToken(paletteId)).data;
+        token = { id, token: value };
+        localStorage.setItem(key, JSON.stringify(token));
+      }
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/palette/${paletteId}?share=${encodeURIComponent(token.token)}`
+      );
+      showFeedback('Private link copied to clipboard!');
+    } catch (error) {
+      console.error('Failed to copy private link:', error);
+      showFeedback('Failed to copy private link');
+    }
+  };
+
   const handleSave = async () => {
     if (!user) {
       navigate(`/login?redirect=${encodeURIComponent(location.pathname)}`);
@@ -291,10 +360,13 @@ export function PaletteDetail() {
           hexValue: oklchToHex(c.color),
           position: i,
           name: c.role as string,
+          role: c.role as string,
+          oklch: c.color,
         }))
       );
       setPalette({ ...palette, colors: [...editedColors] });
       setShowSaveDialog(false);
+      setHistoryKey(k => k + 1);
       showFeedback('Palette updated!');
     } catch (err) {
       console.error('Failed to update palette:', err);
@@ -309,15 +381,28 @@ export function PaletteDetail() {
     }
     if (!palette) return;
     const newPalette: GeneratedPalette = { ...palette, colors: editedColors };
-    const newId = await createPaletteInDb(newPalette);
-    if (newId) {
+    const saved = await createPaletteInDb(newPalette);
+    if (saved) {
       setShowSaveDialog(false);
-      navigate(`/palette/${newId}`);
+      navigate(`/palette/${saved.id}`);
     } else {
       showFeedback('Failed to save as new palette.');
     }
   };
 
+  const handleRevisionRestored = async () => {
+    if (!paletteId) return;
+    try {
+      const response = await getPaletteById(paletteId);
+      setPalette(browsePaletteToGenerated(response.data));
+      setHistoryKey(k => k + 1);
+      showFeedback('Revision restored!');
+    } catch (err) {
+      console.error('Failed to reload restored palette:', err);
+      showFeedback('Restored, but failed to reload. Please refresh.');
+    }
+  };
+
   const handleLike = async () => {
     if (!paletteId) {
       showFeedback('Please wait a moment and try again');
@@ -357,8 +442,40 @@ export function PaletteDetail() {
         <p className="palette-metadata">
           Generated via {palette.metadata.generator} •{' '}
           {new Date(palette.metadata.timestamp).toLocaleDateString()}
+          {paletteId && author && (
+            <>
+              {' '}
+              • by <AuthorLink author={author} />
+            </>
+          )}
         </p>
-        <p className="palette-explanation">{palette.metadata.explanation}</p>
+        {isHidden && (
+          <p className="palette-hidden-notice">
+            <i className="fa-solid fa-eye-slash"></i> A moderator has hidden
+            this palette. Only you can see it.
+          </p>
+        )}
+        {paletteId && details ? (
+          <>
+            <PaletteDetailsEditor
+              key={paletteId}
+              paletteId={paletteId}
+              details={details}
+              isOwner={isOwner}
+              onUpdated={updated => {
+                setDetails(updated);
+                setPaletteName(updated.name);
+                showFeedback('Palette updated');
+              }}
+              onError={showFeedback}
+            />
+            {details.description && (
+              <p className="palette-explanation">{details.description}</p>
+            )}
+          </>
+        ) : (
+          <p className="palette-explanation">{palette.metadata.explanation}</p>
+        )}
 
         <div className="palette-actions">
           <button
@@ -388,6 +505,33 @@ export function PaletteDetail() {
             {isLiked ? 'Liked' : 'Like'}
             {likeCount > 0 ? ` (${likeCount})` : ''}
           </button>
+          {user && paletteId && (
+            <AddToCollection
+              paletteId={paletteId}
+              onAdded={(collection, added) => {
+                setIsSaved(true);
+                showFeedback(
+                  added
+                    ? `Added to “${collection.name}”`
+                    : `Already in “${collection.name}”`
+                );
+              }}
+              onError={showFeedback}
+            />
+          )}
+          {user && paletteId && !isOwner && (
+            <ReportPalette
+              paletteId={paletteId}
+              onReported={alreadyReported =>
+                showFeedback(
+                  alreadyReported
+                    ? 'You already reported this palette'
+                    : 'Thanks, the moderators will take a look'
+                )
+              }
+              onError={showFeedback}
+            />
+          )}
           <button
             onClick={handleCopyShareLink}
             className="action-button share-button"
@@ -397,6 +541,27 @@ export function PaletteDetail() {
             <i className="fa-solid fa-link"></i>
             Share
           </button>
+          {isOwner && paletteId && details && !details.isPublic && (
+            <button
+              onClick={handleCopyPrivateLink}
+              className="action-button share-button"
+              aria-label="Copy private link to clipboard"
+              title="Anyone with this link can view the palette"
+            >
+              <i className="fa-solid fa-lock"></i>
+              Copy private link
+            </button>
+          )}
+          <button
+            onClick={() => setShowHistory(prev => !prev)}
+            className={`action-button history-button ${showHistory ? 'active' : ''}`}
+            disabled={!paletteId}
+            aria-label="Show palette history"
+            title="Step through earlier versions of this palette"
+          >
+            <i className="fa-solid fa-clock-rotate-left"></i>
+            History
+          </button>
           <button
             onClick={() => {
               if (!palette) return;
@@ -489,6 +654,15 @@ export function PaletteDetail() {
         )}
       </div>
 
+      {showHistory && paletteId && (
+        <PaletteHistory
+          paletteId={paletteId}
+          isOwner={isOwner}
+          refreshKey={historyKey}
+          onRestored={handleRevisionRestored}
+        />
+      )}
+
       {isOwner ? (
         <PaletteEditor colors={editedColors} onChange={setEditedColors} />
       ) : (
@@ -500,7 +674,14 @@ export function PaletteDetail() {
           ...palette,
           colors: isOwner ? editedColors : palette.colors,
         }}
+        name={paletteName}
       />
+
+      {paletteId && <RemixTree paletteId={paletteId} />}
+
+      {paletteId && (
+        <PaletteComments paletteId={paletteId} initialCount={commentsCount} />
+      )}
     </div>
   );
 }
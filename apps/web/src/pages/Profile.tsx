@@ -0,0 +1,277 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  browsePalettes,
+  followUser,
+  getUserProfile,
+  unfollowUser,
+  updateMyProfile,
+  type BrowsePalette,
+  type UserProfile,
+} from '../services/api';
+import './Browse.css';
+import './Profile.css';
+
+/** Palettes fetched per page on the profile grid */
+const PAGE_SIZE = 30;
+
+function ProfileEditor({
+  profile,
+  onSaved,
+  onCancel,
+}: {
+  profile: UserProfile;
+  onSaved: (updated: Pick<UserProfile, 'displayName' | 'photoUrl'>) => void;
+  onCancel: () => void;
+}) {
+  const [displayName, setDisplayName] = useState(profile.displayName ?? '');
+  const [photoUrl, setPhotoUrl] = useState(profile.photoUrl ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await updateMyProfile({
+        displayName: displayName.trim() || null,
+        photoUrl: photoUrl.trim() || null,
+      });
+      onSaved(result.data);
+    } catch (err) {
+      console.error('Error updating profile:', err);
+      setError('Failed to update profile. Check the avatar URL.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="profile-editor" onSubmit={handleSubmit}>
+      <input
+        value={displayName}
+        onChange={e => setDisplayName(e.target.value)}
+        maxLength={255}
+        placeholder="Display name"
+        aria-label="Display name"
+        autoFocus
+      />
+      <input
+        type="url"
+        value={photoUrl}
+        onChange={e => setPhotoUrl(e.target.value)}
+        placeholder="Avatar URL (https://...)"
+        aria-label="Avatar URL"
+      />
+      {error && <p className="profile-error">{error}</p>}
+      <div className="profile-editor-actions">
+        <button type="submit" disabled={saving}>
+          {saving ? 'Saving…' : 'Save'}
+        </button>
+        <button type="button" onClick={onCancel} disabled={saving}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export function Profile() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [palettes, setPalettes] = useState<BrowsePalette[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [followPending, setFollowPending] = useState(false);
+  const { user } = useAuth();
+
+  const loadProfile = useCallback(async () => {
+    if (!id) return;
+    setLoading(true);
+    setError(null);
+    setEditing(false);
+    try {
+      const [profileResult, palettesResult] = await Promise.all([
+        getUserProfile(id),
+        browsePalettes({ userId: id, limit: PAGE_SIZE }),
+      ]);
+      setProfile(profileResult.data);
+      setPalettes(palettesResult.data);
+      setNextCursor(palettesResult.nextCursor ?? null);
+    } catch (err) {
+      console.error('Error loading profile:', err);
+      setError('User not found');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  // Reload on sign-in/sign-out so isSelf and isFollowing stay current
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile, user]);
+
+  const toggleFollow = async () => {
+    if (!profile) return;
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    setFollowPending(true);
+    try {
+      const result = profile.isFollowing
+        ? await unfollowUser(profile.id)
+        : await followUser(profile.id);
+      setProfile({
+        ...profile,
+        isFollowing: result.data.following,
+        followersCount: result.data.followersCount,
+      });
+    } catch (err) {
+      console.error('Error updating follow:', err);
+    } finally {
+      setFollowPending(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (!id || !nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const result = await browsePalettes({
+        userId: id,
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+      });
+      setPalettes(prev => [...prev, ...result.data]);
+      setNextCursor(result.nextCursor ?? null);
+    } catch (err) {
+      console.error('Error loading more palettes:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="profile-page">
+        <p className="profile-status">Loading profile...</p>
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="profile-page">
+        <p className="profile-status">{error ?? 'User not found'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="profile-page">
+      <div className="profile-header">
+        {profile.photoUrl ? (
+          <img src={profile.photoUrl} alt="" className="profile-avatar" />
+        ) : (
+          <i className="fa-solid fa-circle-user profile-avatar"></i>
+        )}
+        <div className="profile-summary">
+          {editing ? (
+            <ProfileEditor
+              profile={profile}
+              onSaved={updated => {
+                setProfile({ ...profile, ...updated });
+                setEditing(false);
+              }}
+              onCancel={() => setEditing(false)}
+            />
+          ) : (
+            <h1>
+              {profile.displayName || 'Anonymous'}
+              {profile.isSelf && (
+                <button
+                  className="profile-edit-button"
+                  onClick={() => setEditing(true)}
+                  title="Edit profile"
+                  aria-label="Edit profile"
+                >
+                  <i className="fa-solid fa-pen"></i>
+                </button>
+              )}
+            </h1>
+          )}
+          <p className="profile-stats">
+            {profile.paletteCount} public palettes • {profile.totalLikes} likes
+            received • Joined {new Date(profile.createdAt).toLocaleDateString()}
+          </p>
+          <p className="profile-stats">
+            {profile.followersCount} followers • {profile.followingCount}{' '}
+            following
+          </p>
+          {!profile.isSelf && (
+            <button
+              className={`profile-follow-button ${profile.isFollowing ? 'following' : ''}`}
+              onClick={toggleFollow}
+              disabled={followPending}
+            >
+              {profile.isFollowing ? 'Following' : 'Follow'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {palettes.length === 0 ? (
+        <div className="browse-empty">
+          <p>No public palettes yet.</p>
+        </div>
+      ) : (
+        <div className="palette-grid">
+          {palettes.map(palette => (
+            <div
+              key={palette.id}
+              className="palette-card"
+              onClick={() => navigate(`/palette/${palette.id}`)}
+            >
+              <div className="palette-colors">
+                {palette.colors.slice(0, 5).map((color, index) => (
+                  <div
+                    key={color.id || index}
+                    className="palette-color-strip"
+                    style={{ backgroundColor: color.hexValue }}
+                  />
+                ))}
+              </div>
+              <div className="palette-info">
+                <h3 className="palette-name">{palette.name}</h3>
+                <div className="palette-stats">
+                  <span className="likes">
+                    <i className="fa-regular fa-heart"></i>
+                    {palette.likesCount}
+                  </span>
+                  <span className="date">
+                    {new Date(palette.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {nextCursor && (
+        <div className="profile-load-more">
+          <button onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading…' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
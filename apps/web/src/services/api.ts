@@ -103,22 +103,30 @@ export async function apiDelete<T>(endpoint: string): Promise<T> {
 }
 
 // Palette API types
+/** Generator output stored with a palette */
+export interface PaletteGeneratorMetadata {
+  generator: string;
+  explanation: string;
+  timestamp: string;
+  tags?: string[];
+  confidence?: number;
+  roleHints?: Record<string, string>;
+}
+
 export interface CreatePaletteRequest {
   palette: {
     colors: Array<{
       role: string;
       color: { l: number; c: number; h: number };
     }>;
-    metadata: {
-      generator: string;
-      explanation: string;
-      timestamp: string;
-    };
+    metadata: PaletteGeneratorMetadata;
   };
   name?: string;
   description?: string;
   isPublic?: boolean;
   tagIds?: string[];
+  /** 'existing' (default) returns an identical public palette; 'reject' → 409 */
+  onDuplicate?: 'existing' | 'reject';
 }
 
 export interface PaletteResponse {
@@ -135,6 +143,8 @@ export interface PaletteResponse {
     createdAt: string;
     updatedAt: string;
   };
+  /** True when an identical public palette was returned instead of a new one */
+  duplicate?: boolean;
 }
 
 export interface SaveLikeResponse {
@@ -227,6 +237,17 @@ export interface PaletteColor {
   hexValue: string;
   position: number;
   name: string | null;
+  /** Set on single-palette responses */
+  role?: string | null;
+  /** Exact OKLCH values, when the palette was saved with them */
+  oklch?: { l: number; c: number; h: number } | null;
+}
+
+/** Palette author as embedded in palette responses */
+export interface AuthorSummary {
+  id: string;
+  displayName: string | null;
+  photoUrl: string | null;
 }
 
 export interface BrowsePalette {
@@ -234,28 +255,47 @@ export interface BrowsePalette {
   name: string;
   description: string | null;
   userId: string;
+  author?: AuthorSummary | null;
   isPublic: boolean;
   isOwner?: boolean;
+  /** Set when a moderator hid the palette (only its owner still sees it) */
+  hiddenAt?: string | null;
   likesCount: number;
   savesCount: number;
+  commentsCount?: number;
   createdAt: string;
   colors: PaletteColor[];
   userLiked?: boolean;
+  parentPaletteId?: string | null;
+  remixDepth?: number;
+  tags?: PaletteTag[];
+  metadata?: PaletteGeneratorMetadata | null;
+}
+
+export interface PaletteTag {
+  id: string;
+  name: string;
+  slug: string;
 }
 
 export interface BrowsePalettesResponse {
   success: boolean;
   data: BrowsePalette[];
+  /** Pass back as `cursor` to fetch the next page; null on the last page */
+  nextCursor?: string | null;
 }
 
 export interface BrowsePalettesOptions {
-  sort?: 'recent' | 'popular';
+  /** `following` requires sign-in; `relevance` requires `q` */
+  sort?: 'recent' | 'popular' | 'trending' | 'following' | 'relevance';
   userId?: string;
   limit?: number;
-  offset?: number;
+  cursor?: string;
   theme?: string;
   tags?: string;
   q?: string;
+  /** Hex colors to search for by similarity (e.g. `#2A9D8F`) */
+  colors?: string[];
 }
 
 /**
@@ -268,16 +308,33 @@ export async function browsePalettes(
   if (options.sort) params.set('sort', options.sort);
   if (options.userId) params.set('userId', options.userId);
   if (options.limit) params.set('limit', String(options.limit));
-  if (options.offset) params.set('offset', String(options.offset));
+  if (options.cursor) params.set('cursor', options.cursor);
   if (options.theme) params.set('theme', options.theme);
   if (options.tags) params.set('tags', options.tags);
   if (options.q) params.set('q', options.q);
+  for (const color of options.colors ?? []) {
+    params.append('color', color.replace('#', ''));
+  }
   params.set('deviceId', getDeviceId());
 
   const query = params.toString();
   return apiGet<BrowsePalettesResponse>(`/palettes${query ? `?${query}` : ''}`);
 }
 
+export interface SearchSuggestions {
+  tags: PaletteTag[];
+  palettes: { id: string; name: string }[];
+}
+
+/**
+ * Type-ahead suggestions for the search box (tags and palette names)
+ */
+export async function getSearchSuggestions(
+  q: string
+): Promise<{ success: boolean; data: SearchSuggestions }> {
+  return apiGet(`/search/suggest?q=${encodeURIComponent(q)}`);
+}
+
 /**
  * Get palettes created by the current user
  */
@@ -294,24 +351,55 @@ export async function getMyPalettes(
   );
 }
 
+/**
+ * Get palettes the current user has saved, most recently saved first
+ */
+export async function getSavedPalettes(
+  options: { limit?: number; cursor?: string } = {}
+): Promise<BrowsePalettesResponse> {
+  const params = new URLSearchParams();
+  if (options.limit) params.set('limit', String(options.limit));
+  if (options.cursor) params.set('cursor', options.cursor);
+
+  const query = params.toString();
+  return apiGet<BrowsePalettesResponse>(
+    `/palettes/saved${query ? `?${query}` : ''}`
+  );
+}
+
+/**
+ * Remove a palette from the current user's saved palettes
+ */
+export async function unsavePalette(paletteId: string): Promise<{
+  success: boolean;
+  data: { wasSaved: boolean; savesCount?: number };
+}> {
+  return apiDelete(`/palettes/${paletteId}/save`);
+}
+
 export interface GetPaletteResponse {
   success: boolean;
   data: BrowsePalette;
 }
 
 /**
- * Get a palette by ID
+ * Get a palette by ID. A share token opens a private palette to anyone.
  */
-export async function getPaletteById(id: string): Promise<GetPaletteResponse> {
-  return apiGet<GetPaletteResponse>(`/palettes/${id}`);
+export async function getPaletteById(
+  id: string,
+  share?: string
+): Promise<GetPaletteResponse> {
+  const query = share ? `?share=${encodeURIComponent(share)}` : '';
+  return apiGet<GetPaletteResponse>(`/palettes/${id}${query}`);
 }
 
 /**
- * Delete a palette owned by the current user
+ * Move a palette owned by the current user to the trash. It can be
+ * restored until `purgeAt`.
  */
 export async function deletePalette(
   id: string
-): Promise<{ success: boolean; data: { deleted: boolean } }> {
+): Promise<{ success: boolean; data: { deleted: boolean; purgeAt: string } }> {
   return apiDelete(`/palettes/${id}`);
 }
 
@@ -320,10 +408,390 @@ export async function deletePalette(
  */
 export async function updatePalette(
   paletteId: string,
-  colors: Array<{ hexValue: string; position: number; name: string }>
-): Promise<{ success: boolean; data: { updated: boolean } }> {
+  colors: Array<{
+    hexValue: string;
+    position: number;
+    name: string;
+    role?: string;
+    oklch?: { l: number; c: number; h: number };
+  }>
+): Promise<{ success: boolean; data: { updated: boolean; revision: number } }> {
   return apiRequest(`/palettes/${paletteId}`, {
     method: 'PUT',
     body: JSON.stringify({ colors }),
   });
 }
+
+export interface PaletteDetailsUpdate {
+  name?: string;
+  description?: string | null;
+  isPublic?: boolean;
+  /** Replaces the palette's tags; unknown tag names are created */
+  tags?: string[];
+}
+
+/**
+ * Update the name, description, visibility or tags of a palette owned by
+ * the current user
+ */
+export async function updatePaletteDetails(
+  paletteId: string,
+  data: PaletteDetailsUpdate
+): Promise<{
+  success: boolean;
+  data: {
+    id: string;
+    name: string;
+    description: string | null;
+    isPublic: boolean;
+    tags: PaletteTag[];
+  };
+}> {
+  return apiPatch(`/palettes/${paletteId}`, data);
+}
+
+// Palette revision history types
+export interface PaletteRevision {
+  id: string;
+  revision: number;
+  colors: Array<{ hexValue: string; position: number; name: string | null }>;
+  userId: string | null;
+  createdAt: string;
+}
+
+export interface PaletteRevisionsResponse {
+  success: boolean;
+  data: PaletteRevision[];
+}
+
+/**
+ * Get the revision history of a palette, newest first
+ */
+export async function getPaletteRevisions(
+  paletteId: string
+): Promise<PaletteRevisionsResponse> {
+  return apiGet<PaletteRevisionsResponse>(`/palettes/${paletteId}/revisions`);
+}
+
+/**
+ * Restore a palette owned by the current user to an earlier revision
+ */
+export async function restorePaletteRevision(
+  paletteId: string,
+  revision: number
+): Promise<{
+  success: boolean;
+  data: { restoredFrom: number; revision: number };
+}> {
+  return apiPost(`/palettes/${paletteId}/revisions/${revision}/restore`, {});
+}
+
+/** A revocable link to a private palette */
+export interface ShareToken {
+  id: string;
+  /** Leading characters, to tell links apart */
+  prefix: string;
+  createdAt: string;
+}
+
+/**
+ * Get the share tokens of a palette owned by the current user, newest first
+ */
+export async function getShareTokens(
+  paletteId: string
+): Promise<{ success: boolean; data: ShareToken[] }> {
+  return apiGet(`/palettes/${paletteId}/share-tokens`);
+}
+
+/**
+ * Mint a share token for a palette owned by the current user. The full
+ * token is only returned here; the API keeps just its hash.
+ */
+export async function createShareToken(
+  paletteId: string
+): Promise<{ success: boolean; data: ShareToken & { token: string } }> {
+  return apiPost(`/palettes/${paletteId}/share-tokens`, {});
+}
+
+/**
+ * Revoke a share token; links carrying it stop working
+ */
+export async function revokeShareToken(
+  paletteId: string,
+  tokenId: string
+): Promise<{ success: boolean; data: { revoked: boolean } }> {
+  return apiDelete(`/palettes/${paletteId}/share-tokens/${tokenId}`);
+}
+
+// Remix lineage types
+export interface LineagePalette extends BrowsePalette {
+  /** Steps up the chain from the palette (1 = direct parent). */
+  distance: number;
+}
+
+export interface RemixPalette extends BrowsePalette {
+  parentPaletteId: string;
+  /** Steps down the tree from the palette (1 = direct remix). */
+  depth: number;
+}
+
+/**
+ * Get the palettes a palette was remixed from, nearest parent first
+ */
+export async function getPaletteLineage(
+  paletteId: string
+): Promise<{ success: boolean; data: LineagePalette[] }> {
+  return apiGet(`/palettes/${paletteId}/lineage`);
+}
+
+/**
+ * Get the remixes of a palette as a flat, breadth-first list
+ */
+export async function getPaletteRemixes(
+  paletteId: string,
+  depth?: number
+): Promise<{ success: boolean; data: RemixPalette[] }> {
+  const query = depth ? `?depth=${depth}` : '';
+  return apiGet(`/palettes/${paletteId}/remixes${query}`);
+}
+
+/**
+ * PATCH request helper
+ */
+export async function apiPatch<T>(endpoint: string, data: unknown): Promise<T> {
+  return apiRequest<T>(endpoint, {
+    method: 'PATCH',
+    body: JSON.stringify(data),
+  });
+}
+
+// Collection types
+export interface Collection {
+  id: string;
+  userId: string;
+  name: string;
+  description: string | null;
+  isPublic: boolean;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+  palettesCount?: number;
+}
+
+export interface CollectionWithPalettes extends Collection {
+  isOwner: boolean;
+  palettes: BrowsePalette[];
+}
+
+/**
+ * Get the current user's collections in display order
+ */
+export async function getMyCollections(): Promise<{
+  success: boolean;
+  data: Collection[];
+}> {
+  return apiGet('/collections/my');
+}
+
+/**
+ * Get a collection with its palettes
+ */
+export async function getCollection(
+  collectionId: string
+): Promise<{ success: boolean; data: CollectionWithPalettes }> {
+  return apiGet(`/collections/${collectionId}`);
+}
+
+/**
+ * Create a new collection
+ */
+export async function createCollection(data: {
+  name: string;
+  description?: string;
+  isPublic?: boolean;
+}): Promise<{ success: boolean; data: Collection }> {
+  return apiPost('/collections', data);
+}
+
+/**
+ * Rename a collection or change its description / visibility
+ */
+export async function updateCollection(
+  collectionId: string,
+  data: { name?: string; description?: string | null; isPublic?: boolean }
+): Promise<{ success: boolean; data: Collection }> {
+  return apiPatch(`/collections/${collectionId}`, data);
+}
+
+/**
+ * Reorder the current user's collections
+ */
+export async function reorderCollections(
+  collectionIds: string[]
+): Promise<{ success: boolean; data: { reordered: boolean } }> {
+  return apiRequest('/collections/order', {
+    method: 'PUT',
+    body: JSON.stringify({ collectionIds }),
+  });
+}
+
+/**
+ * Delete a collection (its palettes are kept)
+ */
+export async function deleteCollection(
+  collectionId: string
+): Promise<{ success: boolean; data: { deleted: boolean } }> {
+  return apiDelete(`/collections/${collectionId}`);
+}
+
+/**
+ * Add a palette to a collection
+ */
+export async function addPaletteToCollection(
+  collectionId: string,
+  paletteId: string
+): Promise<{ success: boolean; data: { added: boolean } }> {
+  return apiPost(`/collections/${collectionId}/palettes`, { paletteId });
+}
+
+/**
+ * Remove a palette from a collection
+ */
+export async function removePaletteFromCollection(
+  collectionId: string,
+  paletteId: string
+): Promise<{ success: boolean; data: { removed: boolean } }> {
+  return apiDelete(`/collections/${collectionId}/palettes/${paletteId}`);
+}
+
+/**
+ * Move palettes, likes and saves made anonymously on this device onto the
+ * signed-in account. A no-op when the device has nothing to claim.
+ */
+export async function claimDevice(): Promise<{
+  success: boolean;
+  data: { palettes: number; likes: number; saves: number };
+}> {
+  return apiPost('/me/claim-device', { deviceId: getDeviceId() });
+}
+
+// User profile types
+export interface UserProfile extends AuthorSummary {
+  createdAt: string;
+  /** Public palettes by this user */
+  paletteCount: number;
+  /** Likes received across those palettes */
+  totalLikes: number;
+  followersCount: number;
+  followingCount: number;
+  /** True when the signed-in viewer is this user */
+  isSelf: boolean;
+  /** True when the signed-in viewer follows this user */
+  isFollowing: boolean;
+}
+
+/**
+ * Get a user's public profile
+ */
+export async function getUserProfile(
+  userId: string
+): Promise<{ success: boolean; data: UserProfile }> {
+  return apiGet(`/users/${userId}`);
+}
+
+/**
+ * Update the signed-in user's display name and/or avatar URL
+ * (null clears a field)
+ */
+export async function updateMyProfile(data: {
+  displayName?: string | null;
+  photoUrl?: string | null;
+}): Promise<{ success: boolean; data: AuthorSummary }> {
+  return apiPatch('/me', data);
+}
+
+export interface FollowResponse {
+  success: boolean;
+  data: { following: boolean; followersCount: number };
+}
+
+/**
+ * Follow a user (requires authentication)
+ */
+export async function followUser(userId: string): Promise<FollowResponse> {
+  return apiPost(`/users/${userId}/follow`, {});
+}
+
+/**
+ * Unfollow a user (requires authentication)
+ */
+export async function unfollowUser(userId: string): Promise<FollowResponse> {
+  return apiDelete(`/users/${userId}/follow`);
+}
+
+export interface PaletteComment {
+  id: string;
+  paletteId: string;
+  userId: string;
+  /** Top-level comment this replies to; null for top-level comments */
+  parentId: string | null;
+  body: string;
+  createdAt: string;
+  author: AuthorSummary | null;
+  /** True when the viewer wrote the comment or owns the palette */
+  canDelete: boolean;
+  /** Replies (top-level comments only) */
+  replies?: PaletteComment[];
+}
+
+/**
+ * Get a page of a palette's comments, oldest first, with replies
+ */
+export async function getPaletteComments(
+  paletteId: string,
+  cursor?: string
+): Promise<{
+  success: boolean;
+  data: PaletteComment[];
+  nextCursor: string | null;
+}> {
+  const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+  return apiGet(`/palettes/${paletteId}/comments${query}`);
+}
+
+/**
+ * Comment on a palette, or reply to a top-level comment (requires authentication)
+ */
+export async function postPaletteComment(
+  paletteId: string,
+  body: string,
+  parentId?: string
+): Promise<{
+  success: boolean;
+  data: { comment: PaletteComment; commentsCount: number };
+}> {
+  return apiPost(`/palettes/${paletteId}/comments`, { body, parentId });
+}
+
+/**
+ * Delete a comment and its replies (requires authentication)
+ */
+export async function deleteComment(commentId: string): Promise<{
+  success: boolean;
+  data: { deleted: number; commentsCount: number };
+}> {
+  return apiDelete(`/comments/${commentId}`);
+}
+
+export type ReportReason = 'spam' | 'offensive' | 'copyright' | 'other';
+
+/**
+ * Report a palette to the moderators (requires authentication)
+ */
+export async function reportPalette(
+  paletteId: string,
+  reason: ReportReason,
+  details?: string
+): Promise<{ success: boolean; data: { alreadyReported: boolean } }> {
+  return apiPost(`/palettes/${paletteId}/report`, { reason, details });
+}
@@ -0,0 +1,13 @@
+CREATE TABLE "palette_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"palette_id" uuid NOT NULL,
+	"revision" integer NOT NULL,
+	"colors" jsonb NOT NULL,
+	"user_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "palette_revisions" ADD CONSTRAINT "palette_revisions_palette_id_palettes_id_fk" FOREIGN KEY ("palette_id") REFERENCES "public"."palettes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "palette_revisions" ADD CONSTRAINT "palette_revisions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "palette_revisions_palette_revision_idx" ON "palette_revisions" USING btree ("palette_id","revision");--> statement-breakpoint
+CREATE INDEX "palette_revisions_palette_id_idx" ON "palette_revisions" USING btree ("palette_id");
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE "collection_palettes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"collection_id" uuid NOT NULL,
+	"palette_id" uuid NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "collections" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"is_public" boolean DEFAULT false NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "collection_palettes" ADD CONSTRAINT "collection_palettes_collection_id_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."collections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "collection_palettes" ADD CONSTRAINT "collection_palettes_palette_id_palettes_id_fk" FOREIGN KEY ("palette_id") REFERENCES "public"."palettes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "collections" ADD CONSTRAINT "collections_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "collection_palettes_collection_palette_idx" ON "collection_palettes" USING btree ("collection_id","palette_id");--> statement-breakpoint
+CREATE INDEX "collection_palettes_collection_id_idx" ON "collection_palettes" USING btree ("collection_id");--> statement-breakpoint
+CREATE INDEX "collection_palettes_palette_id_idx" ON "collection_palettes" USING btree ("palette_id");--> statement-breakpoint
+CREATE INDEX "collections_user_id_idx" ON "collections" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "collections_user_position_idx" ON "collections" USING btree ("user_id","position");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "palettes" ADD COLUMN "parent_palette_id" uuid;--> statement-breakpoint
+ALTER TABLE "palettes" ADD COLUMN "remix_depth" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "palettes" ADD CONSTRAINT "palettes_parent_palette_id_palettes_id_fk" FOREIGN KEY ("parent_palette_id") REFERENCES "public"."palettes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "palettes_parent_palette_id_idx" ON "palettes" USING btree ("parent_palette_id");--> statement-breakpoint
+UPDATE "palettes" AS "p" SET "parent_palette_id" = "p"."source_id", "source_id" = NULL FROM "palettes" AS "parent" WHERE "parent"."id" = "p"."source_id";--> statement-breakpoint
+WITH RECURSIVE "lineage" AS (SELECT "id", 0 AS "depth" FROM "palettes" WHERE "parent_palette_id" IS NULL UNION ALL SELECT "p"."id", "l"."depth" + 1 FROM "palettes" AS "p" JOIN "lineage" AS "l" ON "p"."parent_palette_id" = "l"."id") UPDATE "palettes" SET "remix_depth" = "lineage"."depth" FROM "lineage" WHERE "palettes"."id" = "lineage"."id" AND "lineage"."depth" > 0;
@@ -0,0 +1,30 @@
+ALTER TABLE "colors" ADD COLUMN "oklab_l" real;--> statement-breakpoint
+ALTER TABLE "colors" ADD COLUMN "oklab_a" real;--> statement-breakpoint
+ALTER TABLE "colors" ADD COLUMN "oklab_b" real;--> statement-breakpoint
+CREATE INDEX "colors_oklab_idx" ON "colors" USING btree ("oklab_l","oklab_a","oklab_b");--> statement-breakpoint
+WITH "srgb" AS (
+  SELECT "id",
+    ('x' || substr("hex_value", 2, 2))::bit(8)::int / 255.0 AS "r",
+    ('x' || substr("hex_value", 4, 2))::bit(8)::int / 255.0 AS "g",
+    ('x' || substr("hex_value", 6, 2))::bit(8)::int / 255.0 AS "b"
+  FROM "colors"
+  WHERE "hex_value" ~ '^#[0-9A-Fa-f]{6}$'
+), "linear" AS (
+  SELECT "id",
+    CASE WHEN "r" <= 0.04045 THEN "r" / 12.92 ELSE power(("r" + 0.055) / 1.055, 2.4) END AS "r",
+    CASE WHEN "g" <= 0.04045 THEN "g" / 12.92 ELSE power(("g" + 0.055) / 1.055, 2.4) END AS "g",
+    CASE WHEN "b" <= 0.04045 THEN "b" / 12.92 ELSE power(("b" + 0.055) / 1.055, 2.4) END AS "b"
+  FROM "srgb"
+), "lms" AS (
+  SELECT "id",
+    cbrt(0.4122214708 * "r" + 0.5363325363 * "g" + 0.0514459929 * "b") AS "l",
+    cbrt(0.2119034982 * "r" + 0.6806995451 * "g" + 0.1073969566 * "b") AS "m",
+    cbrt(0.0883024619 * "r" + 0.2817188376 * "g" + 0.6299787005 * "b") AS "s"
+  FROM "linear"
+)
+UPDATE "colors" SET
+  "oklab_l" = 0.2104542553 * "lms"."l" + 0.793617785 * "lms"."m" - 0.0040720468 * "lms"."s",
+  "oklab_a" = 1.9779984951 * "lms"."l" - 2.428592205 * "lms"."m" + 0.4505937099 * "lms"."s",
+  "oklab_b" = 0.0259040371 * "lms"."l" + 0.7827717662 * "lms"."m" - 0.808675766 * "lms"."s"
+FROM "lms"
+WHERE "colors"."id" = "lms"."id";
@@ -0,0 +1,3 @@
+ALTER TABLE "palettes" ADD COLUMN "color_signature" text;--> statement-breakpoint
+CREATE INDEX "palettes_color_signature_idx" ON "palettes" USING btree ("color_signature");--> statement-breakpoint
+UPDATE "palettes" SET "color_signature" = "sig"."signature" FROM (SELECT "palette_id", string_agg(upper("hex_value"), ',' ORDER BY "position") AS "signature" FROM "colors" GROUP BY "palette_id") AS "sig" WHERE "palettes"."id" = "sig"."palette_id";
@@ -0,0 +1,9 @@
+ALTER TABLE "colors" ADD COLUMN "role" varchar(50);--> statement-breakpoint
+ALTER TABLE "colors" ADD COLUMN "oklch_l" double precision;--> statement-breakpoint
+ALTER TABLE "colors" ADD COLUMN "oklch_c" double precision;--> statement-breakpoint
+ALTER TABLE "colors" ADD COLUMN "oklch_h" double precision;--> statement-breakpoint
+ALTER TABLE "palettes" ADD COLUMN "metadata" jsonb;--> statement-breakpoint
+-- Backfill roles from color names that already hold a palette role. Exact
+-- OKLCH values and generator metadata were never stored, so they stay null.
+UPDATE "colors" SET "role" = lower("name")
+WHERE lower("name") IN ('background', 'text', 'primary', 'secondary', 'accent', 'error', 'warning', 'success', 'info');
@@ -0,0 +1,19 @@
+CREATE TABLE "reports" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"palette_id" uuid NOT NULL,
+	"reporter_id" uuid NOT NULL,
+	"reason" varchar(50) NOT NULL,
+	"details" text,
+	"status" varchar(20) DEFAULT 'open' NOT NULL,
+	"resolved_by_id" uuid,
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "palettes" ADD COLUMN "hidden_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "suspended_at" timestamp;--> statement-breakpoint
+ALTER TABLE "reports" ADD CONSTRAINT "reports_palette_id_palettes_id_fk" FOREIGN KEY ("palette_id") REFERENCES "public"."palettes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reports" ADD CONSTRAINT "reports_reporter_id_users_id_fk" FOREIGN KEY ("reporter_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reports" ADD CONSTRAINT "reports_resolved_by_id_users_id_fk" FOREIGN KEY ("resolved_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "reports_palette_reporter_idx" ON "reports" USING btree ("palette_id","reporter_id");--> statement-breakpoint
+CREATE INDEX "reports_status_created_at_idx" ON "reports" USING btree ("status","created_at");
\ No newline at end of file
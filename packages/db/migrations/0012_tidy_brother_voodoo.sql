@@ -0,0 +1,23 @@
+ALTER TABLE "palettes" ADD COLUMN "search_vector" "tsvector";--> statement-breakpoint
+CREATE INDEX "palettes_search_vector_idx" ON "palettes" USING gin ("search_vector");--> statement-breakpoint
+-- Search document for a palette: name (A), tag names (B), description (C)
+-- and color names (D). The 'simple' config skips stemming so prefix queries
+-- match what users type. The API calls this after every write that touches
+-- one of these fields.
+CREATE OR REPLACE FUNCTION palette_search_vector(p_id uuid) RETURNS tsvector
+LANGUAGE sql STABLE AS $$
+  SELECT
+    setweight(to_tsvector('simple', coalesce(p.name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce((
+      SELECT string_agg(t.name, ' ')
+      FROM palette_tags pt JOIN tags t ON t.id = pt.tag_id
+      WHERE pt.palette_id = p.id
+    ), '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(p.description, '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce((
+      SELECT string_agg(c.name, ' ') FROM colors c WHERE c.palette_id = p.id
+    ), '')), 'D')
+  FROM palettes p
+  WHERE p.id = p_id
+$$;--> statement-breakpoint
+UPDATE "palettes" SET "search_vector" = palette_search_vector("id");
@@ -0,0 +1,4 @@
+ALTER TABLE "palettes" ADD COLUMN "trending_score" double precision DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX "palettes_public_trending_idx" ON "palettes" USING btree ("is_public","trending_score","created_at");--> statement-breakpoint
+-- Seed scores for palettes that already have likes; the refresh-trending job keeps them current
+UPDATE "palettes" SET "trending_score" = "likes_count"::float8 / power(extract(epoch from localtimestamp - "created_at") / 3600 + 2, 1.5) WHERE "likes_count" > 0;
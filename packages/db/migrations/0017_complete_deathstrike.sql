@@ -0,0 +1,9 @@
+CREATE TABLE "idempotency_keys" (
+	"key" text PRIMARY KEY NOT NULL,
+	"fingerprint" varchar(64) NOT NULL,
+	"status" integer,
+	"body" jsonb,
+	"expires_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idempotency_keys_expires_at_idx" ON "idempotency_keys" USING btree ("expires_at");
\ No newline at end of file
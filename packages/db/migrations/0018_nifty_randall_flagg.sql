@@ -0,0 +1,2 @@
+ALTER TABLE "palettes" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+CREATE INDEX "palettes_deleted_at_idx" ON "palettes" USING btree ("deleted_at");
\ No newline at end of file
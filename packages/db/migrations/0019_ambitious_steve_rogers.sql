@@ -0,0 +1,10 @@
+CREATE TABLE "palette_share_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"palette_id" uuid NOT NULL,
+	"token" varchar(64) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "palette_share_tokens" ADD CONSTRAINT "palette_share_tokens_palette_id_palettes_id_fk" FOREIGN KEY ("palette_id") REFERENCES "public"."palettes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "palette_share_tokens_token_idx" ON "palette_share_tokens" USING btree ("token");--> statement-breakpoint
+CREATE INDEX "palette_share_tokens_palette_id_idx" ON "palette_share_tokens" USING btree ("palette_id");
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "palette_share_tokens" ADD COLUMN "prefix" varchar(16);--> statement-breakpoint
+ALTER TABLE "palette_share_tokens" ADD COLUMN "token_hash" varchar(64);--> statement-breakpoint
+UPDATE "palette_share_tokens" SET "prefix" = left("token", 6), "token_hash" = encode(sha256(convert_to("token", 'UTF8')), 'hex');--> statement-breakpoint
+ALTER TABLE "palette_share_tokens" ALTER COLUMN "prefix" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "palette_share_tokens" ALTER COLUMN "token_hash" SET NOT NULL;--> statement-breakpoint
+DROP INDEX "palette_share_tokens_token_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX "palette_share_tokens_token_hash_idx" ON "palette_share_tokens" USING btree ("token_hash");--> statement-breakpoint
+ALTER TABLE "palette_share_tokens" DROP COLUMN "token";
@@ -1,5 +1,5 @@
 import { relations } from 'drizzle-orm';
-import { users, palettes, colors, tags, paletteTags, sources, likes, saves } from './tables.js';
+import { users, palettes, colors, tags, paletteTags, sources, likes, saves, reports, comments, follows, paletteRevisions, collections, collectionPalettes, apiKeys, webhooks, webhookDeliveries, paletteShareTokens } from './tables.js';
 
 /**
  * Define relationships between tables
@@ -9,6 +9,12 @@ export const usersRelations = relations(users, ({ many }) => ({
   palettes: many(palettes),
   likes: many(likes),
   saves: many(saves),
+  comments: many(comments),
+  collections: many(collections),
+  following: many(follows, { relationName: 'follower' }),
+  followers: many(follows, { relationName: 'followee' }),
+  apiKeys: many(apiKeys),
+  webhooks: many(webhooks),
 }));
 
 export const sourcesRelations = relations(sources, ({ many }) => ({
@@ -24,10 +30,21 @@ export const palettesRelations = relations(palettes, ({ one, many }) => ({
     fields: [palettes.sourceId],
     references: [sources.id],
   }),
+  parent: one(palettes, {
+    fields: [palettes.parentPaletteId],
+    references: [palettes.id],
+    relationName: 'remixes',
+  }),
+  remixes: many(palettes, { relationName: 'remixes' }),
   colors: many(colors),
   paletteTags: many(paletteTags),
   likes: many(likes),
   saves: many(saves),
+  reports: many(reports),
+  comments: many(comments),
+  revisions: many(paletteRevisions),
+  collectionPalettes: many(collectionPalettes),
+  shareTokens: many(paletteShareTokens),
 }));
 
 export const colorsRelations = relations(colors, ({ one }) => ({
@@ -73,3 +90,103 @@ export const savesRelations = relations(saves, ({ one }) => ({
     references: [palettes.id],
   }),
 }));
+
+export const reportsRelations = relations(reports, ({ one }) => ({
+  palette: one(palettes, {
+    fields: [reports.paletteId],
+    references: [palettes.id],
+  }),
+  reporter: one(users, {
+    fields: [reports.reporterId],
+    references: [users.id],
+  }),
+}));
+
+export const commentsRelations = relations(comments, ({ one, many }) => ({
+  palette: one(palettes, {
+    fields: [comments.paletteId],
+    references: [palettes.id],
+  }),
+  user: one(users, {
+    fields: [comments.userId],
+    references: [users.id],
+  }),
+  parent: one(comments, {
+    fields: [comments.parentId],
+    references: [comments.id],
+    relationName: 'replies',
+  }),
+  replies: many(comments, { relationName: 'replies' }),
+}));
+
+export const followsRelations = relations(follows, ({ one }) => ({
+  follower: one(users, {
+    fields: [follows.followerId],
+    references: [users.id],
+    relationName: 'follower',
+  }),
+  followee: one(users, {
+    fields: [follows.followeeId],
+    references: [users.id],
+    relationName: 'followee',
+  }),
+}));
+
+export const paletteRevisionsRelations = relations(paletteRevisions, ({ one }) => ({
+  palette: one(palettes, {
+    fields: [paletteRevisions.paletteId],
+    references: [palettes.id],
+  }),
+  user: one(users, {
+    fields: [paletteRevisions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const collectionsRelations = relations(collections, ({ one, many }) => ({
+  user: one(users, {
+    fields: [collections.userId],
+    references: [users.id],
+  }),
+  collectionPalettes: many(collectionPalettes),
+}));
+
+export const collectionPalettesRelations = relations(collectionPalettes, ({ one }) => ({
+  collection: one(collections, {
+    fields: [collectionPalettes.collectionId],
+    references: [collections.id],
+  }),
+  palette: one(palettes, {
+    fields: [collectionPalettes.paletteId],
+    references: [palettes.id],
+  }),
+}));
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  user: one(users, {
+    fields: [apiKeys.userId],
+    references: [users.id],
+  }),
+}));
+
+export const webhooksRelations = relations(webhooks, ({ one, many }) => ({
+  user: one(users, {
+    fields: [webhooks.userId],
+    references: [users.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  webhook: one(webhooks, {
+    fields: [webhookDeliveries.webhookId],
+    references: [webhooks.id],
+  }),
+}));
+
+export const paletteShareTokensRelations = relations(paletteShareTokens, ({ one }) => ({
+  palette: one(palettes, {
+    fields: [paletteShareTokens.paletteId],
+    references: [palettes.id],
+  }),
+}));
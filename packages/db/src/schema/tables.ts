@@ -1,4 +1,13 @@
-import { pgTable, text, timestamp, uuid, varchar, boolean, integer, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, uuid, varchar, boolean, integer, real, doublePrecision, jsonb, index, uniqueIndex, customType, type AnyPgColumn } from 'drizzle-orm/pg-core';
+
+/**
+ * Postgres full-text search document
+ */
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
 
 /**
  * Users table
@@ -11,6 +20,8 @@ export const users = pgTable('users', {
   displayName: varchar('display_name', { length: 255 }),
   photoUrl: text('photo_url'),
   isBot: boolean('is_bot').notNull().default(false),
+  // Set by a moderator; suspended accounts can't act until restored
+  suspendedAt: timestamp('suspended_at'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => ({
@@ -32,6 +43,18 @@ export const sources = pgTable('sources', {
   nameIdx: uniqueIndex('sources_name_idx').on(table.name),
 }));
 
+/**
+ * Generator metadata stored with a palette
+ */
+export interface PaletteMetadata {
+  generator: string;
+  explanation: string;
+  timestamp: string;
+  tags?: string[];
+  confidence?: number;
+  roleHints?: Record<string, string>;
+}
+
 /**
  * Palettes table
  * Stores color palettes
@@ -42,20 +65,41 @@ export const palettes = pgTable('palettes', {
   description: text('description'),
   userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
   sourceId: uuid('source_id').references(() => sources.id, { onDelete: 'set null' }),
+  // Remix lineage: the palette this one was remixed from (null for originals)
+  parentPaletteId: uuid('parent_palette_id').references((): AnyPgColumn => palettes.id, { onDelete: 'set null' }),
+  remixDepth: integer('remix_depth').notNull().default(0), // 0 = original, 1 = remix of an original, ...
+  // Normalized colors in position order, e.g. "#1D3557,#E63946"; used to spot identical palettes
+  colorSignature: text('color_signature'),
+  // Generator output kept verbatim so saved palettes round-trip exactly
+  metadata: jsonb('metadata').$type<PaletteMetadata>(),
   isPublic: boolean('is_public').notNull().default(true),
+  // Set by a moderator; hidden palettes are only visible to their owner
+  hiddenAt: timestamp('hidden_at'),
+  // Set when the owner deletes the palette; trashed palettes are purged 30 days later
+  deletedAt: timestamp('deleted_at'),
+  // Weighted name/tags/description/color names, rebuilt by palette_search_vector()
+  searchVector: tsvector('search_vector'),
   likesCount: integer('likes_count').notNull().default(0),
   savesCount: integer('saves_count').notNull().default(0),
+  commentsCount: integer('comments_count').notNull().default(0),
+  // likesCount / (ageHours + 2)^1.5, recomputed by the refresh-trending job
+  trendingScore: doublePrecision('trending_score').notNull().default(0),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => ({
   userIdIdx: index('palettes_user_id_idx').on(table.userId),
   sourceIdIdx: index('palettes_source_id_idx').on(table.sourceId),
+  parentPaletteIdIdx: index('palettes_parent_palette_id_idx').on(table.parentPaletteId),
+  colorSignatureIdx: index('palettes_color_signature_idx').on(table.colorSignature),
   isPublicIdx: index('palettes_is_public_idx').on(table.isPublic),
   createdAtIdx: index('palettes_created_at_idx').on(table.createdAt),
   likesCountIdx: index('palettes_likes_count_idx').on(table.likesCount),
   // Composite indexes for browse sort queries
   publicRecentIdx: index('palettes_public_recent_idx').on(table.isPublic, table.createdAt),
   publicPopularIdx: index('palettes_public_popular_idx').on(table.isPublic, table.likesCount, table.createdAt),
+  publicTrendingIdx: index('palettes_public_trending_idx').on(table.isPublic, table.trendingScore, table.createdAt),
+  searchVectorIdx: index('palettes_search_vector_idx').using('gin', table.searchVector),
+  deletedAtIdx: index('palettes_deleted_at_idx').on(table.deletedAt),
 }));
 
 /**
@@ -68,10 +112,20 @@ export const colors = pgTable('colors', {
   hexValue: varchar('hex_value', { length: 7 }).notNull(), // e.g., #FF5733
   position: integer('position').notNull(), // Order within the palette (0-indexed)
   name: varchar('name', { length: 100 }), // Optional color name
+  role: varchar('role', { length: 50 }), // Palette role, e.g. primary, background
+  // Exact OKLCH source values (hexValue is their rounded sRGB rendering)
+  oklchL: doublePrecision('oklch_l'),
+  oklchC: doublePrecision('oklch_c'),
+  oklchH: doublePrecision('oklch_h'),
+  // OKLab coordinates derived from hexValue, used for color similarity search
+  oklabL: real('oklab_l'),
+  oklabA: real('oklab_a'),
+  oklabB: real('oklab_b'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
 }, (table) => ({
   paletteIdIdx: index('colors_palette_id_idx').on(table.paletteId),
   palettePositionIdx: index('colors_palette_position_idx').on(table.paletteId, table.position),
+  oklabIdx: index('colors_oklab_idx').on(table.oklabL, table.oklabA, table.oklabB),
 }));
 
 /**
@@ -133,3 +187,213 @@ export const saves = pgTable('saves', {
   userIdIdx: index('saves_user_id_idx').on(table.userId),
   paletteIdIdx: index('saves_palette_id_idx').on(table.paletteId),
 }));
+
+/**
+ * Reports table
+ * User reports of abusive palettes, worked through by moderators
+ */
+export const reports = pgTable('reports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  paletteId: uuid('palette_id').references(() => palettes.id, { onDelete: 'cascade' }).notNull(),
+  reporterId: uuid('reporter_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  reason: varchar('reason', { length: 50 }).notNull(), // spam, offensive, copyright, other
+  details: text('details'),
+  status: varchar('status', { length: 20 }).notNull().default('open'), // open, resolved, dismissed
+  resolvedById: uuid('resolved_by_id').references(() => users.id, { onDelete: 'set null' }),
+  resolvedAt: timestamp('resolved_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  paletteReporterIdx: uniqueIndex('reports_palette_reporter_idx').on(table.paletteId, table.reporterId),
+  statusCreatedAtIdx: index('reports_status_created_at_idx').on(table.status, table.createdAt),
+}));
+
+/**
+ * Comments table
+ * Discussion on a palette; replies point at a top-level comment via parentId
+ */
+export const comments = pgTable('comments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  paletteId: uuid('palette_id').references(() => palettes.id, { onDelete: 'cascade' }).notNull(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  // Null for top-level comments; replies are only one level deep
+  parentId: uuid('parent_id').references((): AnyPgColumn => comments.id, { onDelete: 'cascade' }),
+  body: text('body').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  paletteCreatedAtIdx: index('comments_palette_created_at_idx').on(table.paletteId, table.createdAt),
+  parentIdIdx: index('comments_parent_id_idx').on(table.parentId),
+  userIdIdx: index('comments_user_id_idx').on(table.userId),
+}));
+
+/**
+ * Follows table
+ * Directed follower → followee edges between users
+ */
+export const follows = pgTable('follows', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  followerId: uuid('follower_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  followeeId: uuid('followee_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  followerFolloweeIdx: uniqueIndex('follows_follower_followee_idx').on(table.followerId, table.followeeId),
+  followeeIdIdx: index('follows_followee_id_idx').on(table.followeeId),
+}));
+
+/**
+ * Palette Revisions table
+ * Immutable snapshots of a palette's colors, one row per edit
+ */
+export const paletteRevisions = pgTable('palette_revisions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  paletteId: uuid('palette_id').references(() => palettes.id, { onDelete: 'cascade' }).notNull(),
+  revision: integer('revision').notNull(), // 1-based, increments per palette
+  colors: jsonb('colors').$type<Array<{
+    hexValue: string;
+    position: number;
+    name: string | null;
+    role?: string | null;
+    oklch?: { l: number; c: number; h: number } | null;
+  }>>().notNull(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  paletteRevisionIdx: uniqueIndex('palette_revisions_palette_revision_idx').on(table.paletteId, table.revision),
+  paletteIdIdx: index('palette_revisions_palette_id_idx').on(table.paletteId),
+}));
+
+/**
+ * Collections table
+ * Named, user-owned boards for organizing saved palettes
+ */
+export const collections = pgTable('collections', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  isPublic: boolean('is_public').notNull().default(false),
+  position: integer('position').notNull().default(0), // Order within the owner's collection list
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  userIdIdx: index('collections_user_id_idx').on(table.userId),
+  userPositionIdx: index('collections_user_position_idx').on(table.userId, table.position),
+}));
+
+/**
+ * Collection Palettes junction table
+ * Many-to-many relationship between collections and palettes
+ */
+export const collectionPalettes = pgTable('collection_palettes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  collectionId: uuid('collection_id').references(() => collections.id, { onDelete: 'cascade' }).notNull(),
+  paletteId: uuid('palette_id').references(() => palettes.id, { onDelete: 'cascade' }).notNull(),
+  position: integer('position').notNull().default(0), // Order within the collection
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  collectionPaletteIdx: uniqueIndex('collection_palettes_collection_palette_idx').on(table.collectionId, table.paletteId),
+  collectionIdIdx: index('collection_palettes_collection_id_idx').on(table.collectionId),
+  paletteIdIdx: index('collection_palettes_palette_id_idx').on(table.paletteId),
+}));
+
+/**
+ * API Keys table
+ * Server-issued keys for third-party integrators; only a SHA-256 hash of
+ * each key is stored
+ */
+export const apiKeys = pgTable('api_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  prefix: varchar('prefix', { length: 16 }).notNull(), // Leading characters of the key, shown to identify it
+  keyHash: varchar('key_hash', { length: 64 }).notNull(),
+  scopes: text('scopes').array().notNull(), // 'read' | 'generate' | 'write'
+  allowedOrigins: text('allowed_origins').array().notNull().default([]), // Browser origins allowed to use the key
+  quotas: jsonb('quotas').$type<Record<string, number>>().notNull().default({}), // Per-route-group max requests per window
+  lastUsedAt: timestamp('last_used_at'),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  keyHashIdx: uniqueIndex('api_keys_key_hash_idx').on(table.keyHash),
+  userIdIdx: index('api_keys_user_id_idx').on(table.userId),
+}));
+
+/**
+ * Rate Limits table
+ * Fixed-window request counters for the API's Postgres rate-limit store
+ */
+export const rateLimits = pgTable('rate_limits', {
+  key: text('key').primaryKey(), // "<group>:<identity kind>:<identity>", e.g. "paletteWrite:user:abc123"
+  count: integer('count').notNull().default(0),
+  resetAt: timestamp('reset_at').notNull(),
+}, (table) => ({
+  resetAtIdx: index('rate_limits_reset_at_idx').on(table.resetAt),
+}));
+
+/**
+ * Idempotency Keys table
+ * First responses to write requests sent with an `Idempotency-Key` header,
+ * replayed when the same request is retried
+ */
+export const idempotencyKeys = pgTable('idempotency_keys', {
+  key: text('key').primaryKey(), // "<identity kind>:<identity>:<Idempotency-Key>", e.g. "user:abc123:4f1c…"
+  fingerprint: varchar('fingerprint', { length: 64 }).notNull(), // SHA-256 of method, path and body
+  status: integer('status'), // HTTP status of the stored response; null while the first request is in flight
+  body: jsonb('body'), // The stored JSON response body
+  lockedUntil: timestamp('locked_until'), // In-flight lease; a retry may take over the key once it passes without a response
+  expiresAt: timestamp('expires_at').notNull(),
+}, (table) => ({
+  expiresAtIdx: index('idempotency_keys_expires_at_idx').on(table.expiresAt),
+}));
+
+/**
+ * Webhooks table
+ * Integrator endpoints that receive signed palette event deliveries
+ */
+export const webhooks = pgTable('webhooks', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  url: text('url').notNull(),
+  description: varchar('description', { length: 255 }),
+  secret: varchar('secret', { length: 64 }).notNull(), // HMAC-SHA256 signing secret
+  events: text('events').array().notNull(), // e.g. 'palette.created'
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  userIdIdx: index('webhooks_user_id_idx').on(table.userId),
+}));
+
+/**
+ * Webhook Deliveries table
+ * One row per event sent to a webhook: the delivery log and retry queue
+ */
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  webhookId: uuid('webhook_id').references(() => webhooks.id, { onDelete: 'cascade' }).notNull(),
+  event: varchar('event', { length: 50 }).notNull(),
+  payload: jsonb('payload').$type<Record<string, unknown>>().notNull(), // The JSON body sent
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // 'pending' | 'delivered' | 'failed'
+  attempts: integer('attempts').notNull().default(0),
+  nextAttemptAt: timestamp('next_attempt_at').notNull().defaultNow(),
+  responseStatus: integer('response_status'), // HTTP status of the last attempt
+  lastError: text('last_error'),
+  deliveredAt: timestamp('delivered_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  webhookCreatedIdx: index('webhook_deliveries_webhook_created_idx').on(table.webhookId, table.createdAt),
+  statusNextAttemptIdx: index('webhook_deliveries_status_next_attempt_idx').on(table.status, table.nextAttemptAt),
+}));
+
+/**
+ * Palette Share Tokens table
+ * Revocable unlisted links: anyone holding a token can view the palette,
+ * even while it is private. Only a SHA-256 hash of each token is stored.
+ */
+export const paletteShareTokens = pgTable('palette_share_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  paletteId: uuid('palette_id').references(() => palettes.id, { onDelete: 'cascade' }).notNull(),
+  prefix: varchar('prefix', { length: 16 }).notNull(), // Leading characters of the token, shown to identify it
+  tokenHash: varchar('token_hash', { length: 64 }).notNull(), // SHA-256 of the token; the token itself is never stored
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  tokenHashIdx: uniqueIndex('palette_share_tokens_token_hash_idx').on(table.tokenHash),
+  paletteIdIdx: index('palette_share_tokens_palette_id_idx').on(table.paletteId),
+}));
@@ -0,0 +1,170 @@
+import {
+  PALETTE_EXPORT_FORMATS,
+  getPaletteExportFormat,
+  paletteExportFileName,
+  hexToRgb,
+  rgbToCmyk,
+  rgbToBlenderHex,
+  ExportPalette,
+} from '../export-formats';
+
+const palette: ExportPalette = {
+  name: 'Ocean Breeze',
+  colors: [
+    { hex: '#0077be', name: 'primary' },
+    { hex: '#00C9FF', name: 'accent' },
+    { hex: '#FFFFFF', name: 'accent' },
+  ],
+};
+
+function exportText(id: string): string {
+  const output = getPaletteExportFormat(id)!.format(palette);
+  expect(typeof output).toBe('string');
+  return output as string;
+}
+
+function exportBytes(id: string): Uint8Array {
+  const output = getPaletteExportFormat(id)!.format(palette);
+  expect(output).toBeInstanceOf(Uint8Array);
+  return output as Uint8Array;
+}
+
+describe('Palette export formats', () => {
+  describe('color helpers', () => {
+    it('should parse hex with or without a leading #', () => {
+      expect(hexToRgb('#0077BE')).toEqual({ r: 0, g: 119, b: 190 });
+      expect(hexToRgb('00c9ff')).toEqual({ r: 0, g: 201, b: 255 });
+    });
+
+    it('should convert black to pure K in CMYK', () => {
+      expect(rgbToCmyk({ r: 0, g: 0, b: 0 })).toEqual({
+        c: 0,
+        m: 0,
+        y: 0,
+        k: 100,
+      });
+    });
+
+    it('should linearize mid-grey for Blender', () => {
+      expect(rgbToBlenderHex({ r: 128, g: 128, b: 128 })).toBe('#373737');
+    });
+  });
+
+  describe('registry', () => {
+    it('should have unique ids', () => {
+      const ids = PALETTE_EXPORT_FORMATS.map(f => f.id);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should return undefined for unknown formats', () => {
+      expect(getPaletteExportFormat('pdf')).toBeUndefined();
+    });
+
+    it('should be deterministic for every format', () => {
+      for (const format of PALETTE_EXPORT_FORMATS) {
+        expect(format.format(palette)).toEqual(format.format(palette));
+      }
+    });
+
+    it('should build file names from the palette name', () => {
+      expect(
+        paletteExportFileName('Ocean Breeze!', getPaletteExportFormat('gpl')!)
+      ).toBe('ocean-breeze.gpl');
+      expect(
+        paletteExportFileName('***', getPaletteExportFormat('tokens')!)
+      ).toBe('palette.tokens.json');
+    });
+  });
+
+  describe('text formats', () => {
+    it('should export CSS custom properties with unique names', () => {
+      expect(exportText('css')).toBe(
+        '/* Ocean Breeze */\n' +
+          ':root {\n' +
+          '  --primary: #0077BE;\n' +
+          '  --accent: #00C9FF;\n' +
+          '  --accent-2: #FFFFFF;\n' +
+          '}\n'
+      );
+    });
+
+    it('should export SCSS variables', () => {
+      expect(exportText('scss')).toContain('$accent-2: #FFFFFF;');
+    });
+
+    it('should export a Tailwind config grouped under the palette name', () => {
+      const output = exportText('tailwind');
+      expect(output).toContain("'ocean-breeze': {");
+      expect(output).toContain("'primary': '#0077BE',");
+    });
+
+    it('should export W3C design tokens', () => {
+      const tokens = JSON.parse(exportText('tokens'));
+      expect(tokens['ocean-breeze'].$type).toBe('color');
+      expect(tokens['ocean-breeze'].primary).toEqual({ $value: '#0077BE' });
+    });
+
+    it('should export a GIMP palette', () => {
+      const lines = exportText('gpl').split('\n');
+      expect(lines.slice(0, 4)).toEqual([
+        'GIMP Palette',
+        'Name: Ocean Breeze',
+        'Columns: 3',
+        '#',
+      ]);
+      expect(lines[4]).toBe('  0 119 190\tprimary');
+    });
+
+    it('should export CSV matching the color table columns', () => {
+      const lines = exportText('csv').split('\n');
+      expect(lines[0]).toBe('Role,Hex,RGB,CMYK,Blender Hex');
+      expect(lines[3]).toBe(
+        'accent,#FFFFFF,"rgb(255, 255, 255)","cmyk(0%, 0%, 0%, 0%)",#FFFFFF'
+      );
+    });
+
+    it('should export one SVG rect per color', () => {
+      const output = exportText('svg');
+      expect(output.match(/<rect /g)).toHaveLength(3);
+      expect(output).toContain('width="300"');
+    });
+  });
+
+  describe('binary formats', () => {
+    it('should export Adobe swatch exchange blocks', () => {
+      const bytes = exportBytes('ase');
+      const view = new DataView(bytes.buffer);
+      expect(String.fromCharCode(...bytes.slice(0, 4))).toBe('ASEF');
+      expect(view.getUint32(8)).toBe(3);
+      // First block: color entry whose name is "primary"
+      expect(view.getUint16(12)).toBe(0x0001);
+      expect(view.getUint16(18)).toBe('primary'.length + 1);
+    });
+
+    it('should export Procreate swatches as a zip with Swatches.json', () => {
+      const bytes = exportBytes('swatches');
+      const view = new DataView(bytes.buffer);
+      expect(view.getUint32(0, true)).toBe(0x04034b50);
+
+      const nameLength = view.getUint16(26, true);
+      const dataLength = view.getUint32(18, true);
+      const name = new TextDecoder().decode(bytes.slice(30, 30 + nameLength));
+      const json = JSON.parse(
+        new TextDecoder().decode(
+          bytes.slice(30 + nameLength, 30 + nameLength + dataLength)
+        )
+      );
+
+      expect(name).toBe('Swatches.json');
+      expect(json[0].name).toBe('Ocean Breeze');
+      expect(json[0].swatches).toHaveLength(3);
+      expect(json[0].swatches[2]).toEqual({
+        hue: 0,
+        saturation: 0,
+        brightness: 1,
+        alpha: 1,
+        colorSpace: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,558 @@
+import { RGBColor } from './types.js';
+
+/**
+ * Palette export formats.
+ *
+ * Every format is a pure function of an ExportPalette, so the web app and
+ * the API produce byte-identical files for the same palette.
+ */
+
+/**
+ * A single color to export. `hex` is `#RRGGBB`; `name` is usually the
+ * color's role (e.g. "primary") and is used to derive variable names.
+ */
+export interface ExportColor {
+  hex: string;
+  name: string | null;
+}
+
+export interface ExportPalette {
+  name: string;
+  colors: ExportColor[];
+}
+
+export type PaletteExportFormatId =
+  | 'csv'
+  | 'css'
+  | 'scss'
+  | 'tailwind'
+  | 'tokens'
+  | 'gpl'
+  | 'ase'
+  | 'swatches'
+  | 'svg';
+
+export interface PaletteExportFormat {
+  id: PaletteExportFormatId;
+  label: string;
+  /** File extension without the leading dot */
+  extension: string;
+  mimeType: string;
+  /** Text formats return a string, binary formats a byte array */
+  format: (palette: ExportPalette) => string | Uint8Array;
+}
+
+// ---------------------------------------------------------------------------
+// Color helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a `#RRGGBB` (or `RRGGBB`) hex string to RGB (0-255)
+ */
+export function hexToRgb(hex: string): RGBColor {
+  const n = parseInt(hex.replace('#', ''), 16);
+  return { r: (n >> 16) & 0xff, g: (n >> 8) & 0xff, b: n & 0xff };
+}
+
+/**
+ * Convert RGB to CMYK
+ * CMYK values are percentages (0-100)
+ */
+export function rgbToCmyk(rgb: RGBColor): {
+  c: number;
+  m: number;
+  y: number;
+  k: number;
+} {
+  const rNorm = rgb.r / 255;
+  const gNorm = rgb.g / 255;
+  const bNorm = rgb.b / 255;
+
+  const k = 1 - Math.max(rNorm, gNorm, bNorm);
+
+  if (k === 1) {
+    return { c: 0, m: 0, y: 0, k: 100 };
+  }
+
+  return {
+    c: Math.round(((1 - rNorm - k) / (1 - k)) * 100),
+    m: Math.round(((1 - gNorm - k) / (1 - k)) * 100),
+    y: Math.round(((1 - bNorm - k) / (1 - k)) * 100),
+    k: Math.round(k * 100),
+  };
+}
+
+/**
+ * Convert sRGB to a linear-light hex string, which is what Blender expects
+ * when a color is typed into its hex field
+ */
+export function rgbToBlenderHex(rgb: RGBColor): string {
+  const toLinearHex = (value: number) => {
+    const normalized = value / 255;
+    const linear =
+      normalized <= 0.04045
+        ? normalized / 12.92
+        : Math.pow((normalized + 0.055) / 1.055, 2.4);
+    return Math.round(Math.max(0, Math.min(255, linear * 255)))
+      .toString(16)
+      .padStart(2, '0');
+  };
+
+  return `#${toLinearHex(rgb.r)}${toLinearHex(rgb.g)}${toLinearHex(rgb.b)}`.toUpperCase();
+}
+
+/**
+ * Convert RGB to HSB/HSV with every component in 0-1
+ */
+function rgbToHsb(rgb: RGBColor): { h: number; s: number; b: number } {
+  const r = rgb.r / 255;
+  const g = rgb.g / 255;
+  const b = rgb.b / 255;
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+
+  let h = 0;
+  if (delta !== 0) {
+    if (max === r) h = ((g - b) / delta) % 6;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+    h /= 6;
+    if (h < 0) h += 1;
+  }
+
+  return { h, s: max === 0 ? 0 : delta / max, b: max };
+}
+
+// ---------------------------------------------------------------------------
+// Naming helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Lowercase, hyphen-separated identifier safe for CSS/SCSS/JS keys
+ */
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Unique variable names for each color: the slugified name, falling back to
+ * `color-N`, with `-2`, `-3`, ... appended to repeats
+ */
+function colorKeys(colors: ExportColor[]): string[] {
+  const used = new Map<string, number>();
+  return colors.map((color, index) => {
+    let base = slugify(color.name ?? '') || `color-${index + 1}`;
+    if (/^[0-9]/.test(base)) base = `color-${base}`;
+    const count = (used.get(base) ?? 0) + 1;
+    used.set(base, count);
+    return count === 1 ? base : `${base}-${count}`;
+  });
+}
+
+function normalizeHex(hex: string): string {
+  return `#${hex.replace('#', '').toUpperCase()}`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * File name for an exported palette, e.g. `ocean-breeze.gpl`
+ */
+export function paletteExportFileName(
+  paletteName: string,
+  format: PaletteExportFormat
+): string {
+  return `${slugify(paletteName) || 'palette'}.${format.extension}`;
+}
+
+// ---------------------------------------------------------------------------
+// Binary helpers
+// ---------------------------------------------------------------------------
+
+/** Growable big-endian byte writer */
+class ByteWriter {
+  private bytes: number[] = [];
+
+  uint8(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  uint16(value: number) {
+    this.uint8(value >> 8);
+    this.uint8(value);
+  }
+
+  uint32(value: number) {
+    this.uint16(value >>> 16);
+    this.uint16(value);
+  }
+
+  float32(value: number) {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, value);
+    for (let i = 0; i < 4; i++) this.uint8(view.getUint8(i));
+  }
+
+  raw(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.uint8(values[i]);
+  }
+
+  get length() {
+    return this.bytes.length;
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build an uncompressed (stored) ZIP archive. Timestamps are fixed at the
+ * DOS epoch so the same input always yields the same bytes.
+ */
+function buildZip(
+  files: Array<{ name: string; data: Uint8Array }>
+): Uint8Array {
+  // Zip integers are little-endian
+  const le16 = (w: ByteWriter, v: number) => {
+    w.uint8(v);
+    w.uint8(v >> 8);
+  };
+  const le32 = (w: ByteWriter, v: number) => {
+    le16(w, v & 0xffff);
+    le16(w, v >>> 16);
+  };
+  const DOS_DATE = 0x0021; // 1980-01-01
+  const encoder = new TextEncoder();
+
+  const out = new ByteWriter();
+  const central = new ByteWriter();
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+    const offset = out.length;
+
+    le32(out, 0x04034b50); // local file header
+    le16(out, 20); // version needed
+    le16(out, 0x0800); // flags: UTF-8 names
+    le16(out, 0); // method: stored
+    le16(out, 0); // mod time
+    le16(out, DOS_DATE);
+    le32(out, crc);
+    le32(out, file.data.length);
+    le32(out, file.data.length);
+    le16(out, name.length);
+    le16(out, 0); // extra length
+    out.raw(name);
+    out.raw(file.data);
+
+    le32(central, 0x02014b50); // central directory header
+    le16(central, 20); // version made by
+    le16(central, 20); // version needed
+    le16(central, 0x0800);
+    le16(central, 0);
+    le16(central, 0);
+    le16(central, DOS_DATE);
+    le32(central, crc);
+    le32(central, file.data.length);
+    le32(central, file.data.length);
+    le16(central, name.length);
+    le16(central, 0); // extra length
+    le16(central, 0); // comment length
+    le16(central, 0); // disk number
+    le16(central, 0); // internal attributes
+    le32(central, 0); // external attributes
+    le32(central, offset);
+    central.raw(name);
+  }
+
+  const centralOffset = out.length;
+  const centralBytes = central.toBytes();
+  out.raw(centralBytes);
+
+  le32(out, 0x06054b50); // end of central directory
+  le16(out, 0);
+  le16(out, 0);
+  le16(out, files.length);
+  le16(out, files.length);
+  le32(out, centralBytes.length);
+  le32(out, centralOffset);
+  le16(out, 0); // comment length
+
+  return out.toBytes();
+}
+
+// ---------------------------------------------------------------------------
+// Formatters
+// ---------------------------------------------------------------------------
+
+function formatCsv(palette: ExportPalette): string {
+  const headers = ['Role', 'Hex', 'RGB', 'CMYK', 'Blender Hex'];
+  const rows = palette.colors.map(color => {
+    const rgb = hexToRgb(color.hex);
+    const cmyk = rgbToCmyk(rgb);
+    return [
+      color.name ?? '',
+      normalizeHex(color.hex),
+      `rgb(${rgb.r}, ${rgb.g}, ${rgb.b})`,
+      `cmyk(${cmyk.c}%, ${cmyk.m}%, ${cmyk.y}%, ${cmyk.k}%)`,
+      rgbToBlenderHex(rgb),
+    ];
+  });
+
+  return [headers, ...rows]
+    .map(row =>
+      row
+        .map(value =>
+          /[",]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+        )
+        .join(',')
+    )
+    .join('\n');
+}
+
+function formatCss(palette: ExportPalette): string {
+  const keys = colorKeys(palette.colors);
+  const lines = palette.colors.map(
+    (color, i) => `  --${keys[i]}: ${normalizeHex(color.hex)};`
+  );
+  return `/* ${palette.name} */\n:root {\n${lines.join('\n')}\n}\n`;
+}
+
+function formatScss(palette: ExportPalette): string {
+  const keys = colorKeys(palette.colors);
+  const lines = palette.colors.map(
+    (color, i) => `$${keys[i]}: ${normalizeHex(color.hex)};`
+  );
+  return `// ${palette.name}\n${lines.join('\n')}\n`;
+}
+
+function formatTailwind(palette: ExportPalette): string {
+  const keys = colorKeys(palette.colors);
+  const group = slugify(palette.name) || 'palette';
+  const lines = palette.colors.map(
+    (color, i) => `          '${keys[i]}': '${normalizeHex(color.hex)}',`
+  );
+  return [
+    `/** @type {import('tailwindcss').Config} */`,
+    `module.exports = {`,
+    `  theme: {`,
+    `    extend: {`,
+    `      colors: {`,
+    `        '${group}': {`,
+    ...lines,
+    `        },`,
+    `      },`,
+    `    },`,
+    `  },`,
+    `};`,
+    ``,
+  ].join('\n');
+}
+
+function formatDesignTokens(palette: ExportPalette): string {
+  const keys = colorKeys(palette.colors);
+  const tokens: Record<string, unknown> = { $type: 'color' };
+  palette.colors.forEach((color, i) => {
+    tokens[keys[i]] = { $value: normalizeHex(color.hex) };
+  });
+  const group = slugify(palette.name) || 'palette';
+  return `${JSON.stringify({ [group]: tokens }, null, 2)}\n`;
+}
+
+function formatGpl(palette: ExportPalette): string {
+  const keys = colorKeys(palette.colors);
+  const pad = (n: number) => String(n).padStart(3, ' ');
+  const lines = palette.colors.map((color, i) => {
+    const { r, g, b } = hexToRgb(color.hex);
+    return `${pad(r)} ${pad(g)} ${pad(b)}\t${keys[i]}`;
+  });
+  return [
+    'GIMP Palette',
+    `Name: ${palette.name.replace(/[\r\n]+/g, ' ')}`,
+    `Columns: ${palette.colors.length}`,
+    '#',
+    ...lines,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Adobe Swatch Exchange (.ase): big-endian; every color is one block with a
+ * UTF-16 name, the RGB model and three 0-1 floats
+ */
+function formatAse(palette: ExportPalette): Uint8Array {
+  const keys = colorKeys(palette.colors);
+  const out = new ByteWriter();
+  out.raw([0x41, 0x53, 0x45, 0x46]); // "ASEF"
+  out.uint16(1); // version 1.0
+  out.uint16(0);
+  out.uint32(palette.colors.length);
+
+  palette.colors.forEach((color, i) => {
+    const name = keys[i];
+    const { r, g, b } = hexToRgb(color.hex);
+    const block = new ByteWriter();
+    block.uint16(name.length + 1); // UTF-16 code units incl. terminator
+    for (let c = 0; c < name.length; c++) block.uint16(name.charCodeAt(c));
+    block.uint16(0);
+    block.raw([0x52, 0x47, 0x42, 0x20]); // "RGB "
+    block.float32(r / 255);
+    block.float32(g / 255);
+    block.float32(b / 255);
+    block.uint16(2); // color type: normal
+
+    out.uint16(0x0001); // color entry
+    out.uint32(block.length);
+    out.raw(block.toBytes());
+  });
+
+  return out.toBytes();
+}
+
+/**
+ * Procreate swatches (.swatches): a ZIP holding Swatches.json with HSB
+ * colors. Procreate palettes hold at most 30 swatches.
+ */
+function formatProcreate(palette: ExportPalette): Uint8Array {
+  const swatches = palette.colors.slice(0, 30).map(color => {
+    const hsb = rgbToHsb(hexToRgb(color.hex));
+    return {
+      hue: hsb.h,
+      saturation: hsb.s,
+      brightness: hsb.b,
+      alpha: 1,
+      colorSpace: 0,
+    };
+  });
+  const json = JSON.stringify([{ name: palette.name, swatches }]);
+  return buildZip([
+    { name: 'Swatches.json', data: new TextEncoder().encode(json) },
+  ]);
+}
+
+function formatSvg(palette: ExportPalette): string {
+  const size = 100;
+  const width = size * palette.colors.length;
+  const keys = colorKeys(palette.colors);
+  const rects = palette.colors.map(
+    (color, i) =>
+      `  <rect x="${i * size}" y="0" width="${size}" height="${size}" fill="${normalizeHex(color.hex)}"><title>${escapeXml(keys[i])}</title></rect>`
+  );
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${size}" viewBox="0 0 ${width} ${size}">`,
+    `  <title>${escapeXml(palette.name)}</title>`,
+    ...rects,
+    `</svg>`,
+    ``,
+  ].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export const PALETTE_EXPORT_FORMATS: readonly PaletteExportFormat[] = [
+  {
+    id: 'csv',
+    label: 'CSV',
+    extension: 'csv',
+    mimeType: 'text/csv',
+    format: formatCsv,
+  },
+  {
+    id: 'css',
+    label: 'CSS variables',
+    extension: 'css',
+    mimeType: 'text/css',
+    format: formatCss,
+  },
+  {
+    id: 'scss',
+    label: 'SCSS variables',
+    extension: 'scss',
+    mimeType: 'text/x-scss',
+    format: formatScss,
+  },
+  {
+    id: 'tailwind',
+    label: 'Tailwind config',
+    extension: 'js',
+    mimeType: 'text/javascript',
+    format: formatTailwind,
+  },
+  {
+    id: 'tokens',
+    label: 'Design tokens (JSON)',
+    extension: 'tokens.json',
+    mimeType: 'application/design-tokens+json',
+    format: formatDesignTokens,
+  },
+  {
+    id: 'gpl',
+    label: 'GIMP palette',
+    extension: 'gpl',
+    mimeType: 'text/plain',
+    format: formatGpl,
+  },
+  {
+    id: 'ase',
+    label: 'Adobe swatches',
+    extension: 'ase',
+    mimeType: 'application/octet-stream',
+    format: formatAse,
+  },
+  {
+    id: 'swatches',
+    label: 'Procreate swatches',
+    extension: 'swatches',
+    mimeType: 'application/zip',
+    format: formatProcreate,
+  },
+  {
+    id: 'svg',
+    label: 'SVG swatch strip',
+    extension: 'svg',
+    mimeType: 'image/svg+xml',
+    format: formatSvg,
+  },
+];
+
+/**
+ * Look up an export format by id
+ */
+export function getPaletteExportFormat(
+  id: string
+): PaletteExportFormat | undefined {
+  return PALETTE_EXPORT_FORMATS.find(f => f.id === id);
+}
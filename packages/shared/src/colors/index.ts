@@ -9,3 +9,4 @@ export * from './related-colors.js';
 export * from './palette-suggestions.js';
 export * from './themes.js';
 export * from './system-palettes.js';
+export * from './export-formats.js';